@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { 
   Copy, 
   FileSpreadsheet, 
@@ -7,77 +7,509 @@ import {
   CheckCircle, 
   AlertCircle,
   Loader2,
-  Download,
-  LogIn
+  LogIn,
+  History,
+  LayoutTemplate,
+  Crop,
+  RefreshCw,
+  SlidersHorizontal,
+  GitCompare,
+  X
 } from 'lucide-react';
 import ImageUploader from './components/ImageUploader';
 import DataEditor from './components/DataEditor';
+import ImagePreview from './components/ImagePreview';
+import DownloadMenu from './components/DownloadMenu';
 import ResultTabs from './components/ResultTabs';
-import { ExtractedData, AppStatus, SheetConfig, ProcessedResult } from './types';
-import { extractDataFromImage } from './services/geminiService';
-import { exportToGoogleSheet } from './services/googleSheetsService';
+import HistoryPanel from './components/HistoryPanel';
+import SettingsModal from './components/SettingsModal';
+import TemplateManager from './components/TemplateManager';
+import SheetSyncModal from './components/SheetSyncModal';
+import ExportPreviewModal from './components/ExportPreviewModal';
+import RerunModal from './components/RerunModal';
+import CompareModal from './components/CompareModal';
+import { ExtractedData, AppStatus, SheetConfig, ProcessedResult, UploadedDocument, ExtractionSettings, ExportSettings, DocumentTemplate, DataIssue, DocumentType, BoundingBox, RegionTarget, DownloadFormat, ExportSheet, MappingProfile, DocumentKeySource, DuplicateMode, SheetDestination, ExportLayout, DataChange, ExtractionVariant, ExportRecord } from './types';
+import { extractDataFromImage, extractRegion } from './services/extractionService';
+import { cropImage, hashPages } from './services/imageService';
+import { preprocessImage, PreprocessedImage } from './services/preprocessingService';
+import { createProvider, getActiveProvider, PROVIDER_LABELS } from './services/providers';
+import { withResponseCache } from './services/providers/cachedProvider';
+import { loadExtractionSettings, saveExtractionSettings, loadExportSettings, saveExportSettings, loadSheetConfig, saveSheetConfig, resolveDestination } from './services/settingsService';
+import { buildExportSheets, getDocumentKey } from './services/exportService';
+import { downloadBlob, safeFileName, toCsvBlob, toJsonBlob, toJsonDocument, toXlsxBlob, toZipBlob } from './services/fileExportService';
+import { loadTemplates, saveTemplates, validateAgainstTemplate } from './services/templateService';
+import { normalizeData, validateValues } from './services/valueService';
+import { checkArithmetic } from './services/rulesService';
+import { classifyDocument, AUTO_TEMPLATE_ID } from './services/classificationService';
+import { exportToGoogleSheet, pullFromGoogleSheet } from './services/googleSheetsService';
+import { applyDataChanges, diffExtractedData } from './services/diffService';
+import { EditHistory, EMPTY_HISTORY, recordEdit, redoEdit, undoEdit } from './services/historyService';
+import { createGoogleAuth, GoogleAuthError } from './services/googleAuthService';
+import { createSheetsClient, SheetsAuthError, SheetsNotFoundError, SheetsPermissionError } from './services/sheetsClient';
+import { applyMappingProfile, findMappingProfile, loadMappingProfiles, saveMappingProfiles } from './services/mappingService';
+import { mergePageResults } from './services/pdfService';
+import { createTaskQueue, withRetry, CancelledError, TaskQueue } from './services/extractionQueue';
+import { saveResults, loadResults, deleteResults, loadWorkspace, saveWorkspace, findResultsByHash, responseCache } from './services/storageService';
+
+interface ExtractOptions {
+  bypassCache?: boolean; // Call the model even when the response cache has an answer
+}
 
 const App: React.FC = () => {
   const [results, setResults] = useState<ProcessedResult[]>([]);
   const [activeResultId, setActiveResultId] = useState<string | null>(null);
+  const [activePage, setActivePage] = useState(0);
+  const [showOriginal, setShowOriginal] = useState(false);
+  const [focusedBox, setFocusedBox] = useState<BoundingBox | null>(null);
+
+  // Region re-extraction: draw a box on the preview, pick what it replaces
+  const [regionMode, setRegionMode] = useState(false);
+  const [pendingRegion, setPendingRegion] = useState<BoundingBox | null>(null);
+  const [regionTarget, setRegionTarget] = useState('');
+  const [regionBusy, setRegionBusy] = useState(false);
+  const regionAbortRef = useRef<AbortController | null>(null);
   
   const [showSettings, setShowSettings] = useState(false);
   
-  const [sheetConfig, setSheetConfig] = useState<SheetConfig>(() => {
-    try {
-      const savedConfig = localStorage.getItem('sheetConfig');
-      if (savedConfig) {
-        const parsed = JSON.parse(savedConfig);
-        if (typeof parsed.spreadsheetId === 'string' && typeof parsed.clientId === 'string') {
-          return parsed;
-        }
-      }
-    } catch (error) {
-      console.error("Failed to parse sheetConfig from localStorage", error);
-    }
-    return { spreadsheetId: '', clientId: '' };
-  });
+  const [sheetConfig, setSheetConfig] = useState<SheetConfig>(loadSheetConfig);
   
-  const [googleAccessToken, setGoogleAccessToken] = useState<string | null>(null);
+  const [extractionSettings, setExtractionSettings] = useState<ExtractionSettings>(loadExtractionSettings);
+  const [exportSettings, setExportSettings] = useState<ExportSettings>(loadExportSettings);
+
+  const [templates, setTemplates] = useState<DocumentTemplate[]>(loadTemplates);
+  const [showTemplates, setShowTemplates] = useState(false);
+
+  // Sheets exports are reviewed, and mapped onto fixed columns, before appending
+  const [mappingProfiles, setMappingProfiles] = useState<MappingProfile[]>(loadMappingProfiles);
+  const [pendingExport, setPendingExport] = useState<{
+    resultId: string;
+    destinationId: string;
+    documentKey: string;
+    keySource: DocumentKeySource;
+  } | null>(null);
+  const [pendingSync, setPendingSync] = useState<{ resultId: string; changes: DataChange[]; sheets: ExportSheet[] } | null>(null);
+  const [syncBusy, setSyncBusy] = useState(false);
+  // Re-running a result with another model or prompt, then comparing side by side
+  const [rerunFor, setRerunFor] = useState<string | null>(null);
+  const [rerunMessage, setRerunMessage] = useState<string | null>(null);
+  const rerunAbortRef = useRef<AbortController | null>(null);
+  const [pendingCompare, setPendingCompare] = useState<{ resultId: string; candidate: ExtractedData; label: string } | null>(null);
+  // Undo/redo per result id; kept for the session only
+  const [histories, setHistories] = useState<Record<string, EditHistory>>({});
+
+  // Recreated when the client ID changes; refreshes its token before expiry
+  const googleAuth = useMemo(() => createGoogleAuth(sheetConfig.clientId), [sheetConfig.clientId]);
+  const [googleConnected, setGoogleConnected] = useState(false);
+  const sheetsClient = useMemo(() => createSheetsClient({ getAccessToken: googleAuth.getAccessToken }), [googleAuth]);
+
+  // The queue outlives renders, so it reads settings through a ref
+  const extractionSettingsRef = useRef(extractionSettings);
+  const templatesRef = useRef(templates);
+  const queueRef = useRef<TaskQueue>(createTaskQueue(extractionSettings.concurrency));
+  const resultCounterRef = useRef(0);
+  // Latest results, for handlers that finish after an await
+  const resultsRef = useRef(results);
+
+  // Results saved to IndexedDB, by id, so only changed results are rewritten
+  const savedResultsRef = useRef(new Map<string, ProcessedResult>());
+  const [isRestored, setIsRestored] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
 
   useEffect(() => {
-    localStorage.setItem('sheetConfig', JSON.stringify(sheetConfig));
+    saveSheetConfig(sheetConfig);
   }, [sheetConfig]);
 
+  // A new client ID needs a new sign-in
+  useEffect(() => {
+    setGoogleConnected(false);
+  }, [googleAuth]);
+
+  useEffect(() => {
+    saveTemplates(templates);
+    templatesRef.current = templates;
+    setExtractionSettings(prev => (
+      prev.activeTemplateId && prev.activeTemplateId !== AUTO_TEMPLATE_ID && !templates.some(t => t.id === prev.activeTemplateId)
+        ? { ...prev, activeTemplateId: null }
+        : prev
+    ));
+  }, [templates]);
+
+  // Restore the tabs that were open when the page was last closed
+  useEffect(() => {
+    const workspace = loadWorkspace();
+    loadResults(workspace.openIds)
+      .then(restored => {
+        restored.forEach(r => savedResultsRef.current.set(r.id, r));
+        // StrictMode runs this effect twice in development; skip results already present
+        setResults(prev => [...restored.filter(r => !prev.some(p => p.id === r.id)), ...prev]);
+        setActiveResultId(prev => prev ?? (restored.some(r => r.id === workspace.activeId) ? workspace.activeId : restored[0]?.id ?? null));
+      })
+      .catch(error => console.error("Failed to restore workspace", error))
+      .finally(() => setIsRestored(true));
+  }, []);
+
+  useEffect(() => {
+    if (!isRestored) return;
+    const timer = setTimeout(() => {
+      const changed = results.filter(r => savedResultsRef.current.get(r.id) !== r);
+      saveResults(changed)
+        .then(() => changed.forEach(r => savedResultsRef.current.set(r.id, r)))
+        .catch(error => console.error("Failed to save results", error));
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [results, isRestored]);
+
+  useEffect(() => {
+    resultsRef.current = results;
+  }, [results]);
+
+  useEffect(() => {
+    if (!isRestored) return;
+    saveWorkspace({ openIds: results.map(r => r.id), activeId: activeResultId });
+  }, [results, activeResultId, isRestored]);
+
+  useEffect(() => {
+    saveExportSettings(exportSettings);
+  }, [exportSettings]);
+
+  useEffect(() => {
+    saveMappingProfiles(mappingProfiles);
+  }, [mappingProfiles]);
+
+  useEffect(() => {
+    saveExtractionSettings(extractionSettings);
+    extractionSettingsRef.current = extractionSettings;
+    queueRef.current.setConcurrency(extractionSettings.concurrency);
+  }, [extractionSettings]);
+
   // Find the currently active result from the results array
   const activeResult = results.find(r => r.id === activeResultId);
+  const activeTemplate = templates.find(t => t.id === activeResult?.appliedTemplateId) ?? null;
+  const activeIssues = useMemo<DataIssue[]>(() => {
+    if (!activeResult || activeResult.status === AppStatus.ANALYZING) return [];
+    return [
+      ...(activeTemplate ? validateAgainstTemplate(activeResult.data, activeTemplate) : []),
+      ...validateValues(activeResult.data, extractionSettings.locale),
+      ...checkArithmetic(activeResult.data, extractionSettings.arithmeticRules, extractionSettings.locale),
+    ];
+  }, [activeResult?.data, activeResult?.status, activeTemplate, extractionSettings.locale, extractionSettings.arithmeticRules]);
+  const activePages = activeResult?.pages ?? (activeResult ? [activeResult.image] : []);
+  // Boxes and region selection refer to the processed pages, so they are off while comparing
+  const comparing = showOriginal && !!activeResult?.originalPages;
+
+  const handleSelectTab = (id: string) => {
+    setActiveResultId(id);
+    setActivePage(0);
+  };
+
+  useEffect(() => {
+    setFocusedBox(null);
+    regionAbortRef.current?.abort();
+    setRegionMode(false);
+    setPendingRegion(null);
+    setRegionTarget('');
+  }, [activeResultId]);
+
+  // Region targets are encoded as "field:<index>" or "table:<index>:<mode>" for the select
+  const parseRegionTarget = (value: string): RegionTarget | null => {
+    const [kind, index, mode] = value.split(':');
+    if (kind === 'field') return { kind, fieldIndex: Number(index) };
+    if (kind === 'table' && (mode === 'replace' || mode === 'append')) return { kind, tableIndex: Number(index), mode };
+    return null;
+  };
+
+  const handleRegionSelected = (box: BoundingBox) => {
+    setPendingRegion(box);
+    setRegionTarget(prev => prev || (activeResult?.data.tables.length ? 'table:0:append' : activeResult?.data.fields.length ? 'field:0' : ''));
+  };
+
+  const handleRegionCancel = () => {
+    regionAbortRef.current?.abort();
+    setPendingRegion(null);
+    setRegionMode(false);
+  };
+
+  const handleRegionExtract = async () => {
+    const target = parseRegionTarget(regionTarget);
+    if (!activeResult || !pendingRegion || !target) return;
+
+    const { id } = activeResult;
+    const controller = new AbortController();
+    regionAbortRef.current = controller;
+    setRegionBusy(true);
+    try {
+      const settings = extractionSettingsRef.current;
+      const crop = await cropImage(activePages[pendingRegion.page ?? 0], pendingRegion);
+      const mergeRegion = await withRetry(
+        () => extractRegion(crop, pendingRegion, getActiveProvider(settings), activeResult.data, target, controller.signal),
+        { maxRetries: settings.maxRetries, signal: controller.signal }
+      );
+      // Merged into the data as it is now, which may have been edited during the read
+      commitData(id, mergeRegion);
+      setPendingRegion(null);
+      setRegionMode(false);
+    } catch (error: any) {
+      if (controller.signal.aborted || error instanceof CancelledError) return;
+      console.error(error);
+      alert(`Region extraction failed: ${error.message}`);
+    } finally {
+      setRegionBusy(false);
+    }
+  };
+
+  // Shows where a value came from; jumps to its page for multi-page documents
+  const handleFocusValue = (box: BoundingBox | null) => {
+    setFocusedBox(box);
+    if (box?.page !== undefined) setActivePage(box.page);
+  };
 
   // Helper to update a specific result in the state
   const updateResult = (id: string, updates: Partial<ProcessedResult>) => {
     setResults(prev => prev.map(r => (r.id === id ? { ...r, ...updates } : r)));
   };
 
-  const handleImageSelect = async (base64: string) => {
-    const newResultId = `result-${Date.now()}`;
+  // Replaces a result's data as a user edit that can be undone. `update` is
+  // either the new data or a function of the latest data.
+  const commitData = (id: string, update: ExtractedData | ((data: ExtractedData) => ExtractedData), editKey?: string) => {
+    const current = resultsRef.current.find(r => r.id === id);
+    if (!current) return;
+    setHistories(prev => ({ ...prev, [id]: recordEdit(prev[id] ?? EMPTY_HISTORY, current.data, editKey) }));
+    setResults(prev => prev.map(r => (r.id === id ? { ...r, data: typeof update === 'function' ? update(r.data) : update } : r)));
+  };
+
+  const stepHistory = (id: string, step: typeof undoEdit) => {
+    const current = results.find(r => r.id === id);
+    const moved = current && step(histories[id] ?? EMPTY_HISTORY, current.data);
+    if (!moved) return;
+    setHistories(prev => ({ ...prev, [id]: moved.history }));
+    updateResult(id, { data: moved.data });
+  };
+
+  // Runs extraction for one result. Called by the queue, so it only uses refs
+  // and functional state updates.
+  const processResult = async (result: ProcessedResult, signal: AbortSignal, { bypassCache }: ExtractOptions) => {
+    const { id } = result;
+    // Preprocessing always starts from the uploaded pages, so a retry with
+    // changed settings doesn't process them twice
+    const originals = result.originalPages ?? result.pages ?? [result.image];
+    let pages = originals;
+
+    updateResult(id, {
+      status: AppStatus.ANALYZING,
+      errorMessage: null,
+      statusMessage: undefined,
+      progress: pages.length > 1 ? { completed: 0, total: pages.length } : undefined,
+      fromCache: undefined,
+    });
+
+    try {
+      const settings = extractionSettingsRef.current;
+      if (settings.preprocessing.enabled) {
+        updateResult(id, { statusMessage: 'Preparing image...' });
+        const processed: PreprocessedImage[] = [];
+        for (const page of originals) processed.push(await preprocessImage(page, settings.preprocessing));
+        pages = processed.map(p => p.image);
+        updateResult(id, {
+          image: pages[0],
+          pages: pages.length > 1 ? pages : undefined,
+          originalPages: originals,
+          preprocessSteps: [...new Set(processed.flatMap(p => p.steps))],
+          statusMessage: undefined,
+        });
+      } else if (result.originalPages) {
+        updateResult(id, { image: originals[0], pages: originals.length > 1 ? originals : undefined, originalPages: undefined, preprocessSteps: undefined });
+      }
+
+      let cacheHits = 0;
+      const provider = settings.cacheResponses
+        ? withResponseCache(getActiveProvider(settings), responseCache, { bypassCache, onLookup: (hit) => { if (hit) cacheHits++; } })
+        : getActiveProvider(settings);
+      const retryOptions = {
+        maxRetries: settings.maxRetries,
+        signal,
+        onRetry: (attempt: number, delayMs: number) => {
+          updateResult(id, {
+            statusMessage: `Temporary error, retrying in ${Math.ceil(delayMs / 1000)}s (attempt ${attempt}/${settings.maxRetries})`,
+          });
+        },
+      };
+
+      // The first page decides the type; later pages of a PDF belong to the same document
+      let classification = result.classification;
+      if (!result.documentTypeOverridden) {
+        updateResult(id, { statusMessage: 'Detecting document type...' });
+        classification = await withRetry(() => classifyDocument(pages[0], provider, signal), retryOptions);
+      }
+
+      const requestedTemplateId = result.templateId === AUTO_TEMPLATE_ID
+        ? (classification ? settings.templateByType[classification.type] : null)
+        : result.templateId;
+      // A template deleted since upload falls back to generic extraction
+      const template = templatesRef.current.find(t => t.id === requestedTemplateId) ?? null;
+      updateResult(id, { classification, appliedTemplateId: template?.id ?? null, statusMessage: undefined });
+
+      // Pages are extracted one at a time so a long PDF doesn't burst the API quota
+      const pageResults: ExtractedData[] = [];
+      for (let i = 0; i < pages.length; i++) {
+        const pageData = await withRetry(() => extractDataFromImage(pages[i], provider, { signal, template }), retryOptions);
+        pageResults.push(pageData);
+        updateResult(id, {
+          statusMessage: undefined,
+          ...(pages.length > 1 && {
+            data: mergePageResults(pageResults),
+            progress: { completed: i + 1, total: pages.length },
+          }),
+        });
+      }
+      const data = mergePageResults(pageResults);
+      updateResult(id, { data, originalData: data, status: AppStatus.SUCCESS, fromCache: cacheHits > 0 });
+    } catch (error: any) { 
+      // Cancelled from the tab, closed, or superseded by a retry that now owns the result
+      if (signal.aborted || error instanceof CancelledError) return;
+      console.error(error);
+      updateResult(id, {
+        status: AppStatus.ERROR,
+        statusMessage: undefined,
+        errorMessage: error.message || "Failed to extract data.",
+      });
+    }
+  };
+
+  const enqueueResult = (result: ProcessedResult, options: ExtractOptions = {}) => {
+    updateResult(result.id, { status: AppStatus.QUEUED, errorMessage: null, statusMessage: undefined });
+    // Edits from before a re-extraction can't be undone onto the new data
+    setHistories(prev => ({ ...prev, [result.id]: EMPTY_HISTORY }));
+    queueRef.current.enqueue({ id: result.id, run: (signal) => processResult(result, signal, options) });
+  };
+
+  // Warns when the same pages were extracted before, in an open tab or in history
+  const flagDuplicate = async (id: string, pages: string[]) => {
+    try {
+      const contentHash = await hashPages(pages);
+      const saved = await findResultsByHash(contentHash);
+      setResults(prev => {
+        const earlier = prev.find(r => r.id !== id && r.contentHash === contentHash) ?? saved.find(s => s.id !== id);
+        const duplicateOf = earlier && { id: earlier.id, name: earlier.name, createdAt: earlier.createdAt };
+        return prev.map(r => (r.id === id ? { ...r, contentHash, duplicateOf } : r));
+      });
+    } catch (error) {
+      console.error("Failed to check for duplicate uploads", error);
+    }
+  };
+
+  const handleDocumentSelect = (document: UploadedDocument) => {
+    resultCounterRef.current += 1;
+    const newResultId = `result-${Date.now()}-${resultCounterRef.current}`;
+    const { pages } = document;
     const newResult: ProcessedResult = {
       id: newResultId,
-      name: `Result ${results.length + 1}`,
-      image: base64,
+      name: document.name.replace(/\.[^.]+$/, '') || `Result ${resultCounterRef.current}`,
+      image: pages[0],
+      pages: pages.length > 1 ? pages : undefined,
       data: { fields: [], tables: [] },
-      status: AppStatus.ANALYZING,
+      status: AppStatus.QUEUED,
       errorMessage: null,
+      createdAt: Date.now(),
+      templateId: extractionSettingsRef.current.activeTemplateId,
     };
 
     setResults(prev => [...prev, newResult]);
-    setActiveResultId(newResultId);
+    // Keep the user's current tab when a batch is dropped; only focus the first one
+    setActiveResultId(prev => prev ?? newResultId);
+    enqueueResult(newResult);
+    flagDuplicate(newResultId, pages);
+  };
+
+  const handleCancelTab = (id: string) => {
+    queueRef.current.cancel(id);
+    updateResult(id, { status: AppStatus.CANCELLED, statusMessage: undefined });
+  };
+
+  // Overriding the type re-runs extraction with the template routed for that type
+  const handleChangeDocumentType = (id: string, type: DocumentType) => {
+    const result = results.find(r => r.id === id);
+    if (!result) return;
+    const updated: ProcessedResult = {
+      ...result,
+      classification: { type, confidence: 1 },
+      documentTypeOverridden: true,
+      templateId: AUTO_TEMPLATE_ID,
+    };
+    updateResult(id, {
+      classification: updated.classification,
+      documentTypeOverridden: true,
+      templateId: AUTO_TEMPLATE_ID,
+    });
+    enqueueResult(updated);
+  };
+
+  const handleRetryTab = (id: string, options: ExtractOptions = {}) => {
+    const result = results.find(r => r.id === id);
+    if (!result) return;
+    enqueueResult(result, options);
+  };
+
+  // Re-extraction replaces the data and its undo history, so corrections
+  // made since the last extraction are only dropped once confirmed
+  const handleReextract = (id: string) => {
+    const result = results.find(r => r.id === id);
+    if (!result) return;
+    const corrected = !result.originalData || diffExtractedData(result.originalData, result.data).length > 0;
+    if (corrected && !window.confirm("Re-extracting replaces your corrections to this document, and they can't be undone. Re-extract anyway?")) return;
+    enqueueResult(result, { bypassCache: true });
+  };
+
+  // --- Re-run and Compare ---
+
+  const handleRerun = async (variant: ExtractionVariant) => {
+    const result = results.find(r => r.id === rerunFor);
+    if (!result) return;
+    const controller = new AbortController();
+    rerunAbortRef.current = controller;
+
+    const settings = extractionSettings;
+    const variantProvider = createProvider(variant.providerId, { ...settings.providers[variant.providerId], model: variant.model });
+    const provider = settings.cacheResponses ? withResponseCache(variantProvider, responseCache) : variantProvider;
+    const template = templates.find(t => t.id === variant.templateId) ?? null;
+    const instructions = variant.instructions.trim() || undefined;
+    const pages = result.pages ?? [result.image];
 
     try {
-      const extractedData = await extractDataFromImage(base64);
-      updateResult(newResultId, { data: extractedData, status: AppStatus.SUCCESS });
-    } catch (error: any) { 
+      const pageResults: ExtractedData[] = [];
+      for (let i = 0; i < pages.length; i++) {
+        setRerunMessage(pages.length > 1 ? `Extracting page ${i + 1} of ${pages.length}...` : 'Extracting...');
+        pageResults.push(await withRetry(
+          () => extractDataFromImage(pages[i], provider, { signal: controller.signal, template, instructions }),
+          { maxRetries: settings.maxRetries, signal: controller.signal }
+        ));
+      }
+      // Closed or stopped while the last page was in flight
+      if (controller.signal.aborted) return;
+      const label = [PROVIDER_LABELS[variant.providerId], variant.model, template?.name, instructions && 'extra instructions']
+        .filter(Boolean)
+        .join(' · ');
+      setPendingCompare({ resultId: result.id, candidate: mergePageResults(pageResults), label });
+      setRerunFor(null);
+    } catch (error: any) {
+      if (controller.signal.aborted || error instanceof CancelledError) return;
       console.error(error);
-      updateResult(newResultId, {
-        status: AppStatus.ERROR,
-        errorMessage: error.message || "Failed to extract data.",
-      });
+      alert(`Re-run failed: ${error.message}`);
+    } finally {
+      // A run started after this one was closed owns the state now
+      if (rerunAbortRef.current === controller) {
+        setRerunMessage(null);
+        rerunAbortRef.current = null;
+      }
     }
   };
 
+  const handleAcceptComparison = (changes: DataChange[]) => {
+    if (!pendingCompare) return;
+    const result = results.find(r => r.id === pendingCompare.resultId);
+    if (result) commitData(result.id, applyDataChanges(result.data, changes));
+    setPendingCompare(null);
+  };
+
   const copyToClipboard = () => {
     if (!activeResult?.data) return;
 
@@ -103,6 +535,7 @@ const App: React.FC = () => {
   };
 
   const handleCloseTab = (id: string) => {
+    queueRef.current.cancel(id);
     const remainingResults = results.filter(r => r.id !== id);
 
     if (activeResultId === id) {
@@ -116,44 +549,72 @@ const App: React.FC = () => {
     setResults(remainingResults);
   };
 
+  const handleOpenFromHistory = async (id: string) => {
+    setShowHistory(false);
+    if (!results.some(r => r.id === id)) {
+      let restored: ProcessedResult | undefined;
+      try {
+        [restored] = await loadResults([id]);
+      } catch (error: any) {
+        console.error(error);
+        alert(`Could not open this extraction: ${error.message}`);
+        return;
+      }
+      if (!restored) {
+        alert("This extraction could not be loaded.");
+        return;
+      }
+      savedResultsRef.current.set(restored.id, restored);
+      setResults(prev => (prev.some(r => r.id === id) ? prev : [...prev, restored]));
+    }
+    handleSelectTab(id);
+  };
+
+  // Resolves to whether the extraction was deleted, so the panel keeps it otherwise
+  const handleDeleteFromHistory = async (id: string) => {
+    try {
+      await deleteResults([id]);
+    } catch (error: any) {
+      console.error(error);
+      alert(`Could not delete this extraction: ${error.message}`);
+      return false;
+    }
+    queueRef.current.cancel(id);
+    savedResultsRef.current.delete(id);
+    setResults(prev => prev.filter(r => r.id !== id));
+    setActiveResultId(prev => (prev === id ? null : prev));
+    return true;
+  };
+
   const handleRenameTab = (id: string, newName: string) => {
     updateResult(id, { name: newName });
   };
 
-  const handleGoogleLogin = () => {
+  const handleGoogleLogin = async () => {
     if (!sheetConfig.clientId) {
       alert("Please enter your Google Client ID in settings first.");
       setShowSettings(true);
       return;
     }
 
-    if (!window.google) {
-      alert("Google Identity Services script not loaded.");
-      return;
+    try {
+      await googleAuth.signIn();
+      setGoogleConnected(true);
+      alert("Connected to Google successfully! You can now export.");
+    } catch (error: any) {
+      console.error(error);
+      alert(error.message);
     }
-
-    const tokenClient = window.google.accounts.oauth2.initTokenClient({
-      client_id: sheetConfig.clientId,
-      scope: 'https://www.googleapis.com/auth/spreadsheets',
-      callback: (tokenResponse: any) => {
-        if (tokenResponse && tokenResponse.access_token) {
-          setGoogleAccessToken(tokenResponse.access_token);
-          alert("Connected to Google successfully! You can now export.");
-        }
-      },
-    });
-
-    tokenClient.requestAccessToken();
   };
 
   const handleExportToSheets = async () => {
-    if (!sheetConfig.spreadsheetId) {
+    if (!sheetConfig.destinations.some(d => d.spreadsheetId)) {
       setShowSettings(true);
-      alert("Please enter the Spreadsheet ID.");
+      alert("Please add a Google Sheets destination.");
       return;
     }
 
-    if (!googleAccessToken) {
+    if (!googleConnected) {
       const confirmLogin = window.confirm("You need to connect to Google Sheets first. Connect now?");
       if (confirmLogin) {
         handleGoogleLogin();
@@ -166,116 +627,288 @@ const App: React.FC = () => {
       return;
     }
 
-    updateResult(activeResult.id, { status: AppStatus.EXPORTING });
+    const data = normalizeData(activeResult.data, extractionSettings.locale);
+    const { key, source } = await getDocumentKey(activeResult, data, exportSettings);
+    setPendingExport({
+      resultId: activeResult.id,
+      destinationId: resolveDestination(sheetConfig, activeResult.classification?.type)?.id,
+      documentKey: key,
+      keySource: source,
+    });
+  };
+
+  const handleSheetsError = (error: any, action: string) => {
+    console.error(error);
+    if (error instanceof SheetsAuthError || error instanceof GoogleAuthError) {
+      googleAuth.signOut();
+      setGoogleConnected(false);
+      alert("Session expired. Please connect again.");
+    } else if (error instanceof SheetsNotFoundError) {
+      alert(`${action} Failed: Spreadsheet not found. Check the destination in settings.`);
+    } else if (error instanceof SheetsPermissionError) {
+      alert(`${action} Failed: No access to this spreadsheet. ${error.message}`);
+    } else {
+      alert(`${action} Failed: ${error.message}`);
+    }
+  };
+
+  const runSheetsExport = async (
+    resultId: string,
+    documentKey: string,
+    sheets: ExportSheet[],
+    mode: DuplicateMode,
+    target: { spreadsheetId: string; worksheet: string; layout: ExportLayout; profileIds: Record<string, string | null> }
+  ) => {
+    updateResult(resultId, { status: AppStatus.EXPORTING });
     try {
-      const sheetName = activeResult.name;
-      await exportToGoogleSheet(sheetConfig.spreadsheetId, googleAccessToken, activeResult.data, sheetName);
-      alert(`Success! Data exported to sheet: ${sheetName}`);
-      updateResult(activeResult.id, { status: AppStatus.SUCCESS });
+      const summary = await exportToGoogleSheet(sheetsClient, target.spreadsheetId, sheets, { documentKey, mode });
+      const message = [
+        summary.written.length > 0 && `Data exported to ${summary.written.length === 1 ? 'sheet' : 'sheets'}: ${summary.written.join(', ')}`,
+        summary.skipped.length > 0 && `Already exported, skipped: ${summary.skipped.join(', ')}`,
+      ].filter(Boolean).join('\n');
+      alert(summary.written.length > 0 ? `Success! ${message}` : message);
+      updateResult(resultId, {
+        status: AppStatus.SUCCESS,
+        lastExport: {
+          exportedAt: Date.now(),
+          ...target,
+          documentKey,
+          mode,
+          worksheets: summary.written,
+          skipped: summary.skipped,
+          rowCount: summary.rowCount,
+          sheets,
+        },
+      });
     } catch (error: any) {
-      console.error(error);
-      alert(`Export Failed: ${error.message}`);
-      updateResult(activeResult.id, { status: AppStatus.SUCCESS });
-      
-      if (error.message.includes("401") || error.message.includes("unauthorized")) {
-        setGoogleAccessToken(null);
-        alert("Session expired. Please connect again.");
-      }
+      updateResult(resultId, { status: AppStatus.SUCCESS });
+      handleSheetsError(error, 'Export');
     }
   };
 
-  const downloadCSV = () => {
-    if (!activeResult?.data) return;
+  const handleConfirmExport = (
+    sheets: ExportSheet[],
+    mode: DuplicateMode,
+    destination: SheetDestination,
+    worksheet: string,
+    profileIds: Record<string, string | null>
+  ) => {
+    if (!pendingExport) return;
+    const { resultId, documentKey } = pendingExport;
+    setPendingExport(null);
+    runSheetsExport(resultId, documentKey, sheets, mode, {
+      spreadsheetId: destination.spreadsheetId,
+      worksheet,
+      layout: exportSettings.layout,
+      profileIds,
+    });
+  };
 
-    const resultData = activeResult.data;
-    let headers: string[] = resultData.fields.map(f => f.label);
-    let rows: string[][] = [resultData.fields.map(f => String(f.value))];
+  // Profile used for each worksheet of an export. Exports saved without
+  // them fall back to the profile each worksheet matches now.
+  const recordedProfileIds = (record: ExportRecord) =>
+    record.profileIds ?? Object.fromEntries(
+      [...record.worksheets, ...record.skipped].map(name => [name, findMappingProfile(mappingProfiles, record.spreadsheetId, name)?.id ?? null])
+    );
 
-    if (resultData.tables.length > 0) {
-      const mainTable = resultData.tables[0];
-      headers = [...headers, ...mainTable.headers];
-      rows = [];
-      
-      const globalVals = resultData.fields.map(f => String(f.value));
-      mainTable.rows.forEach(r => {
-        rows.push([...globalVals, ...r.values]);
+  // Current data laid out and mapped the way it was last exported
+  const buildRecordedSheets = (result: ProcessedResult, record: ExportRecord) => {
+    const profileIds = recordedProfileIds(record);
+    return buildActiveExportSheets(result, record.worksheet, record.layout)
+      .filter(sheet => sheet.name in profileIds)
+      .map(sheet => {
+        const profile = mappingProfiles.find(p => p.id === profileIds[sheet.name]);
+        return profile ? applyMappingProfile(sheet, profile) : sheet;
       });
+  };
+
+  // Reads the rows of the last export back and compares them with the rows
+  // as exported, so rows added locally since don't look deleted in the sheet
+  const handlePullFromSheets = async () => {
+    const record = activeResult?.lastExport;
+    if (!record) return;
+    if (!googleConnected) {
+      if (window.confirm("You need to connect to Google Sheets first. Connect now?")) handleGoogleLogin();
+      return;
     }
 
-    const csvContent = "data:text/csv;charset=utf-8," 
-      + headers.map(h => `"${h}"`).join(",") + "\n" 
-      + rows.map(r => r.map(c => `"${c}"`).join(",")).join("\n");
-      
-    const encodedUri = encodeURI(csvContent);
-    const link = document.createElement("a");
-    link.setAttribute("href", encodedUri);
-    const fileName = `extracted_data_${results.findIndex(r => r.id === activeResultId) + 1}.csv`;
-    link.setAttribute("download", fileName);
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+    const sheets = buildRecordedSheets(activeResult, record);
+    setSyncBusy(true);
+    try {
+      const local = normalizeData(activeResult.data, extractionSettings.locale);
+      const remote = await pullFromGoogleSheet(
+        sheetsClient,
+        record.spreadsheetId,
+        local,
+        record.sheets ?? sheets,
+        record.documentKey,
+        extractionSettings.locale
+      );
+      // Pushing sends the current data, mapped as it was exported
+      setPendingSync({ resultId: activeResult.id, changes: diffExtractedData(local, remote), sheets });
+    } catch (error: any) {
+      handleSheetsError(error, 'Pull');
+    } finally {
+      setSyncBusy(false);
+    }
+  };
+
+  const handleAcceptSheetChanges = (changes: DataChange[]) => {
+    if (!pendingSync) return;
+    const { resultId } = pendingSync;
+    setPendingSync(null);
+    const result = results.find(r => r.id === resultId);
+    if (result) commitData(resultId, applyDataChanges(result.data, changes));
+  };
+
+  const handlePushToSheets = () => {
+    if (!pendingSync) return;
+    const { resultId, sheets } = pendingSync;
+    const record = results.find(r => r.id === resultId)?.lastExport;
+    setPendingSync(null);
+    if (!record) return;
+    runSheetsExport(resultId, record.documentKey, sheets, 'upsert', {
+      spreadsheetId: record.spreadsheetId,
+      worksheet: record.worksheet,
+      layout: record.layout,
+      profileIds: recordedProfileIds(record),
+    });
+  };
+
+  // Canonical values laid out the way every exporter writes them
+  const buildActiveExportSheets = (result: ProcessedResult, baseName: string, layout = exportSettings.layout) =>
+    buildExportSheets(normalizeData(result.data, extractionSettings.locale), {
+      layout,
+      documentId: result.id,
+      baseName,
+    });
+
+  const handleDownload = (format: DownloadFormat) => {
+    if (!activeResult?.data) return;
+
+    if (format === 'zip') {
+      const entries = results
+        .filter(r => r.status !== AppStatus.QUEUED && r.status !== AppStatus.ANALYZING)
+        .map(result => ({
+          result,
+          data: normalizeData(result.data, extractionSettings.locale),
+          sheets: buildActiveExportSheets(result, result.name),
+        }));
+      downloadBlob(toZipBlob(entries), 'lenslogic-export.zip');
+      return;
+    }
+
+    const fileName = safeFileName(activeResult.name);
+    if (format === 'json') {
+      const data = normalizeData(activeResult.data, extractionSettings.locale);
+      downloadBlob(toJsonBlob(toJsonDocument(activeResult, data)), `${fileName}.json`);
+      return;
+    }
+
+    const sheets = buildActiveExportSheets(activeResult, activeResult.name);
+    if (format === 'xlsx') {
+      downloadBlob(toXlsxBlob(sheets), `${fileName}.xlsx`);
+    } else {
+      // One file per sheet, so the per-table layout downloads several files
+      sheets.forEach(sheet => downloadBlob(toCsvBlob(sheet), `${safeFileName(sheet.name)}.csv`));
+    }
   };
 
+  const batchPending = results.filter(r => r.status === AppStatus.QUEUED || r.status === AppStatus.ANALYZING).length;
+  const batchTotal = results.length;
+
   const hasData = (activeResult?.data?.fields?.length ?? 0) > 0 || (activeResult?.data?.tables?.length ?? 0) > 0;
 
   return (
     <div className="min-h-screen flex flex-col md:flex-row bg-slate-50 text-slate-900 font-sans">
       
-      {showSettings && (
-        <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4 backdrop-blur-sm">
-          <div className="bg-white rounded-2xl shadow-2xl max-w-md w-full p-6 animate-in fade-in zoom-in duration-200">
-            <div className="flex justify-between items-center mb-6">
-              <h2 className="text-xl font-bold flex items-center gap-2">
-                <FileSpreadsheet className="text-green-600" />
-                Google Sheets Setup
-              </h2>
-              <button onClick={() => setShowSettings(false)} className="text-slate-400 hover:text-slate-600">Close</button>
-            </div>
-            
-            <div className="space-y-4">
-              <div>
-                <label className="block text-sm font-medium text-slate-700 mb-1">Spreadsheet ID</label>
-                <input 
-                  type="text" 
-                  value={sheetConfig.spreadsheetId}
-                  onChange={(e) => setSheetConfig(prev => ({...prev, spreadsheetId: e.target.value}))}
-                  placeholder="e.g. 1BxiMVs0XRA5nFMd..."
-                  className="w-full border border-slate-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-brand-500 outline-none"
-                />
-                <p className="text-xs text-slate-400 mt-1">Found in your Google Sheet URL.</p>
-              </div>
-              
-              <div>
-                <label className="block text-sm font-medium text-slate-700 mb-1">OAuth Client ID</label>
-                <input 
-                  type="text" 
-                  value={sheetConfig.clientId}
-                  onChange={(e) => setSheetConfig(prev => ({...prev, clientId: e.target.value}))}
-                  placeholder="e.g. 123456...apps.googleusercontent.com"
-                  className="w-full border border-slate-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-brand-500 outline-none"
-                />
-                <div className="text-xs text-slate-500 mt-2 space-y-1">
-                  <p>To enable "Sign in with Google":</p>
-                  <ol className="list-decimal pl-4 space-y-1">
-                    <li>Go to Google Cloud Console {'>'} APIs & Services.</li>
-                    <li>Create Credentials {'>'} OAuth Client ID (Web App).</li>
-                    <li>Add your Netlify URL to <strong>Authorized JavaScript origins</strong>.</li>
-                    <li>Copy Client ID here.</li>
-                  </ol>
-                </div>
-              </div>
-            </div>
+      {showHistory && (
+        <HistoryPanel
+          openIds={results.map(r => r.id)}
+          onOpen={handleOpenFromHistory}
+          onDelete={handleDeleteFromHistory}
+          onClose={() => setShowHistory(false)}
+        />
+      )}
 
-            <div className="mt-6 flex justify-end">
-              <button 
-                onClick={() => setShowSettings(false)}
-                className="bg-brand-600 hover:bg-brand-700 text-white px-4 py-2 rounded-lg font-medium transition-colors"
-              >
-                Save Configuration
-              </button>
-            </div>
-          </div>
-        </div>
+      {showTemplates && (
+        <TemplateManager
+          templates={templates}
+          onChange={setTemplates}
+          onClose={() => setShowTemplates(false)}
+        />
+      )}
+
+      {pendingExport && (
+        <ExportPreviewModal
+          buildSheets={(worksheet) => buildActiveExportSheets(results.find(r => r.id === pendingExport.resultId), worksheet)}
+          destinations={sheetConfig.destinations.filter(d => d.spreadsheetId)}
+          initialDestinationId={pendingExport.destinationId}
+          defaultWorksheet={results.find(r => r.id === pendingExport.resultId)?.name ?? 'Export'}
+          client={sheetsClient}
+          profiles={mappingProfiles}
+          onProfilesChange={setMappingProfiles}
+          documentKey={pendingExport.documentKey}
+          keySource={pendingExport.keySource}
+          defaultMode={exportSettings.duplicateMode}
+          lastExport={results.find(r => r.id === pendingExport.resultId)?.lastExport}
+          onConfirm={handleConfirmExport}
+          onClose={() => setPendingExport(null)}
+        />
+      )}
+
+      {pendingSync && (
+        <SheetSyncModal
+          changes={pendingSync.changes}
+          source={pendingSync.sheets.map(s => s.name).join(', ')}
+          onAccept={handleAcceptSheetChanges}
+          onPush={handlePushToSheets}
+          onClose={() => setPendingSync(null)}
+        />
+      )}
+
+      {rerunFor && (
+        <RerunModal
+          initial={{
+            providerId: extractionSettings.providerId,
+            model: extractionSettings.providers[extractionSettings.providerId].model,
+            templateId: results.find(r => r.id === rerunFor)?.appliedTemplateId ?? null,
+            instructions: '',
+          }}
+          settings={extractionSettings}
+          templates={templates}
+          busyMessage={rerunMessage}
+          onRun={handleRerun}
+          onCancel={() => rerunAbortRef.current?.abort()}
+          onClose={() => {
+            rerunAbortRef.current?.abort();
+            setRerunFor(null);
+          }}
+        />
+      )}
+
+      {pendingCompare && (
+        <CompareModal
+          current={results.find(r => r.id === pendingCompare.resultId)?.data ?? { fields: [], tables: [] }}
+          candidate={pendingCompare.candidate}
+          candidateLabel={pendingCompare.label}
+          onAccept={handleAcceptComparison}
+          onClose={() => setPendingCompare(null)}
+        />
+      )}
+
+      {showSettings && (
+        <SettingsModal
+          sheetConfig={sheetConfig}
+          onSheetConfigChange={setSheetConfig}
+          extractionSettings={extractionSettings}
+          onExtractionSettingsChange={setExtractionSettings}
+          templates={templates}
+          sheetsClient={googleConnected ? sheetsClient : null}
+          exportSettings={exportSettings}
+          onExportSettingsChange={setExportSettings}
+          onClose={() => setShowSettings(false)}
+        />
       )}
 
       <main className="flex-1 flex flex-col max-w-7xl mx-auto w-full p-4 md:p-6 lg:p-8 gap-6">
@@ -293,46 +926,124 @@ const App: React.FC = () => {
             </p>
           </div>
           
-          <button 
-            onClick={() => setShowSettings(true)}
-            className="p-2 text-slate-500 hover:bg-slate-200 rounded-full transition-colors flex items-center gap-2"
-            title="Settings"
-          >
-            {googleAccessToken ? (
-              <span className="text-xs font-medium text-green-600 bg-green-50 px-2 py-1 rounded-full flex items-center">
-                <span className="w-2 h-2 bg-green-500 rounded-full mr-1"></span>
-                Connected
-              </span>
-            ) : (
-              <span className="text-xs font-medium text-slate-400">Not Connected</span>
-            )}
-            <Settings size={24} />
-          </button>
+          <div className="flex items-center gap-1">
+            <button 
+              onClick={() => setShowHistory(true)}
+              className="p-2 text-slate-500 hover:bg-slate-200 rounded-full transition-colors"
+              title="History"
+            >
+              <History size={24} />
+            </button>
+            <button 
+              onClick={() => setShowSettings(true)}
+              className="p-2 text-slate-500 hover:bg-slate-200 rounded-full transition-colors flex items-center gap-2"
+              title="Settings"
+            >
+              {googleConnected ? (
+                <span className="text-xs font-medium text-green-600 bg-green-50 px-2 py-1 rounded-full flex items-center">
+                  <span className="w-2 h-2 bg-green-500 rounded-full mr-1"></span>
+                  Connected
+                </span>
+              ) : (
+                <span className="text-xs font-medium text-slate-400">Not Connected</span>
+              )}
+              <Settings size={24} />
+            </button>
+          </div>
         </header>
 
         <div className="flex-1 grid grid-cols-1 lg:grid-cols-2 gap-6 min-h-0">
           
           <section className="flex flex-col gap-4">
             <div className="bg-white p-1 rounded-2xl shadow-sm border border-slate-100">
-               <ImageUploader 
-                 onImageSelected={handleImageSelect} 
-                 isLoading={results.some(r => r.status === AppStatus.ANALYZING)} 
-               />
+               <ImageUploader onDocumentSelected={handleDocumentSelect} />
+               <div className="flex items-center gap-2 px-3 py-2 text-sm">
+                 <LayoutTemplate size={16} className="text-slate-400 shrink-0" />
+                 <label htmlFor="template-select" className="text-slate-500 shrink-0">Template</label>
+                 <select
+                   id="template-select"
+                   value={extractionSettings.activeTemplateId ?? ''}
+                   onChange={(e) => setExtractionSettings(prev => ({ ...prev, activeTemplateId: e.target.value || null }))}
+                   className="flex-1 min-w-0 border border-slate-200 rounded-lg px-2 py-1 text-sm bg-white focus:ring-2 focus:ring-brand-500 outline-none"
+                 >
+                   <option value={AUTO_TEMPLATE_ID}>Auto (by detected document type)</option>
+                   <option value="">Generic (no template)</option>
+                   {templates.map(t => (
+                     <option key={t.id} value={t.id}>{t.name}</option>
+                   ))}
+                 </select>
+                 <button
+                   onClick={() => setShowTemplates(true)}
+                   className="text-xs font-medium text-brand-600 hover:text-brand-700 px-2 py-1 shrink-0"
+                 >
+                   Manage
+                 </button>
+               </div>
             </div>
 
+            {batchTotal > 1 && batchPending > 0 && (
+              <div className="bg-white px-4 py-3 rounded-xl shadow-sm border border-slate-100">
+                <div className="flex justify-between text-xs font-medium text-slate-500 mb-2">
+                  <span>Processing batch</span>
+                  <span>{batchTotal - batchPending} / {batchTotal} done</span>
+                </div>
+                <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-brand-500 transition-all duration-300"
+                    style={{ width: `${((batchTotal - batchPending) / batchTotal) * 100}%` }}
+                  />
+                </div>
+              </div>
+            )}
+
             {activeResult && (
-              <div className="relative flex-1 bg-slate-900 rounded-xl overflow-hidden shadow-inner flex items-center justify-center min-h-[300px]">
-                <img 
-                  src={activeResult.image} 
-                  alt="Preview" 
-                  className="max-w-full max-h-[500px] object-contain opacity-90"
-                />
-                
-                {activeResult.status === AppStatus.ANALYZING && (
+              <ImagePreview
+                pages={comparing ? activeResult.originalPages : activePages}
+                page={activePage}
+                onPageChange={setActivePage}
+                highlight={comparing ? null : focusedBox}
+                selecting={regionMode && !regionBusy && !comparing}
+                selection={comparing ? null : pendingRegion}
+                onSelect={handleRegionSelected}
+              >
+                {activeResult.originalPages && (
+                  <button
+                    onClick={() => setShowOriginal(v => !v)}
+                    className={`absolute top-3 left-3 z-20 flex items-center gap-1.5 text-xs font-medium px-3 py-1.5 rounded-full transition-colors ${comparing ? 'bg-white text-slate-900' : 'bg-black/60 text-white hover:bg-black/80'}`}
+                    title={activeResult.preprocessSteps?.length ? activeResult.preprocessSteps.join('\n') : 'No changes were needed'}
+                  >
+                    <SlidersHorizontal size={14} />
+                    {comparing ? 'Original' : 'Processed'}
+                  </button>
+                )}
+                {activeResult.status === AppStatus.SUCCESS && (
+                  <button
+                    onClick={() => (regionMode ? handleRegionCancel() : setRegionMode(true))}
+                    className={`absolute top-3 right-3 z-20 flex items-center gap-1.5 text-xs font-medium px-3 py-1.5 rounded-full transition-colors ${regionMode ? 'bg-amber-400 text-slate-900' : 'bg-black/60 text-white hover:bg-black/80'}`}
+                    title="Draw a box around a value or table to read it again"
+                  >
+                    {regionMode ? <X size={14} /> : <Crop size={14} />}
+                    {regionMode ? 'Cancel' : 'Re-read region'}
+                  </button>
+                )}
+                {(activeResult.status === AppStatus.ANALYZING || activeResult.status === AppStatus.QUEUED) && (
                   <div className="absolute inset-0 bg-black/60 flex flex-col items-center justify-center backdrop-blur-sm z-10">
                     <Loader2 className="w-10 h-10 text-brand-400 animate-spin mb-4" />
-                    <p className="text-white font-medium text-lg animate-pulse">Analyzing document...</p>
-                    <p className="text-slate-300 text-sm mt-2">Extracting fields and tables.</p>
+                    <p className="text-white font-medium text-lg animate-pulse">
+                      {activeResult.status === AppStatus.QUEUED ? 'Waiting in queue...' : 'Analyzing document...'}
+                    </p>
+                    <p className="text-slate-300 text-sm mt-2">
+                      {activeResult.statusMessage
+                        ?? (activeResult.progress
+                          ? `Extracted ${activeResult.progress.completed} of ${activeResult.progress.total} pages.`
+                          : 'Extracting fields and tables.')}
+                    </p>
+                    <button 
+                      onClick={() => handleCancelTab(activeResult.id)} 
+                      className="mt-4 px-4 py-2 bg-white/10 hover:bg-white/20 text-white rounded-lg text-sm"
+                    >
+                      Cancel
+                    </button>
                   </div>
                 )}
                 
@@ -342,13 +1053,49 @@ const App: React.FC = () => {
                     <p className="text-white font-bold text-lg">Extraction Failed</p>
                     <p className="text-red-200 text-sm mt-2">{activeResult.errorMessage}</p>
                     <button 
-                      onClick={() => updateResult(activeResult.id, { status: AppStatus.IDLE })} 
+                      onClick={() => handleRetryTab(activeResult.id)} 
                       className="mt-4 px-4 py-2 bg-white/10 hover:bg-white/20 text-white rounded-lg text-sm"
                     >
                       Try Again
                     </button>
                   </div>
                 )}
+              </ImagePreview>
+            )}
+
+            {activeResult && regionMode && (
+              <div className="bg-white p-3 rounded-xl shadow-sm border border-amber-200 text-sm">
+                {!pendingRegion ? (
+                  <p className="text-slate-500">Drag a rectangle on the image around the value or rows to read again.</p>
+                ) : (
+                  <div className="flex items-center gap-2">
+                    <select
+                      value={regionTarget}
+                      onChange={(e) => setRegionTarget(e.target.value)}
+                      disabled={regionBusy}
+                      className="flex-1 min-w-0 border border-slate-300 rounded-lg px-2 py-1.5 text-sm focus:ring-2 focus:ring-brand-500 outline-none"
+                    >
+                      <option value="" disabled>Use the region for...</option>
+                      {activeResult.data.tables.map((table, i) => (
+                        <React.Fragment key={`table-${i}`}>
+                          <option value={`table:${i}:append`}>Append rows to {table.name || `Table ${i + 1}`}</option>
+                          <option value={`table:${i}:replace`}>Replace rows of {table.name || `Table ${i + 1}`}</option>
+                        </React.Fragment>
+                      ))}
+                      {activeResult.data.fields.map((field, i) => (
+                        <option key={`field-${i}`} value={`field:${i}`}>Replace field: {field.label}</option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={handleRegionExtract}
+                      disabled={regionBusy || !parseRegionTarget(regionTarget)}
+                      className="flex items-center gap-1.5 bg-brand-600 hover:bg-brand-700 disabled:opacity-50 text-white px-3 py-1.5 rounded-lg font-medium transition-colors"
+                    >
+                      {regionBusy ? <Loader2 size={14} className="animate-spin" /> : <Sparkles size={14} />}
+                      {regionBusy ? 'Reading...' : 'Extract'}
+                    </button>
+                  </div>
+                )}
               </div>
             )}
           </section>
@@ -357,16 +1104,42 @@ const App: React.FC = () => {
             <ResultTabs 
               results={results}
               activeResultId={activeResultId}
-              onSelectTab={setActiveResultId}
+              onSelectTab={handleSelectTab}
               onCloseTab={handleCloseTab}
               onRenameTab={handleRenameTab}
+              onCancelTab={handleCancelTab}
+              onRetryTab={handleRetryTab}
+              onChangeDocumentType={handleChangeDocumentType}
             />
+            {activeResult?.duplicateOf && (
+              <div className="flex items-center gap-2 bg-amber-50 border border-amber-200 text-amber-800 text-sm rounded-xl px-3 py-2">
+                <AlertCircle size={16} className="shrink-0" />
+                <span className="flex-1">
+                  These pages were already processed as "{activeResult.duplicateOf.name}" on {new Date(activeResult.duplicateOf.createdAt).toLocaleString()}.
+                </span>
+                <button onClick={() => handleOpenFromHistory(activeResult.duplicateOf.id)} className="font-medium hover:underline shrink-0">
+                  Open it
+                </button>
+                <button onClick={() => updateResult(activeResult.id, { duplicateOf: undefined })} className="text-amber-600 hover:text-amber-800" title="Dismiss">
+                  <X size={14} />
+                </button>
+              </div>
+            )}
             <DataEditor 
               key={activeResultId}
               data={activeResult?.data ?? { fields: [], tables: [] }}
-              onChange={(newData) => {
+              issues={activeIssues}
+              locale={extractionSettings.locale}
+              confidenceThreshold={extractionSettings.confidenceThreshold}
+              onFocusValue={handleFocusValue}
+              originalData={activeResult?.originalData}
+              canUndo={(histories[activeResultId]?.past.length ?? 0) > 0}
+              canRedo={(histories[activeResultId]?.future.length ?? 0) > 0}
+              onUndo={() => activeResultId && stepHistory(activeResultId, undoEdit)}
+              onRedo={() => activeResultId && stepHistory(activeResultId, redoEdit)}
+              onChange={(newData, editKey) => {
                 if (activeResultId) {
-                  updateResult(activeResultId, { data: newData });
+                  commitData(activeResultId, newData, editKey);
                 }
               }}
             />
@@ -381,16 +1154,13 @@ const App: React.FC = () => {
                  <span>Copy Text</span>
                </button>
 
-               <button 
-                 onClick={downloadCSV}
+               <DownloadMenu
                  disabled={!hasData}
-                 className="flex items-center justify-center gap-2 py-3 px-4 bg-white border border-slate-200 text-slate-700 font-semibold rounded-xl hover:bg-slate-50 hover:border-slate-300 transition-all disabled:opacity-50 disabled:cursor-not-allowed shadow-sm"
-               >
-                 <Download size={18} />
-                 <span>CSV</span>
-               </button>
+                 openCount={results.filter(r => r.status !== AppStatus.QUEUED && r.status !== AppStatus.ANALYZING).length}
+                 onDownload={handleDownload}
+               />
 
-               {!googleAccessToken ? (
+               {!googleConnected ? (
                  <button 
                    onClick={handleGoogleLogin}
                    className="col-span-2 md:col-span-1 flex items-center justify-center gap-2 py-3 px-4 bg-white border border-slate-200 text-slate-700 font-semibold rounded-xl hover:bg-slate-50 hover:border-slate-300 shadow-sm transition-all"
@@ -401,6 +1171,7 @@ const App: React.FC = () => {
                ) : (
                  <button 
                    onClick={handleExportToSheets}
+                   title={activeResult?.lastExport ? `Last exported ${new Date(activeResult.lastExport.exportedAt).toLocaleString()}` : undefined}
                    disabled={!hasData || activeResult?.status === AppStatus.EXPORTING}
                    className="col-span-2 md:col-span-1 flex items-center justify-center gap-2 py-3 px-4 bg-green-600 text-white font-semibold rounded-xl hover:bg-green-700 shadow-md hover:shadow-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
                  >
@@ -413,6 +1184,45 @@ const App: React.FC = () => {
                  </button>
                )}
             </div>
+
+            {activeResult?.lastExport && (
+              <div className="flex flex-wrap items-center justify-between gap-2 text-xs text-slate-500 px-1">
+                <span>
+                  Exported {new Date(activeResult.lastExport.exportedAt).toLocaleString()} to {activeResult.lastExport.worksheets.join(', ') || activeResult.lastExport.worksheet}
+                </span>
+                <button
+                  onClick={handlePullFromSheets}
+                  disabled={syncBusy || activeResult.status === AppStatus.EXPORTING}
+                  className="flex items-center gap-1 text-green-700 hover:text-green-800 font-medium disabled:opacity-50"
+                >
+                  {syncBusy ? <Loader2 size={14} className="animate-spin" /> : <RefreshCw size={14} />}
+                  Pull changes from Sheet
+                </button>
+              </div>
+            )}
+
+            {activeResult?.status === AppStatus.SUCCESS && (
+              <div className="flex flex-wrap items-center justify-between gap-2 text-xs text-slate-500 px-1">
+                <span>{activeResult.fromCache ? 'Extracted from cached model responses, at no API cost.' : ''}</span>
+                <div className="flex items-center gap-3">
+                  <button
+                    onClick={() => handleReextract(activeResult.id)}
+                    className="flex items-center gap-1 text-brand-600 hover:text-brand-700 font-medium"
+                    title="Call the model again instead of reusing a cached response"
+                  >
+                    <RefreshCw size={14} />
+                    Re-extract
+                  </button>
+                  <button
+                    onClick={() => setRerunFor(activeResult.id)}
+                    className="flex items-center gap-1 text-brand-600 hover:text-brand-700 font-medium"
+                  >
+                    <GitCompare size={14} />
+                    Re-run with another model or prompt...
+                  </button>
+                </div>
+              </div>
+            )}
             
             {activeResult?.status === AppStatus.SUCCESS && hasData && (
               <div className="bg-green-50 text-green-700 border border-green-200 px-4 py-3 rounded-lg flex items-center gap-3 animate-in slide-in-from-bottom-2 duration-500">
@@ -0,0 +1,212 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Camera, Loader2, Trash2, X, Zap } from 'lucide-react';
+import { Quad, UploadedDocument } from '../types';
+import { detectDocument, quadShift } from '../services/edgeDetection';
+
+interface CameraCaptureProps {
+  onCapture: (documents: UploadedDocument[]) => void;
+  onClose: () => void;
+}
+
+const ANALYSIS_WIDTH = 160; // Frames are scaled down to this before detection
+const ANALYSIS_INTERVAL_MS = 150;
+const STEADY_FRAMES = 6; // About a second without movement before an automatic shot
+const STEADY_TOLERANCE = 0.02; // Corner movement still counted as steady
+const REARM_SHIFT = 0.1; // Movement needed after a shot before the next automatic one
+const JPEG_QUALITY = 0.92;
+
+/** True where the browser can open a camera at all. */
+export const isCameraSupported = () => typeof navigator !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+
+const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onClose }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const analysisRef = useRef<HTMLCanvasElement | null>(null);
+  const lastQuadRef = useRef<Quad | null>(null);
+  const shotQuadRef = useRef<Quad | null>(null); // Where the page was at the last shot
+  const steadyRef = useRef(0);
+  const autoShootRef = useRef(true);
+
+  const [ready, setReady] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [quad, setQuad] = useState<Quad | null>(null);
+  const [steady, setSteady] = useState(0);
+  const [autoShoot, setAutoShoot] = useState(true);
+  const [shots, setShots] = useState<string[]>([]);
+  const [asOneDocument, setAsOneDocument] = useState(false);
+  const [flash, setFlash] = useState(false);
+
+  autoShootRef.current = autoShoot;
+
+  // --- Camera ---
+
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let cancelled = false;
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: 'environment', width: { ideal: 1920 }, height: { ideal: 1080 } }, audio: false })
+      .then(s => {
+        if (cancelled) {
+          s.getTracks().forEach(t => t.stop());
+          return;
+        }
+        stream = s;
+        const video = videoRef.current;
+        if (!video) return;
+        video.srcObject = s;
+        video.onloadedmetadata = () => {
+          video.play().catch(() => {});
+          setReady(true);
+        };
+      })
+      .catch((err: DOMException) => {
+        if (cancelled) return;
+        setError(err.name === 'NotAllowedError'
+          ? 'Camera access was denied. Allow the camera for this site and try again.'
+          : err.name === 'NotFoundError'
+            ? 'No camera was found on this device.'
+            : `Could not open the camera: ${err.message}`);
+      });
+    return () => {
+      cancelled = true;
+      stream?.getTracks().forEach(t => t.stop());
+    };
+  }, []);
+
+  const takeShot = () => {
+    const video = videoRef.current;
+    if (!video || !video.videoWidth) return;
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    canvas.getContext('2d')?.drawImage(video, 0, 0);
+    setShots(prev => [...prev, canvas.toDataURL('image/jpeg', JPEG_QUALITY)]);
+    shotQuadRef.current = lastQuadRef.current;
+    steadyRef.current = 0;
+    setSteady(0);
+    setFlash(true);
+    setTimeout(() => setFlash(false), 150);
+  };
+
+  // --- Detection Loop ---
+
+  useEffect(() => {
+    if (!ready) return;
+    const timer = setInterval(() => {
+      const video = videoRef.current;
+      if (!video || !video.videoWidth) return;
+      const canvas = analysisRef.current ?? (analysisRef.current = document.createElement('canvas'));
+      canvas.width = ANALYSIS_WIDTH;
+      canvas.height = Math.round(ANALYSIS_WIDTH * video.videoHeight / video.videoWidth);
+      const context = canvas.getContext('2d', { willReadFrequently: true });
+      if (!context) return;
+      context.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+      const detected = detectDocument(context.getImageData(0, 0, canvas.width, canvas.height));
+      const previous = lastQuadRef.current;
+      lastQuadRef.current = detected;
+      setQuad(detected);
+
+      // After a shot, wait for the next page to be put in place
+      if (detected && shotQuadRef.current && quadShift(detected, shotQuadRef.current) > REARM_SHIFT) {
+        shotQuadRef.current = null;
+      }
+      const isSteady = !!detected && !!previous && quadShift(detected, previous) < STEADY_TOLERANCE;
+      steadyRef.current = isSteady ? steadyRef.current + 1 : 0;
+      setSteady(steadyRef.current);
+
+      if (autoShootRef.current && !shotQuadRef.current && steadyRef.current >= STEADY_FRAMES) {
+        takeShot();
+      }
+    }, ANALYSIS_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [ready]);
+
+  const handleDone = () => {
+    if (shots.length === 0) return;
+    const stamp = new Date().toLocaleString();
+    onCapture(asOneDocument
+      ? [{ name: `Scan ${stamp}`, pages: shots }]
+      : shots.map((shot, i) => ({ name: `Scan ${stamp} (${i + 1})`, pages: [shot] })));
+  };
+
+  const waiting = !!shotQuadRef.current;
+  const progress = Math.min(1, steady / STEADY_FRAMES);
+
+  return (
+    <div className="fixed inset-0 bg-black/90 z-50 flex flex-col items-center justify-center p-4 gap-4">
+      <div className="w-full max-w-3xl flex justify-between items-center text-white">
+        <h2 className="text-lg font-semibold flex items-center gap-2"><Camera size={20} /> Scan Documents</h2>
+        <button onClick={onClose} className="text-slate-300 hover:text-white"><X size={22} /></button>
+      </div>
+
+      {error ? (
+        <p className="text-red-300 text-sm max-w-md text-center">{error}</p>
+      ) : (
+        <div className="relative inline-block">
+          <video ref={videoRef} playsInline muted className="block max-h-[60vh] max-w-full rounded-lg bg-black" />
+          {!ready && (
+            <div className="absolute inset-0 flex items-center justify-center text-slate-300">
+              <Loader2 className="animate-spin" />
+            </div>
+          )}
+          {quad && (
+            <svg viewBox="0 0 1 1" preserveAspectRatio="none" className="absolute inset-0 w-full h-full pointer-events-none">
+              <polygon
+                points={quad.map(p => `${p.x},${p.y}`).join(' ')}
+                fill={waiting ? 'rgba(148,163,184,0.15)' : `rgba(34,197,94,${0.1 + progress * 0.2})`}
+                stroke={waiting ? '#94a3b8' : progress >= 1 ? '#22c55e' : '#facc15'}
+                strokeWidth={3}
+                vectorEffect="non-scaling-stroke"
+              />
+            </svg>
+          )}
+          {flash && <div className="absolute inset-0 bg-white/70 rounded-lg" />}
+          <p className="absolute bottom-2 left-1/2 -translate-x-1/2 text-xs text-white bg-black/50 px-2 py-1 rounded-full whitespace-nowrap">
+            {!quad ? 'Point the camera at a document' : waiting ? 'Captured. Place the next page' : autoShoot ? 'Hold steady...' : 'Document found'}
+          </p>
+        </div>
+      )}
+
+      <div className="flex items-center gap-4 text-white">
+        <label className="flex items-center gap-2 text-sm cursor-pointer">
+          <input type="checkbox" checked={autoShoot} onChange={(e) => setAutoShoot(e.target.checked)} className="rounded" />
+          <Zap size={14} /> Auto capture
+        </label>
+        <button
+          onClick={takeShot}
+          disabled={!ready}
+          className="w-16 h-16 rounded-full border-4 border-white bg-white/20 hover:bg-white/40 disabled:opacity-40 transition-colors"
+          title="Take photo"
+        />
+        <label className="flex items-center gap-2 text-sm cursor-pointer">
+          <input type="checkbox" checked={asOneDocument} onChange={(e) => setAsOneDocument(e.target.checked)} className="rounded" />
+          Pages of one document
+        </label>
+      </div>
+
+      {shots.length > 0 && (
+        <div className="w-full max-w-3xl flex items-center gap-3">
+          <div className="flex-1 flex gap-2 overflow-x-auto py-1">
+            {shots.map((shot, i) => (
+              <div key={i} className="relative shrink-0 group">
+                <img src={shot} alt={`Shot ${i + 1}`} className="h-20 rounded border border-white/30" />
+                <button
+                  onClick={() => setShots(prev => prev.filter((_, j) => j !== i))}
+                  className="absolute top-1 right-1 bg-black/60 text-white rounded p-0.5 opacity-0 group-hover:opacity-100"
+                  title="Remove"
+                >
+                  <Trash2 size={12} />
+                </button>
+              </div>
+            ))}
+          </div>
+          <button onClick={handleDone} className="bg-brand-600 hover:bg-brand-700 text-white px-4 py-2 rounded-lg font-medium shrink-0">
+            Extract {shots.length} {shots.length === 1 ? 'photo' : 'photos'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CameraCapture;
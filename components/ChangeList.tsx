@@ -0,0 +1,85 @@
+import React from 'react';
+import { ArrowRight } from 'lucide-react';
+import { DataChange } from '../types';
+
+interface ChangeListProps {
+  changes: DataChange[];
+  selected?: boolean[]; // Parallel to `changes`; omit for a read-only list
+  onToggle?: (index: number) => void;
+  emptyMessage?: string;
+}
+
+const where = (change: DataChange) => {
+  switch (change.kind) {
+    case 'field':
+    case 'fieldAdded':
+    case 'fieldRemoved':
+      return change.label;
+    case 'cell':
+      return `${change.table} › row ${change.rowIndex + 1} › ${change.header}`;
+    case 'rowAdded':
+    case 'rowRemoved':
+      return `${change.table} › row ${change.rowIndex + 1}`;
+  }
+};
+
+const Value: React.FC<{ text: string; tone: 'before' | 'after' }> = ({ text, tone }) => (
+  <span
+    className={`px-1.5 py-0.5 rounded font-mono text-xs break-all ${
+      tone === 'before' ? 'bg-red-50 text-red-700 line-through' : 'bg-green-50 text-green-700'
+    }`}
+  >
+    {text || <em className="not-italic text-slate-400">empty</em>}
+  </span>
+);
+
+const ChangeDetail: React.FC<{ change: DataChange }> = ({ change }) => {
+  switch (change.kind) {
+    case 'field':
+    case 'cell':
+      return (
+        <span className="flex flex-wrap items-center gap-1.5">
+          <Value text={change.before} tone="before" />
+          <ArrowRight size={12} className="text-slate-400" />
+          <Value text={change.after} tone="after" />
+        </span>
+      );
+    case 'fieldAdded':
+      return <span className="flex items-center gap-1.5"><span className="text-xs text-slate-500">added</span><Value text={change.after} tone="after" /></span>;
+    case 'fieldRemoved':
+      return <span className="flex items-center gap-1.5"><span className="text-xs text-slate-500">removed</span><Value text={change.before} tone="before" /></span>;
+    case 'rowAdded':
+      return <span className="flex items-center gap-1.5"><span className="text-xs text-slate-500">added</span><Value text={change.values.join(' | ')} tone="after" /></span>;
+    case 'rowRemoved':
+      return <span className="flex items-center gap-1.5"><span className="text-xs text-slate-500">removed</span><Value text={change.values.join(' | ')} tone="before" /></span>;
+  }
+};
+
+const ChangeList: React.FC<ChangeListProps> = ({ changes, selected, onToggle, emptyMessage = 'No changes.' }) => {
+  if (changes.length === 0) {
+    return <p className="text-sm text-slate-400 text-center py-6">{emptyMessage}</p>;
+  }
+
+  return (
+    <ul className="divide-y divide-slate-100 border border-slate-200 rounded-lg">
+      {changes.map((change, i) => (
+        <li key={i} className="flex items-start gap-3 px-3 py-2">
+          {selected && (
+            <input
+              type="checkbox"
+              checked={selected[i]}
+              onChange={() => onToggle?.(i)}
+              className="mt-1 rounded text-brand-600 focus:ring-brand-500"
+            />
+          )}
+          <div className="min-w-0 flex-1 space-y-1">
+            <p className="text-xs font-medium text-slate-600">{where(change)}</p>
+            <ChangeDetail change={change} />
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default ChangeList;
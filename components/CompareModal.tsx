@@ -0,0 +1,219 @@
+import React, { useMemo, useState } from 'react';
+import { GitCompare } from 'lucide-react';
+import { DataChange, ExtractedData, Table } from '../types';
+import { diffExtractedData } from '../services/diffService';
+
+interface CompareModalProps {
+  current: ExtractedData;
+  candidate: ExtractedData; // From the re-run
+  candidateLabel: string; // Model and prompt of the re-run, for the column header
+  onAccept: (changes: DataChange[]) => void; // The differences where the re-run's value was chosen
+  onClose: () => void;
+}
+
+type Side = 'current' | 'candidate';
+
+// One line of the fields comparison; `change` is -1 where both sides agree
+interface FieldLine {
+  label: string;
+  current?: string;
+  candidate?: string;
+  change: number;
+}
+
+const tableTitle = (table: Table | undefined, index: number) => table?.name.trim() || `Table ${index + 1}`;
+
+const Empty = () => <span className="text-slate-300">—</span>;
+
+const CompareModal: React.FC<CompareModalProps> = ({ current, candidate, candidateLabel, onAccept, onClose }) => {
+  // Rows of tables the current data lacks can't be applied, so they are shown but not offered
+  const changes = useMemo(
+    () => diffExtractedData(current, candidate).filter(c => c.kind !== 'rowAdded' || !!current.tables[c.tableIndex]),
+    [current, candidate]
+  );
+  // true takes the re-run's value; everything starts on the current data
+  const [selected, setSelected] = useState(() => changes.map(() => false));
+  const chosen = changes.filter((_, i) => selected[i]);
+
+  const choose = (index: number, side: Side) => setSelected(prev => prev.map((s, i) => (i === index ? side === 'candidate' : s)));
+  const toggle = (index: number) => setSelected(prev => prev.map((s, i) => (i === index ? !s : s)));
+
+  const fieldLines = useMemo<FieldLine[]>(() => {
+    const lines: FieldLine[] = current.fields.map((field, fieldIndex) => {
+      const change = changes.findIndex(c => (c.kind === 'field' || c.kind === 'fieldRemoved') && c.fieldIndex === fieldIndex);
+      const value = String(field.value);
+      const found = changes[change];
+      return {
+        label: field.label,
+        current: value,
+        candidate: !found ? value : found.kind === 'field' ? found.after : undefined,
+        change,
+      };
+    });
+    changes.forEach((c, change) => {
+      if (c.kind === 'fieldAdded') lines.push({ label: c.label, candidate: c.after, change });
+    });
+    return lines;
+  }, [current, changes]);
+
+  // Classes for a value that differs, depending on whether its side is the chosen one
+  const diffClass = (change: number, side: Side) => {
+    if (change === -1) return '';
+    const isChosen = selected[change] === (side === 'candidate');
+    return `cursor-pointer ${isChosen ? 'bg-green-50 text-green-800 ring-1 ring-inset ring-green-400' : 'bg-amber-50 text-amber-800 hover:bg-amber-100'}`;
+  };
+
+  const renderTable = (table: Table | undefined, tableIndex: number, side: Side) => {
+    if (!table) {
+      return (
+        <p className="text-xs text-slate-400 py-2">
+          {side === 'current' ? 'Not in the current data. Add the table in the editor to take its rows.' : 'Not in the re-run.'}
+        </p>
+      );
+    }
+    const other = side === 'current' ? candidate.tables[tableIndex] : current.tables[tableIndex];
+    const cellChange = (rowIndex: number, column: number) => {
+      // Cell changes use the current table's columns; map the re-run's column back by header
+      const columnIndex = side === 'current' ? column : current.tables[tableIndex]?.headers.indexOf(table.headers[column]) ?? -1;
+      return changes.findIndex(c => c.kind === 'cell' && c.tableIndex === tableIndex && c.rowIndex === rowIndex && c.columnIndex === columnIndex);
+    };
+    const rowChange = (rowIndex: number) =>
+      changes.findIndex(c => c.kind === (side === 'current' ? 'rowRemoved' : 'rowAdded') && c.tableIndex === tableIndex && c.rowIndex === rowIndex);
+
+    return (
+      <div className="overflow-x-auto border border-slate-200 rounded-lg">
+        <table className="w-full text-xs">
+          <thead className="bg-slate-50 text-slate-600">
+            <tr>
+              {table.headers.map((header, i) => (
+                <th
+                  key={i}
+                  className={`px-2 py-1.5 text-left font-medium whitespace-nowrap ${other && !other.headers.includes(header) ? 'text-amber-700' : ''}`}
+                  title={other && !other.headers.includes(header) ? 'Column only in this version' : undefined}
+                >
+                  {header}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {table.rows.map((row, rowIndex) => {
+              const whole = rowChange(rowIndex);
+              // A row only one side has: choosing it keeps (current) or adds (re-run) the row
+              const rowClass = whole === -1
+                ? ''
+                : `cursor-pointer ${selected[whole] === (side === 'candidate') ? 'bg-green-50 text-green-800' : 'bg-amber-50 text-amber-800 line-through decoration-amber-400'}`;
+              return (
+                <tr
+                  key={rowIndex}
+                  className={rowClass}
+                  onClick={whole === -1 ? undefined : () => toggle(whole)}
+                  title={whole === -1 ? undefined : side === 'current' ? 'Row missing from the re-run' : 'Row only in the re-run'}
+                >
+                  {table.headers.map((_, column) => {
+                    const change = whole === -1 ? cellChange(rowIndex, column) : -1;
+                    return (
+                      <td
+                        key={column}
+                        className={`px-2 py-1.5 font-mono break-all ${diffClass(change, side)}`}
+                        onClick={change === -1 ? undefined : () => choose(change, side)}
+                      >
+                        {row.values[column] || <Empty />}
+                      </td>
+                    );
+                  })}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    );
+  };
+
+  const tableCount = Math.max(current.tables.length, candidate.tables.length);
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4 backdrop-blur-sm">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-6xl w-full max-h-[90vh] flex flex-col animate-in fade-in zoom-in duration-200">
+        <div className="flex justify-between items-center p-6 pb-4 border-b border-slate-100">
+          <div>
+            <h2 className="text-xl font-bold flex items-center gap-2">
+              <GitCompare className="text-brand-600" />
+              Compare Extractions
+            </h2>
+            <p className="text-xs text-slate-400 mt-1">
+              {changes.length === 0
+                ? 'Both versions agree on every value.'
+                : `${changes.length} ${changes.length === 1 ? 'difference' : 'differences'}. Click a highlighted value to keep it.`}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">Close</button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          <div className="grid grid-cols-2 gap-4 text-sm font-semibold text-slate-700 sticky top-0 bg-white z-10 pb-2 -mt-2 pt-2">
+            <span>Current</span>
+            <span className="truncate" title={candidateLabel}>{candidateLabel}</span>
+          </div>
+
+          {fieldLines.length > 0 && (
+            <div className="border border-slate-200 rounded-lg divide-y divide-slate-100 text-sm">
+              {fieldLines.map((line, i) => (
+                <div key={i}>
+                  <p className="px-3 pt-2 text-xs font-medium text-slate-500">{line.label}</p>
+                  <div className="grid grid-cols-2 gap-4 px-3 pb-2 pt-1">
+                    {(['current', 'candidate'] as const).map(side => (
+                      <div
+                        key={side}
+                        className={`px-2 py-1 rounded font-mono text-xs break-all ${diffClass(line.change, side)}`}
+                        onClick={line.change === -1 ? undefined : () => choose(line.change, side)}
+                      >
+                        {line[side] === undefined ? <Empty /> : line[side] || <em className="not-italic text-slate-400">empty</em>}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {Array.from({ length: tableCount }, (_, tableIndex) => (
+            <div key={tableIndex} className="space-y-2">
+              <h3 className="text-sm font-semibold text-slate-700">
+                {tableTitle(current.tables[tableIndex] ?? candidate.tables[tableIndex], tableIndex)}
+              </h3>
+              <div className="grid grid-cols-2 gap-4 items-start">
+                {renderTable(current.tables[tableIndex], tableIndex, 'current')}
+                {renderTable(candidate.tables[tableIndex], tableIndex, 'candidate')}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-between items-center p-6 pt-4 border-t border-slate-100">
+          <div className="flex gap-3 text-sm">
+            <button onClick={() => setSelected(changes.map(() => false))} className="text-slate-600 hover:text-slate-800 font-medium">
+              Keep all current
+            </button>
+            <button onClick={() => setSelected(changes.map(() => true))} className="text-brand-600 hover:text-brand-700 font-medium">
+              Take all from re-run
+            </button>
+          </div>
+          <div className="flex gap-2">
+            <button onClick={onClose} className="text-slate-500 hover:text-slate-700 px-4 py-2">Cancel</button>
+            <button
+              onClick={() => onAccept(chosen)}
+              disabled={chosen.length === 0}
+              className="bg-brand-600 hover:bg-brand-700 disabled:opacity-50 text-white px-4 py-2 rounded-lg font-medium transition-colors"
+            >
+              Apply {chosen.length > 0 ? chosen.length : ''} {chosen.length === 1 ? 'value' : 'values'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CompareModal;
@@ -1,17 +1,87 @@
-import React from 'react';
-import { ExtractedData, Field, Table } from '../types';
-import { Trash2, Plus, GripVertical } from 'lucide-react';
+import React, { useMemo, useState } from 'react';
+import { ExtractedData, Field, Table, DataIssue, FieldType, BoundingBox } from '../types';
+import { Trash2, Plus, GripVertical, AlertTriangle, Eye, Undo2, Redo2, GitCompare, Scissors, X, Grid3x3 } from 'lucide-react';
+import { FIELD_TYPES, FIELD_TYPE_LABELS, normalizeValue } from '../services/valueService';
+import { countValues, diffExtractedData } from '../services/diffService';
+import {
+  addTable, canMergeTables, deleteTable, deleteTableColumn, fieldToColumn, insertTableColumn,
+  mergeTables, moveTableRow, renameTable, splitTable,
+} from '../services/tableService';
+import ChangeList from './ChangeList';
+import TableGrid from './TableGrid';
 
 interface DataEditorProps {
   data: ExtractedData;
-  onChange: (newData: ExtractedData) => void;
+  onChange: (newData: ExtractedData, editKey?: string) => void; // Edits sharing a key in quick succession undo together
+  originalData?: ExtractedData; // As the model extracted it, for the changes view
+  canUndo?: boolean;
+  canRedo?: boolean;
+  onUndo?: () => void;
+  onRedo?: () => void;
+  issues?: DataIssue[];
+  locale: string;
+  confidenceThreshold: number;
+  onFocusValue?: (box: BoundingBox | null) => void; // Called with the source box of the focused value
 }
 
-const DataEditor: React.FC<DataEditorProps> = ({ data, onChange }) => {
+// Tailwind classes for an input carrying issues; errors win over warnings
+const issueClass = (issues: DataIssue[]) => {
+  if (issues.some(i => i.severity === 'error')) return 'ring-1 ring-red-400 bg-red-50';
+  if (issues.length > 0) return 'ring-1 ring-amber-400 bg-amber-50';
+  return '';
+};
+
+const issueTitle = (issues: DataIssue[]) => (issues.length > 0 ? issues.map(i => i.message).join('\n') : undefined);
+
+const confidenceClass = (low: boolean) => (low ? 'outline outline-1 outline-dashed outline-orange-400' : '');
+
+const confidenceTitle = (confidence?: number | null) =>
+  confidence !== undefined && confidence !== null ? `Confidence ${Math.round(confidence * 100)}%` : undefined;
+
+// Issues take precedence; otherwise the confidence is shown on hover
+const valueTitle = (issues: DataIssue[], confidence?: number | null, hint?: string | null) =>
+  [issueTitle(issues), confidenceTitle(confidence), hint ? `→ ${hint}` : undefined].filter(Boolean).join('\n') || undefined;
+
+const TypeSelect: React.FC<{ value?: FieldType; onChange: (type: FieldType) => void; className?: string }> = ({ value, onChange, className = '' }) => (
+  <select
+    value={value ?? 'text'}
+    onChange={(e) => onChange(e.target.value as FieldType)}
+    className={`text-[10px] font-medium normal-case tracking-normal text-slate-400 bg-transparent border-none focus:outline-none focus:text-slate-700 cursor-pointer ${className}`}
+    title="Value type"
+  >
+    {FIELD_TYPES.map(type => <option key={type} value={type}>{FIELD_TYPE_LABELS[type]}</option>)}
+  </select>
+);
+
+const DataEditor: React.FC<DataEditorProps> = ({
+  data, onChange, originalData, canUndo = false, canRedo = false, onUndo, onRedo,
+  issues = [], locale, confidenceThreshold, onFocusValue,
+}) => {
+  const [lowConfidenceOnly, setLowConfidenceOnly] = useState(false);
+  const [showChanges, setShowChanges] = useState(false);
+  const [gridMode, setGridMode] = useState(false);
+  const [dragRow, setDragRow] = useState<{ tableIndex: number; rowIndex: number } | null>(null);
   const hasFields = data.fields && data.fields.length > 0;
   const hasTables = data.tables && data.tables.length > 0;
 
-  if (!hasFields && !hasTables) {
+  const changes = useMemo(() => (originalData ? diffExtractedData(originalData, data) : []), [originalData, data]);
+  const corrected = changes.filter(c => c.kind === 'field' || c.kind === 'cell').length;
+
+  // Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z or Ctrl+Y redoes, replacing the
+  // inputs' own undo so it covers deleted rows and fields too
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+    const key = e.key.toLowerCase();
+    if (key === 'z' && !e.shiftKey) {
+      e.preventDefault();
+      if (canUndo) onUndo?.();
+    } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+      e.preventDefault();
+      if (canRedo) onRedo?.();
+    }
+  };
+
+  if (!hasFields && !hasTables && !canUndo) {
     return (
       <div className="flex flex-col items-center justify-center h-full text-slate-400 p-8 text-center border-2 border-dashed border-slate-200 rounded-xl bg-slate-50">
         <p>No data extracted yet.</p>
@@ -20,11 +90,47 @@ const DataEditor: React.FC<DataEditorProps> = ({ data, onChange }) => {
     );
   }
 
+  const documentIssues = issues.filter(i => i.target.kind === 'document');
+
+  const isLow = (confidence?: number | null) =>
+    confidence !== undefined && confidence !== null && confidence < confidenceThreshold;
+  const rowIsLow = (row: Table['rows'][number]) => row.confidences?.some(isLow) ?? false;
+
+  const lowCount =
+    data.fields.filter(f => isLow(f.confidence)).length +
+    data.tables.reduce((sum, t) => sum + t.rows.reduce((n, r) => n + (r.confidences?.filter(isLow).length ?? 0), 0), 0);
+  const filtering = lowConfidenceOnly && lowCount > 0;
+
+  const fieldIssues = (fieldIndex: number) =>
+    issues.filter(i => i.target.kind === 'field' && i.target.fieldIndex === fieldIndex);
+
+  const cellIssues = (tableIndex: number, rowIndex: number, columnIndex: number) =>
+    issues.filter(i =>
+      i.target.kind === 'cell' &&
+      i.target.tableIndex === tableIndex &&
+      i.target.rowIndex === rowIndex &&
+      i.target.columnIndex === columnIndex
+    );
+
+  // Canonical form of a typed value, shown when it differs from what was read
+  const normalizedHint = (value: string | number, type?: FieldType) => {
+    if (!type || type === 'text') return null;
+    const normalized = normalizeValue(value, type, locale);
+    return normalized !== String(value).trim() ? normalized : null;
+  };
+
   // --- Field Handlers ---
 
   const handleFieldChange = (index: number, key: 'label' | 'value', newVal: string) => {
     const newFields = [...data.fields];
-    newFields[index] = { ...newFields[index], [key]: newVal };
+    // An edited value has been reviewed, so the model's confidence no longer applies
+    newFields[index] = { ...newFields[index], [key]: newVal, ...(key === 'value' && { confidence: undefined }) };
+    onChange({ ...data, fields: newFields }, `field:${index}:${key}`);
+  };
+
+  const handleFieldTypeChange = (index: number, type: FieldType) => {
+    const newFields = [...data.fields];
+    newFields[index] = { ...newFields[index], type };
     onChange({ ...data, fields: newFields });
   };
 
@@ -48,10 +154,11 @@ const DataEditor: React.FC<DataEditorProps> = ({ data, onChange }) => {
     const newValues = [...newRows[rowIndex].values];
     
     newValues[cellIndex] = val;
-    newRows[rowIndex] = { ...newRows[rowIndex], values: newValues };
+    const confidences = newRows[rowIndex].confidences?.map((c, i) => (i === cellIndex ? null : c));
+    newRows[rowIndex] = { ...newRows[rowIndex], values: newValues, confidences };
     newTables[tableIndex] = { ...newTables[tableIndex], rows: newRows };
     
-    onChange({ ...data, tables: newTables });
+    onChange({ ...data, tables: newTables }, `cell:${tableIndex}:${rowIndex}:${cellIndex}`);
   };
 
   const handleHeaderChange = (tableIndex: number, headerIndex: number, val: string) => {
@@ -59,58 +166,159 @@ const DataEditor: React.FC<DataEditorProps> = ({ data, onChange }) => {
     const newHeaders = [...newTables[tableIndex].headers];
     newHeaders[headerIndex] = val;
     newTables[tableIndex] = { ...newTables[tableIndex], headers: newHeaders };
+    onChange({ ...data, tables: newTables }, `header:${tableIndex}:${headerIndex}`);
+  };
+
+  const handleColumnTypeChange = (tableIndex: number, columnIndex: number, type: FieldType) => {
+    const newTables = [...data.tables];
+    const table = newTables[tableIndex];
+    const columnTypes = table.headers.map((_, i) => table.columnTypes?.[i] ?? 'text');
+    columnTypes[columnIndex] = type;
+    newTables[tableIndex] = { ...table, columnTypes };
     onChange({ ...data, tables: newTables });
   };
 
   const deleteTableRow = (tableIndex: number, rowIndex: number) => {
     const newTables = [...data.tables];
-    newTables[tableIndex].rows = newTables[tableIndex].rows.filter((_, i) => i !== rowIndex);
+    const table = newTables[tableIndex];
+    newTables[tableIndex] = { ...table, rows: table.rows.filter((_, i) => i !== rowIndex) };
     onChange({ ...data, tables: newTables });
   };
 
+  const handleRowDrop = (tableIndex: number, rowIndex: number) => {
+    if (dragRow && dragRow.tableIndex === tableIndex) {
+      onChange(moveTableRow(data, tableIndex, dragRow.rowIndex, rowIndex));
+    }
+    setDragRow(null);
+  };
+
+  const deleteTableAt = (tableIndex: number) => {
+    const table = data.tables[tableIndex];
+    if (table.rows.length > 0 && !window.confirm(`Delete "${table.name || `Table ${tableIndex + 1}`}" and its ${table.rows.length} rows?`)) return;
+    onChange(deleteTable(data, tableIndex));
+  };
+
   const addTableRow = (tableIndex: number) => {
     const newTables = [...data.tables];
-    const emptyRow = new Array(newTables[tableIndex].headers.length).fill("");
-    newTables[tableIndex].rows.push({ values: emptyRow });
+    const table = newTables[tableIndex];
+    const emptyRow = new Array(table.headers.length).fill("");
+    newTables[tableIndex] = { ...table, rows: [...table.rows, { values: emptyRow }] };
     onChange({ ...data, tables: newTables });
   };
 
   return (
-    <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden flex flex-col h-full max-h-[calc(100vh-200px)]">
+    <div onKeyDown={handleKeyDown} className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden flex flex-col h-full max-h-[calc(100vh-200px)]">
       
       {/* Header */}
       <div className="p-4 border-b border-slate-100 bg-slate-50 flex justify-between items-center sticky top-0 z-10">
         <h3 className="font-semibold text-slate-800">Extracted Data</h3>
-        <div className="flex gap-2">
+        <div className="flex gap-2 items-center">
+          <button onClick={onUndo} disabled={!canUndo} className="p-1 text-slate-500 hover:text-slate-800 disabled:opacity-30" title="Undo (Ctrl+Z)">
+            <Undo2 size={16} />
+          </button>
+          <button onClick={onRedo} disabled={!canRedo} className="p-1 text-slate-500 hover:text-slate-800 disabled:opacity-30" title="Redo (Ctrl+Shift+Z)">
+            <Redo2 size={16} />
+          </button>
+          {hasTables && (
+            <button
+              onClick={() => setGridMode(v => !v)}
+              className={`text-xs font-medium px-2 py-1 rounded-full flex items-center gap-1 transition-colors ${gridMode ? 'bg-purple-600 text-white' : 'bg-purple-50 text-purple-700 hover:bg-purple-100'}`}
+              title="Edit tables as a spreadsheet grid with keyboard navigation and paste"
+            >
+              <Grid3x3 size={12} /> Grid
+            </button>
+          )}
+          {originalData && (
+            <button
+              onClick={() => setShowChanges(v => !v)}
+              className={`text-xs font-medium px-2 py-1 rounded-full flex items-center gap-1 transition-colors ${showChanges ? 'bg-slate-700 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
+              title="Compare with the values as extracted"
+            >
+              <GitCompare size={12} /> {changes.length} {changes.length === 1 ? 'change' : 'changes'}
+            </button>
+          )}
+          {lowCount > 0 && (
+            <button
+              onClick={() => setLowConfidenceOnly(v => !v)}
+              className={`text-xs font-medium px-2 py-1 rounded-full flex items-center gap-1 transition-colors ${lowConfidenceOnly ? 'bg-orange-500 text-white' : 'bg-orange-100 text-orange-700 hover:bg-orange-200'}`}
+              title="Show only values the model was unsure about"
+            >
+              <Eye size={12} /> {lowCount} low confidence
+            </button>
+          )}
           {hasFields && <span className="text-xs font-mono bg-blue-100 text-blue-700 px-2 py-1 rounded-full">{data.fields.length} Fields</span>}
           {hasTables && <span className="text-xs font-mono bg-purple-100 text-purple-700 px-2 py-1 rounded-full">{data.tables.length} Tables</span>}
         </div>
       </div>
       
+      {showChanges && originalData ? (
+        <div className="flex-1 overflow-y-auto p-4 space-y-3">
+          <p className="text-xs text-slate-500">
+            {corrected} of {countValues(originalData)} extracted values corrected. Earlier values are as the model extracted them.
+          </p>
+          <ChangeList changes={changes} emptyMessage="No edits since extraction." />
+        </div>
+      ) : (
       <div className="flex-1 overflow-y-auto p-4 space-y-6">
+
+        {issues.length > 0 && (
+          <div className="bg-amber-50 border border-amber-200 rounded-lg px-3 py-2 text-sm text-amber-800">
+            <p className="font-medium flex items-center gap-2">
+              <AlertTriangle size={16} className="shrink-0" />
+              {issues.length} {issues.length === 1 ? 'issue needs' : 'issues need'} review
+            </p>
+            {documentIssues.length > 0 && (
+              <ul className="list-disc pl-8 mt-1 text-xs space-y-0.5">
+                {documentIssues.map((issue, i) => <li key={i}>{issue.message}</li>)}
+              </ul>
+            )}
+          </div>
+        )}
         
         {/* GLOBAL FIELDS SECTION */}
         {hasFields && (
           <div className="space-y-3">
             <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">Document Details</h4>
-            {data.fields.map((field, i) => (
+            {data.fields.map((field, i) => (filtering && !isLow(field.confidence)) ? null : (
               <div key={i} className="group flex items-center gap-3 p-2 hover:bg-slate-50 rounded-lg transition-colors border border-transparent hover:border-slate-200">
                 <div className="flex-1 grid grid-cols-1 sm:grid-cols-3 gap-2">
-                  <input
-                    type="text"
-                    value={field.label}
-                    onChange={(e) => handleFieldChange(i, 'label', e.target.value)}
-                    className="col-span-1 text-xs font-bold text-slate-500 uppercase tracking-wide bg-transparent border-b border-transparent focus:border-brand-500 focus:outline-none py-1"
-                    placeholder="LABEL"
-                  />
-                  <input
-                    type="text"
-                    value={String(field.value)}
-                    onChange={(e) => handleFieldChange(i, 'value', e.target.value)}
-                    className="col-span-1 sm:col-span-2 text-sm text-slate-800 bg-slate-100/50 focus:bg-white border border-slate-200 rounded px-2 py-1 focus:ring-2 focus:ring-brand-500/20 focus:border-brand-500 focus:outline-none transition-all"
-                    placeholder="Value..."
-                  />
+                  <div className="col-span-1 flex flex-col">
+                    <input
+                      type="text"
+                      value={field.label}
+                      onChange={(e) => handleFieldChange(i, 'label', e.target.value)}
+                      className="text-xs font-bold text-slate-500 uppercase tracking-wide bg-transparent border-b border-transparent focus:border-brand-500 focus:outline-none py-1"
+                      placeholder="LABEL"
+                    />
+                    <TypeSelect value={field.type} onChange={(type) => handleFieldTypeChange(i, type)} className="self-start -ml-1" />
+                  </div>
+                  <div className="col-span-1 sm:col-span-2">
+                    <input
+                      type="text"
+                      value={String(field.value)}
+                      onChange={(e) => handleFieldChange(i, 'value', e.target.value)}
+                      onFocus={() => onFocusValue?.(field.box ?? null)}
+                      onBlur={() => onFocusValue?.(null)}
+                      title={valueTitle(fieldIssues(i), field.confidence)}
+                      className={`w-full text-sm text-slate-800 bg-slate-100/50 focus:bg-white border border-slate-200 rounded px-2 py-1 focus:ring-2 focus:ring-brand-500/20 focus:border-brand-500 focus:outline-none transition-all ${issueClass(fieldIssues(i))} ${confidenceClass(isLow(field.confidence))}`}
+                      placeholder="Value..."
+                    />
+                    {normalizedHint(field.value, field.type) && (
+                      <p className="text-[10px] text-slate-400 font-mono mt-0.5 px-2">→ {normalizedHint(field.value, field.type)}</p>
+                    )}
+                  </div>
                 </div>
+                {hasTables && (
+                  <select
+                    value=""
+                    onChange={(e) => onChange(fieldToColumn(data, i, Number(e.target.value)))}
+                    className="text-xs text-slate-400 bg-transparent border-none focus:outline-none opacity-0 group-hover:opacity-100 focus:opacity-100 cursor-pointer w-20"
+                    title="Move this field into a table as a column, repeated on every row"
+                  >
+                    <option value="" disabled>To column</option>
+                    {data.tables.map((t, tIdx) => <option key={tIdx} value={tIdx}>{t.name || `Table ${tIdx + 1}`}</option>)}
+                  </select>
+                )}
                 <button onClick={() => deleteField(i)} className="text-slate-300 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-all p-1">
                   <Trash2 size={16} />
                 </button>
@@ -123,44 +331,119 @@ const DataEditor: React.FC<DataEditorProps> = ({ data, onChange }) => {
         )}
 
         {/* TABLES SECTION */}
-        {hasTables && data.tables.map((table, tIdx) => (
+        {hasTables && data.tables.map((table, tIdx) => (filtering && !table.rows.some(rowIsLow)) ? null : (
           <div key={tIdx} className="space-y-3 pt-4 border-t border-slate-100">
-             <div className="flex justify-between items-center mb-2">
-                <h4 className="text-xs font-bold text-purple-500 uppercase tracking-wider">{table.name || `Table ${tIdx + 1}`}</h4>
+             <div className="flex justify-between items-center gap-2 mb-2">
+                <input
+                  value={table.name}
+                  onChange={(e) => onChange(renameTable(data, tIdx, e.target.value), `table:${tIdx}:name`)}
+                  placeholder={`Table ${tIdx + 1}`}
+                  className="flex-1 text-xs font-bold text-purple-500 uppercase tracking-wider bg-transparent border-b border-transparent focus:border-purple-400 focus:outline-none py-1 placeholder:text-purple-300"
+                />
+                {data.tables.some((other, j) => j !== tIdx && canMergeTables(table, other)) && (
+                  <select
+                    value=""
+                    onChange={(e) => onChange(mergeTables(data, tIdx, Number(e.target.value)))}
+                    className="text-xs text-slate-500 bg-transparent border-none focus:outline-none cursor-pointer"
+                    title="Append the rows of a table with the same columns"
+                  >
+                    <option value="" disabled>Merge in...</option>
+                    {data.tables.map((other, j) => (j !== tIdx && canMergeTables(table, other)) ? (
+                      <option key={j} value={j}>{other.name || `Table ${j + 1}`}</option>
+                    ) : null)}
+                  </select>
+                )}
+                <button onClick={() => deleteTableAt(tIdx)} className="text-slate-300 hover:text-red-500 transition-colors p-1" title="Delete table">
+                  <Trash2 size={14} />
+                </button>
              </div>
              
              <div className="overflow-x-auto border border-slate-200 rounded-lg">
+               {gridMode ? (
+                 <TableGrid
+                   table={table}
+                   onChange={(next) => onChange({ ...data, tables: data.tables.map((t, i) => (i === tIdx ? next : t)) })}
+                   cellClassName={(r, c) => `${issueClass(cellIssues(tIdx, r, c))} ${confidenceClass(isLow(table.rows[r].confidences?.[c]))}`}
+                   cellTitle={(r, c) => valueTitle(cellIssues(tIdx, r, c), table.rows[r].confidences?.[c], normalizedHint(table.rows[r].values[c] ?? '', table.columnTypes?.[c]))}
+                   onFocusCell={(cell) => onFocusValue?.(cell ? table.rows[cell.row]?.boxes?.[cell.column] ?? null : null)}
+                 />
+               ) : (
                <table className="w-full text-sm text-left">
                  <thead className="text-xs text-slate-500 uppercase bg-slate-50 border-b border-slate-200">
                    <tr>
                      <th className="px-3 py-2 w-8">#</th>
                      {table.headers.map((header, hIdx) => (
-                       <th key={hIdx} className="px-1 py-1 min-w-[120px]">
-                         <input 
-                           value={header} 
-                           onChange={(e) => handleHeaderChange(tIdx, hIdx, e.target.value)}
-                           className="w-full bg-transparent p-2 font-bold focus:bg-white focus:outline-none focus:ring-1 focus:ring-brand-200 rounded" 
-                         />
+                       <th key={hIdx} className="group/col px-1 py-1 min-w-[120px]">
+                         <div className="flex items-center">
+                           <input 
+                             value={header} 
+                             onChange={(e) => handleHeaderChange(tIdx, hIdx, e.target.value)}
+                             className="w-full bg-transparent p-2 font-bold focus:bg-white focus:outline-none focus:ring-1 focus:ring-brand-200 rounded" 
+                           />
+                           <button
+                             onClick={() => onChange(deleteTableColumn(data, tIdx, hIdx))}
+                             className="text-slate-300 hover:text-red-500 opacity-0 group-hover/col:opacity-100 transition-all p-1"
+                             title="Delete column"
+                           >
+                             <X size={12} />
+                           </button>
+                         </div>
+                         <TypeSelect value={table.columnTypes?.[hIdx]} onChange={(type) => handleColumnTypeChange(tIdx, hIdx, type)} className="px-1" />
                        </th>
                      ))}
-                     <th className="px-2 py-2 w-8"></th>
+                     <th className="px-2 py-2 w-8">
+                       <button onClick={() => onChange(insertTableColumn(data, tIdx, table.headers.length))} className="text-slate-400 hover:text-brand-600" title="Add column">
+                         <Plus size={14} />
+                       </button>
+                     </th>
                    </tr>
                  </thead>
                  <tbody className="divide-y divide-slate-100">
-                   {table.rows.map((row, rIdx) => (
-                     <tr key={rIdx} className="group hover:bg-slate-50">
-                       <td className="px-3 py-2 text-xs text-slate-400 font-mono">{rIdx + 1}</td>
+                   {table.rows.map((row, rIdx) => (filtering && !rowIsLow(row)) ? null : (
+                     <tr
+                       key={rIdx}
+                       onDragOver={(e) => dragRow?.tableIndex === tIdx && e.preventDefault()}
+                       onDrop={() => handleRowDrop(tIdx, rIdx)}
+                       className={`group hover:bg-slate-50 ${dragRow?.tableIndex === tIdx && dragRow.rowIndex === rIdx ? 'opacity-40' : ''}`}
+                     >
+                       <td className="px-1 py-2 text-xs text-slate-400 font-mono">
+                         <span
+                           draggable
+                           onDragStart={(e) => {
+                             e.dataTransfer.effectAllowed = 'move';
+                             setDragRow({ tableIndex: tIdx, rowIndex: rIdx });
+                           }}
+                           onDragEnd={() => setDragRow(null)}
+                           className="flex items-center gap-0.5 cursor-grab"
+                           title="Drag to reorder"
+                         >
+                           <GripVertical size={12} className="text-slate-300 group-hover:text-slate-500" />
+                           {rIdx + 1}
+                         </span>
+                       </td>
                        {row.values.map((cell, cIdx) => (
                          <td key={cIdx} className="px-1 py-1">
                            <input
                              type="text"
                              value={cell}
                              onChange={(e) => handleTableCellChange(tIdx, rIdx, cIdx, e.target.value)}
-                             className="w-full bg-transparent p-2 text-slate-700 rounded focus:bg-white focus:outline-none focus:ring-1 focus:ring-brand-300 transition-all"
+                             onFocus={() => onFocusValue?.(row.boxes?.[cIdx] ?? null)}
+                             onBlur={() => onFocusValue?.(null)}
+                             title={valueTitle(cellIssues(tIdx, rIdx, cIdx), row.confidences?.[cIdx], normalizedHint(cell, table.columnTypes?.[cIdx]))}
+                             className={`w-full bg-transparent p-2 text-slate-700 rounded focus:bg-white focus:outline-none focus:ring-1 focus:ring-brand-300 transition-all ${issueClass(cellIssues(tIdx, rIdx, cIdx))} ${confidenceClass(isLow(row.confidences?.[cIdx]))}`}
                            />
                          </td>
                        ))}
-                       <td className="px-2 py-2 text-right">
+                       <td className="px-2 py-2 text-right whitespace-nowrap">
+                         {rIdx > 0 && (
+                           <button
+                             onClick={() => onChange(splitTable(data, tIdx, rIdx))}
+                             className="text-slate-300 hover:text-brand-600 opacity-0 group-hover:opacity-100 transition-all mr-1"
+                             title="Split the table here; this row starts a new table"
+                           >
+                             <Scissors size={14} />
+                           </button>
+                         )}
                          <button onClick={() => deleteTableRow(tIdx, rIdx)} className="text-slate-300 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-all">
                            <Trash2 size={14} />
                          </button>
@@ -169,6 +452,7 @@ const DataEditor: React.FC<DataEditorProps> = ({ data, onChange }) => {
                    ))}
                  </tbody>
                </table>
+               )}
                
                <button 
                 onClick={() => addTableRow(tIdx)}
@@ -180,12 +464,19 @@ const DataEditor: React.FC<DataEditorProps> = ({ data, onChange }) => {
           </div>
         ))}
 
+        {(hasFields || hasTables) && (
+          <button onClick={() => onChange(addTable(data))} className="text-xs flex items-center gap-1 text-purple-600 hover:text-purple-700 font-medium px-2">
+            <Plus size={14} /> Add Table
+          </button>
+        )}
+
         {!hasFields && !hasTables && (
           <div className="text-center py-10">
             <button onClick={addField} className="text-brand-600 font-medium hover:underline">Start adding fields manually</button>
           </div>
         )}
       </div>
+      )}
     </div>
   );
 };
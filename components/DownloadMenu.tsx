@@ -0,0 +1,67 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Download, ChevronDown, FileText, FileSpreadsheet, FileJson, FileArchive } from 'lucide-react';
+import { DownloadFormat } from '../types';
+
+interface DownloadMenuProps {
+  disabled: boolean;
+  openCount: number; // Documents included in the ZIP bundle
+  onDownload: (format: DownloadFormat) => void;
+}
+
+const DownloadMenu: React.FC<DownloadMenuProps> = ({ disabled, openCount, onDownload }) => {
+  const [open, setOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  const options: { format: DownloadFormat; label: string; hint: string; icon: React.ReactNode }[] = [
+    { format: 'csv', label: 'CSV', hint: 'One file per sheet', icon: <FileText size={16} /> },
+    { format: 'xlsx', label: 'Excel workbook', hint: 'One sheet per table', icon: <FileSpreadsheet size={16} /> },
+    { format: 'json', label: 'JSON', hint: 'Fields and tables as structured data', icon: <FileJson size={16} /> },
+    { format: 'zip', label: 'ZIP bundle', hint: `All ${openCount} open documents with images`, icon: <FileArchive size={16} /> },
+  ];
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button 
+        onClick={() => setOpen(o => !o)}
+        disabled={disabled}
+        className="w-full flex items-center justify-center gap-2 py-3 px-4 bg-white border border-slate-200 text-slate-700 font-semibold rounded-xl hover:bg-slate-50 hover:border-slate-300 transition-all disabled:opacity-50 disabled:cursor-not-allowed shadow-sm"
+      >
+        <Download size={18} />
+        <span>Download</span>
+        <ChevronDown size={14} className="text-slate-400" />
+      </button>
+
+      {open && (
+        <div className="absolute bottom-full mb-2 left-0 w-64 bg-white border border-slate-200 rounded-xl shadow-lg py-1 z-30">
+          {options.map(option => (
+            <button
+              key={option.format}
+              onClick={() => {
+                setOpen(false);
+                onDownload(option.format);
+              }}
+              className="w-full flex items-start gap-3 px-3 py-2 text-left hover:bg-slate-50"
+            >
+              <span className="text-slate-400 mt-0.5">{option.icon}</span>
+              <span>
+                <span className="block text-sm font-medium text-slate-700">{option.label}</span>
+                <span className="block text-xs text-slate-400">{option.hint}</span>
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DownloadMenu;
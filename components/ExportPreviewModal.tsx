@@ -0,0 +1,379 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { FileSpreadsheet, Plus, Trash2, Pencil } from 'lucide-react';
+import { DocumentKeySource, DuplicateMode, ExportRecord, ExportSheet, MappingProfile, SheetDestination } from '../types';
+import { applyMappingProfile, createProfileFromSheet, findMappingProfile } from '../services/mappingService';
+import { DUPLICATE_MODE_DESCRIPTIONS, DUPLICATE_MODE_LABELS } from '../services/exportService';
+import { SheetsClient } from '../services/sheetsClient';
+
+interface ExportPreviewModalProps {
+  buildSheets: (worksheet: string) => ExportSheet[]; // Laid out by buildExportSheets, before mapping
+  destinations: SheetDestination[];
+  initialDestinationId: string | null;
+  defaultWorksheet: string; // Used when the destination doesn't name a worksheet
+  client: SheetsClient;
+  profiles: MappingProfile[];
+  onProfilesChange: (profiles: MappingProfile[]) => void;
+  documentKey: string;
+  keySource: DocumentKeySource;
+  defaultMode: DuplicateMode;
+  lastExport?: ExportRecord;
+  onConfirm: (
+    sheets: ExportSheet[],
+    mode: DuplicateMode,
+    destination: SheetDestination,
+    worksheet: string,
+    profileIds: Record<string, string | null> // Chosen profile per worksheet, by name
+  ) => void;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full border border-slate-300 rounded-lg px-2 py-1.5 text-sm focus:ring-2 focus:ring-brand-500 outline-none';
+
+// Rows shown per sheet; the export itself always sends every row
+const PREVIEW_ROWS = 8;
+
+// Sources are edited as a comma list; keep trailing separators while typing
+const parseSources = (text: string) => text.split(',').map(s => s.trimStart());
+const cleanSources = (sources: string[]) => sources.map(s => s.trim()).filter(Boolean);
+
+const PreviewTable: React.FC<{ sheet: ExportSheet }> = ({ sheet }) => (
+  <div className="overflow-x-auto border border-slate-200 rounded-lg">
+    <table className="w-full text-xs text-left">
+      <thead className="bg-slate-50 text-slate-500 uppercase">
+        <tr>{sheet.headers.map((h, i) => <th key={i} className="px-2 py-1.5 whitespace-nowrap">{h}</th>)}</tr>
+      </thead>
+      <tbody className="divide-y divide-slate-100">
+        {sheet.rows.slice(0, PREVIEW_ROWS).map((row, r) => (
+          <tr key={r}>
+            {sheet.headers.map((_, c) => <td key={c} className="px-2 py-1.5 text-slate-700 whitespace-nowrap max-w-[220px] truncate">{row[c]}</td>)}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+    {sheet.rows.length > PREVIEW_ROWS && (
+      <p className="text-xs text-slate-400 px-2 py-1 bg-slate-50 border-t border-slate-100">+ {sheet.rows.length - PREVIEW_ROWS} more rows</p>
+    )}
+  </div>
+);
+
+const ExportPreviewModal: React.FC<ExportPreviewModalProps> = ({
+  buildSheets,
+  destinations,
+  initialDestinationId,
+  defaultWorksheet,
+  client,
+  profiles,
+  onProfilesChange,
+  documentKey,
+  keySource,
+  defaultMode,
+  lastExport,
+  onConfirm,
+  onClose,
+}) => {
+  const [mode, setMode] = useState<DuplicateMode>(defaultMode);
+  const [destinationId, setDestinationId] = useState(() => (
+    destinations.some(d => d.id === initialDestinationId) ? initialDestinationId : destinations[0]?.id
+  ));
+  const destination = destinations.find(d => d.id === destinationId);
+  const spreadsheetId = destination?.spreadsheetId ?? '';
+  const [worksheet, setWorksheet] = useState(destination?.worksheet.trim() || defaultWorksheet);
+  const [worksheetTitles, setWorksheetTitles] = useState<string[]>([]);
+
+  const sheets = useMemo(() => buildSheets(worksheet.trim() || defaultWorksheet), [buildSheets, worksheet, defaultWorksheet]);
+  const sheetNames = sheets.map(s => s.name).join('\n');
+
+  // Existing worksheets to pick from; a new name creates the worksheet on export
+  useEffect(() => {
+    let stale = false;
+    setWorksheetTitles([]);
+    if (!spreadsheetId) return;
+    client.getSheets(spreadsheetId)
+      .then(found => { if (!stale) setWorksheetTitles(found.map(s => s.title)); })
+      .catch(error => console.warn('Could not list worksheets', error));
+    return () => {
+      stale = true;
+    };
+  }, [client, spreadsheetId]);
+
+  // Profile per sheet: matched automatically, overridable for this export
+  const matchProfiles = () => sheets.map(sheet => findMappingProfile(profiles, spreadsheetId, sheet.name)?.id ?? null);
+  const [selected, setSelected] = useState<(string | null)[]>(matchProfiles);
+  // Re-matched when the target changes, not when profiles are edited
+  useEffect(() => {
+    setSelected(matchProfiles());
+  }, [spreadsheetId, sheetNames]);
+
+  const handleDestinationChange = (id: string) => {
+    const next = destinations.find(d => d.id === id);
+    setDestinationId(id);
+    setWorksheet(next?.worksheet.trim() || defaultWorksheet);
+  };
+  const [editing, setEditing] = useState<{ sheetIndex: number; draft: MappingProfile } | null>(null);
+
+  const mappedSheets = useMemo(
+    () => sheets.map((sheet, i) => {
+      const profile = profiles.find(p => p.id === selected[i]);
+      return profile ? applyMappingProfile(sheet, profile) : sheet;
+    }),
+    [sheets, profiles, selected]
+  );
+
+  const selectProfile = (sheetIndex: number, id: string | null) => {
+    setSelected(prev => prev.map((s, i) => (i === sheetIndex ? id : s)));
+  };
+
+  const updateDraft = (updates: Partial<MappingProfile>) => {
+    setEditing(prev => (prev ? { ...prev, draft: { ...prev.draft, ...updates } } : prev));
+  };
+
+  const updateColumn = (index: number, updates: Partial<MappingProfile['columns'][number]>) => {
+    if (!editing) return;
+    updateDraft({ columns: editing.draft.columns.map((c, i) => (i === index ? { ...c, ...updates } : c)) });
+  };
+
+  const handleSaveProfile = () => {
+    if (!editing) return;
+    const saved: MappingProfile = {
+      ...editing.draft,
+      name: editing.draft.name.trim() || editing.draft.worksheet || 'Mapping',
+      columns: editing.draft.columns
+        .map(c => ({ target: c.target.trim(), sources: cleanSources(c.sources) }))
+        .filter(c => c.target),
+    };
+    const exists = profiles.some(p => p.id === saved.id);
+    onProfilesChange(exists ? profiles.map(p => (p.id === saved.id ? saved : p)) : [...profiles, saved]);
+    selectProfile(editing.sheetIndex, saved.id);
+    setEditing(null);
+  };
+
+  const handleDeleteProfile = () => {
+    if (!editing) return;
+    if (!window.confirm(`Delete mapping "${editing.draft.name}"?`)) return;
+    onProfilesChange(profiles.filter(p => p.id !== editing.draft.id));
+    setSelected(prev => prev.map(s => (s === editing.draft.id ? null : s)));
+    setEditing(null);
+  };
+
+  const totalRows = mappedSheets.reduce((sum, s) => sum + s.rows.length, 0);
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4 backdrop-blur-sm">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-5xl w-full max-h-[85vh] flex flex-col animate-in fade-in zoom-in duration-200">
+        <div className="flex justify-between items-center p-6 pb-4 border-b border-slate-100">
+          <h2 className="text-xl font-bold flex items-center gap-2">
+            <FileSpreadsheet className="text-green-600" />
+            Review Export
+          </h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">Close</button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs font-medium text-slate-600 mb-1">Destination</label>
+              <select
+                value={destinationId ?? ''}
+                onChange={(e) => handleDestinationChange(e.target.value)}
+                className={inputClass}
+              >
+                {destinations.map(d => (
+                  <option key={d.id} value={d.id}>{d.name || d.spreadsheetName || d.spreadsheetId}</option>
+                ))}
+              </select>
+              {destination?.spreadsheetName && <p className="text-xs text-slate-400 mt-1">{destination.spreadsheetName}</p>}
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-slate-600 mb-1">Worksheet</label>
+              <input
+                value={worksheet}
+                onChange={(e) => setWorksheet(e.target.value)}
+                list="export-worksheets"
+                placeholder={defaultWorksheet}
+                className={inputClass}
+              />
+              <datalist id="export-worksheets">
+                {worksheetTitles.map(title => <option key={title} value={title} />)}
+              </datalist>
+              {worksheet.trim() && !worksheetTitles.includes(sheets[0]?.name) && worksheetTitles.length > 0 && (
+                <p className="text-xs text-slate-400 mt-1">A new worksheet will be created.</p>
+              )}
+            </div>
+          </div>
+
+          <div className="bg-slate-50 border border-slate-200 rounded-lg p-3 text-sm space-y-2">
+            <div className="flex flex-wrap items-center gap-x-4 gap-y-2">
+              <span className="text-slate-600">
+                Document key <code className="bg-white border border-slate-200 rounded px-1.5 py-0.5 text-xs">{documentKey}</code>
+                {keySource === 'imageHash' && <span className="text-xs text-slate-400 ml-2">(image hash)</span>}
+              </span>
+              <label className="flex items-center gap-2 text-slate-600 ml-auto">
+                If already exported
+                <select
+                  value={mode}
+                  onChange={(e) => setMode(e.target.value as DuplicateMode)}
+                  className="border border-slate-300 rounded-lg px-2 py-1 text-sm focus:ring-2 focus:ring-brand-500 outline-none"
+                >
+                  {(Object.keys(DUPLICATE_MODE_LABELS) as DuplicateMode[]).map(m => (
+                    <option key={m} value={m}>{DUPLICATE_MODE_LABELS[m]}</option>
+                  ))}
+                </select>
+              </label>
+            </div>
+            <p className="text-xs text-slate-400">{DUPLICATE_MODE_DESCRIPTIONS[mode]}</p>
+            {lastExport && lastExport.spreadsheetId === spreadsheetId && (
+              <p className="text-xs text-amber-600">
+                Last exported {new Date(lastExport.exportedAt).toLocaleString()} to {lastExport.worksheets.join(', ') || 'no worksheet'}
+                {lastExport.documentKey !== documentKey && ` under the key ${lastExport.documentKey}`}.
+              </p>
+            )}
+          </div>
+
+          {sheets.map((sheet, sheetIndex) => {
+            const isEditing = editing?.sheetIndex === sheetIndex;
+            const profile = profiles.find(p => p.id === selected[sheetIndex]);
+            return (
+              <div key={sheetIndex} className="space-y-2">
+                <div className="flex flex-wrap items-center gap-2">
+                  <h3 className="text-sm font-semibold text-slate-800 mr-auto">{sheet.name}</h3>
+                  <select
+                    value={selected[sheetIndex] ?? ''}
+                    onChange={(e) => selectProfile(sheetIndex, e.target.value || null)}
+                    disabled={isEditing}
+                    className="border border-slate-300 rounded-lg px-2 py-1 text-sm focus:ring-2 focus:ring-brand-500 outline-none"
+                  >
+                    <option value="">No mapping (columns as extracted)</option>
+                    {profiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                  </select>
+                  {profile && !isEditing && (
+                    <button
+                      onClick={() => setEditing({ sheetIndex, draft: structuredClone(profile) })}
+                      className="flex items-center gap-1 text-sm text-slate-600 hover:text-slate-800 px-2 py-1"
+                    >
+                      <Pencil size={14} /> Edit
+                    </button>
+                  )}
+                  {!isEditing && (
+                    <button
+                      onClick={() => setEditing({ sheetIndex, draft: createProfileFromSheet(sheet, spreadsheetId) })}
+                      className="flex items-center gap-1 text-sm text-brand-600 hover:text-brand-700 font-medium px-2 py-1"
+                    >
+                      <Plus size={14} /> New mapping
+                    </button>
+                  )}
+                </div>
+
+                {isEditing && editing ? (
+                  <div className="border border-brand-200 bg-brand-50/30 rounded-lg p-4 space-y-3">
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                      <div>
+                        <label className="block text-xs font-medium text-slate-600 mb-1">Name</label>
+                        <input value={editing.draft.name} onChange={(e) => updateDraft({ name: e.target.value })} className={inputClass} />
+                      </div>
+                      <div>
+                        <label className="block text-xs font-medium text-slate-600 mb-1">Worksheet (empty for any)</label>
+                        <input value={editing.draft.worksheet} onChange={(e) => updateDraft({ worksheet: e.target.value })} className={inputClass} />
+                      </div>
+                    </div>
+                    <label className="flex items-center gap-2 text-sm text-slate-600">
+                      <input
+                        type="checkbox"
+                        checked={Boolean(editing.draft.spreadsheetId)}
+                        onChange={(e) => updateDraft({ spreadsheetId: e.target.checked ? spreadsheetId : '' })}
+                      />
+                      Only for this spreadsheet
+                    </label>
+
+                    <div className="space-y-2">
+                      <div className="grid grid-cols-[1fr_2fr_32px] gap-2 text-xs text-slate-400 px-1">
+                        <span>Sheet column</span><span>Filled from (labels, headers or synonyms, comma-separated)</span><span />
+                      </div>
+                      {editing.draft.columns.map((column, i) => (
+                        <div key={i} className="grid grid-cols-[1fr_2fr_32px] gap-2 items-center">
+                          <input value={column.target} onChange={(e) => updateColumn(i, { target: e.target.value })} className={inputClass} />
+                          <input
+                            value={column.sources.join(', ')}
+                            onChange={(e) => updateColumn(i, { sources: parseSources(e.target.value) })}
+                            className={inputClass}
+                          />
+                          <button
+                            onClick={() => updateDraft({ columns: editing.draft.columns.filter((_, j) => j !== i) })}
+                            className="text-slate-300 hover:text-red-500 p-1"
+                          >
+                            <Trash2 size={16} />
+                          </button>
+                        </div>
+                      ))}
+                      <button
+                        onClick={() => updateDraft({ columns: [...editing.draft.columns, { target: '', sources: [] }] })}
+                        className="text-xs flex items-center gap-1 text-brand-600 hover:text-brand-700 font-medium px-1"
+                      >
+                        <Plus size={14} /> Add column
+                      </button>
+                    </div>
+
+                    <div className="flex flex-wrap items-center gap-4 text-sm text-slate-600">
+                      <span className="font-medium">Values without a column:</span>
+                      <label className="flex items-center gap-1">
+                        <input type="radio" checked={editing.draft.unmapped === 'drop'} onChange={() => updateDraft({ unmapped: 'drop' })} />
+                        Drop
+                      </label>
+                      <label className="flex items-center gap-1">
+                        <input type="radio" checked={editing.draft.unmapped === 'catchAll'} onChange={() => updateDraft({ unmapped: 'catchAll' })} />
+                        Collect in
+                      </label>
+                      <input
+                        value={editing.draft.catchAllColumn}
+                        onChange={(e) => updateDraft({ catchAllColumn: e.target.value })}
+                        disabled={editing.draft.unmapped !== 'catchAll'}
+                        className="border border-slate-300 rounded-lg px-2 py-1 text-sm w-32 disabled:opacity-50"
+                      />
+                    </div>
+
+                    <div className="flex justify-between pt-2">
+                      {profiles.some(p => p.id === editing.draft.id) ? (
+                        <button onClick={handleDeleteProfile} className="text-sm text-red-500 hover:text-red-600">Delete mapping</button>
+                      ) : <span />}
+                      <div className="flex gap-2">
+                        <button onClick={() => setEditing(null)} className="text-sm text-slate-500 hover:text-slate-700 px-3 py-1.5">Cancel</button>
+                        <button onClick={handleSaveProfile} className="text-sm bg-brand-600 hover:bg-brand-700 text-white px-3 py-1.5 rounded-lg font-medium">
+                          Save mapping
+                        </button>
+                      </div>
+                    </div>
+                  </div>
+                ) : (
+                  <PreviewTable sheet={mappedSheets[sheetIndex]} />
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex justify-between items-center p-6 pt-4 border-t border-slate-100">
+          <p className="text-sm text-slate-500">
+            {totalRows} {totalRows === 1 ? 'row' : 'rows'} to {sheets.length} {sheets.length === 1 ? 'worksheet' : 'worksheets'}
+          </p>
+          <div className="flex gap-2">
+            <button onClick={onClose} className="text-slate-500 hover:text-slate-700 px-4 py-2">Cancel</button>
+            <button
+              onClick={() => onConfirm(
+                mappedSheets,
+                mode,
+                destination,
+                worksheet.trim() || defaultWorksheet,
+                Object.fromEntries(sheets.map((sheet, i) => [sheet.name, selected[i] ?? null]))
+              )}
+              disabled={Boolean(editing) || !spreadsheetId}
+              className="bg-green-600 hover:bg-green-700 disabled:opacity-50 text-white px-4 py-2 rounded-lg font-medium transition-colors"
+            >
+              Export to Sheet
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportPreviewModal;
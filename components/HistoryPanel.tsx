@@ -0,0 +1,135 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { History, Search, Trash2, ExternalLink, Loader2, FileText } from 'lucide-react';
+import { HistoryEntry } from '../types';
+import { listHistory } from '../services/storageService';
+
+interface HistoryPanelProps {
+  openIds: string[];
+  onOpen: (id: string) => void;
+  onDelete: (id: string) => Promise<boolean>; // False when the delete failed
+  onClose: () => void;
+}
+
+// Flattens everything a user might search for into one lowercase string
+const searchableText = (entry: HistoryEntry) =>
+  [
+    entry.name,
+    ...entry.data.fields.flatMap(f => [f.label, String(f.value)]),
+    ...entry.data.tables.flatMap(t => [t.name, ...t.headers, ...t.rows.flatMap(r => r.values)]),
+  ]
+    .join(' ')
+    .toLowerCase();
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ openIds, onOpen, onDelete, onClose }) => {
+  const [entries, setEntries] = useState<HistoryEntry[] | null>(null);
+  const [query, setQuery] = useState('');
+
+  useEffect(() => {
+    listHistory()
+      .then(setEntries)
+      .catch(error => {
+        console.error("Failed to load history", error);
+        setEntries([]);
+      });
+  }, []);
+
+  const filtered = useMemo(() => {
+    if (!entries) return [];
+    const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+    if (terms.length === 0) return entries;
+    return entries.filter(entry => {
+      const text = searchableText(entry);
+      return terms.every(term => text.includes(term));
+    });
+  }, [entries, query]);
+
+  const handleDelete = async (entry: HistoryEntry) => {
+    if (!window.confirm(`Delete "${entry.name}" permanently?`)) return;
+    if (!(await onDelete(entry.id))) return;
+    setEntries(prev => prev?.filter(e => e.id !== entry.id) ?? null);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4 backdrop-blur-sm">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-2xl w-full max-h-[85vh] flex flex-col animate-in fade-in zoom-in duration-200">
+        <div className="flex justify-between items-center p-6 pb-4">
+          <h2 className="text-xl font-bold flex items-center gap-2">
+            <History className="text-brand-600" />
+            History
+          </h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">Close</button>
+        </div>
+
+        <div className="px-6 pb-4">
+          <div className="relative">
+            <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" />
+            <input
+              type="text"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search by name, field or table value..."
+              autoFocus
+              className="w-full border border-slate-300 rounded-lg pl-9 pr-3 py-2 text-sm focus:ring-2 focus:ring-brand-500 outline-none"
+            />
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 pb-6 space-y-2">
+          {entries === null && (
+            <div className="flex justify-center py-10 text-slate-400">
+              <Loader2 className="animate-spin" />
+            </div>
+          )}
+
+          {entries !== null && filtered.length === 0 && (
+            <p className="text-center text-sm text-slate-400 py-10">
+              {entries.length === 0 ? 'No saved extractions yet.' : 'No extractions match your search.'}
+            </p>
+          )}
+
+          {filtered.map(entry => {
+            const isOpen = openIds.includes(entry.id);
+            return (
+              <div key={entry.id} className="group flex items-center gap-3 p-2 rounded-lg border border-slate-100 hover:border-slate-200 hover:bg-slate-50">
+                {entry.thumbnail ? (
+                  <img src={entry.thumbnail} alt="" className="w-12 h-12 object-cover rounded bg-slate-100 shrink-0" />
+                ) : (
+                  <div className="w-12 h-12 rounded bg-slate-100 flex items-center justify-center shrink-0">
+                    <FileText size={18} className="text-slate-400" />
+                  </div>
+                )}
+
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium text-slate-800 truncate">{entry.name}</p>
+                  <p className="text-xs text-slate-400">
+                    {new Date(entry.updatedAt).toLocaleString()}
+                    {' · '}{entry.data.fields.length} fields, {entry.data.tables.length} tables
+                    {entry.pageCount > 1 && ` · ${entry.pageCount} pages`}
+                  </p>
+                </div>
+
+                <button
+                  onClick={() => onOpen(entry.id)}
+                  disabled={isOpen}
+                  className="flex items-center gap-1 text-xs font-medium text-brand-600 hover:text-brand-700 px-2 py-1 rounded disabled:text-slate-400"
+                >
+                  <ExternalLink size={14} />
+                  {isOpen ? 'Open' : 'Reopen'}
+                </button>
+                <button
+                  onClick={() => handleDelete(entry)}
+                  title="Delete permanently"
+                  className="text-slate-300 hover:text-red-500 p-1"
+                >
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HistoryPanel;
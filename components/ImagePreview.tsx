@@ -0,0 +1,135 @@
+import React, { useRef, useState } from 'react';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { BoundingBox } from '../types';
+
+interface ImagePreviewProps {
+  pages: string[];
+  page: number;
+  onPageChange: (page: number) => void;
+  highlight?: BoundingBox | null; // Drawn when it is on the current page
+  selecting?: boolean; // Lets the user drag a rectangle over the image
+  selection?: BoundingBox | null;
+  onSelect?: (box: BoundingBox) => void;
+  children?: React.ReactNode; // Overlays such as progress or errors
+}
+
+// Smallest selectable region, as a fraction of the image size
+const MIN_SELECTION = 0.01;
+
+const boxStyle = (box: BoundingBox): React.CSSProperties => ({
+  left: `${box.x * 100}%`,
+  top: `${box.y * 100}%`,
+  width: `${box.width * 100}%`,
+  height: `${box.height * 100}%`,
+});
+
+const ImagePreview: React.FC<ImagePreviewProps> = ({
+  pages,
+  page,
+  onPageChange,
+  highlight,
+  selecting = false,
+  selection,
+  onSelect,
+  children,
+}) => {
+  const wrapperRef = useRef<HTMLDivElement>(null);
+  const [dragStart, setDragStart] = useState<{ x: number; y: number } | null>(null);
+  const [draft, setDraft] = useState<BoundingBox | null>(null);
+
+  const current = Math.min(page, pages.length - 1);
+  const showHighlight = highlight && (highlight.page ?? 0) === current;
+  const shownSelection = draft ?? (selection && (selection.page ?? 0) === current ? selection : null);
+
+  // Pointer position as fractions of the rendered image, clamped to its edges
+  const toFraction = (e: React.PointerEvent) => {
+    const rect = wrapperRef.current!.getBoundingClientRect();
+    return {
+      x: Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)),
+      y: Math.min(1, Math.max(0, (e.clientY - rect.top) / rect.height)),
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (!selecting) return;
+    e.preventDefault();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDragStart(toFraction(e));
+    setDraft(null);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!dragStart) return;
+    const point = toFraction(e);
+    setDraft({
+      x: Math.min(dragStart.x, point.x),
+      y: Math.min(dragStart.y, point.y),
+      width: Math.abs(point.x - dragStart.x),
+      height: Math.abs(point.y - dragStart.y),
+      page: current,
+    });
+  };
+
+  const handlePointerUp = () => {
+    if (draft && draft.width >= MIN_SELECTION && draft.height >= MIN_SELECTION) onSelect?.(draft);
+    setDragStart(null);
+    setDraft(null);
+  };
+
+  return (
+    <div className="relative flex-1 bg-slate-900 rounded-xl overflow-hidden shadow-inner flex items-center justify-center min-h-[300px]">
+      {/* The wrapper shrinks to the rendered image so box percentages line up */}
+      <div
+        ref={wrapperRef}
+        className={`relative inline-block select-none touch-none ${selecting ? 'cursor-crosshair' : ''}`}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      >
+        <img
+          draggable={false}
+          src={pages[current]}
+          alt="Preview"
+          className="block max-w-full max-h-[500px] object-contain opacity-90"
+        />
+        {showHighlight && (
+          <div
+            className="absolute border-2 border-brand-400 bg-brand-400/20 rounded-sm shadow-[0_0_0_9999px_rgba(0,0,0,0.35)] pointer-events-none transition-all duration-150"
+            style={boxStyle(highlight)}
+          />
+        )}
+        {shownSelection && (
+          <div
+            className="absolute border-2 border-dashed border-amber-400 bg-amber-400/10 pointer-events-none"
+            style={boxStyle(shownSelection)}
+          />
+        )}
+      </div>
+
+      {pages.length > 1 && (
+        <div className="absolute bottom-3 left-1/2 -translate-x-1/2 flex items-center gap-2 bg-black/60 text-white text-xs rounded-full px-3 py-1 z-20">
+          <button
+            onClick={() => onPageChange(Math.max(0, current - 1))}
+            disabled={current === 0}
+            className="disabled:opacity-40"
+          >
+            <ChevronLeft size={16} />
+          </button>
+          <span>Page {current + 1} / {pages.length}</span>
+          <button
+            onClick={() => onPageChange(Math.min(pages.length - 1, current + 1))}
+            disabled={current === pages.length - 1}
+            className="disabled:opacity-40"
+          >
+            <ChevronRight size={16} />
+          </button>
+        </div>
+      )}
+
+      {children}
+    </div>
+  );
+};
+
+export default ImagePreview;
@@ -1,29 +1,66 @@
 import React, { useCallback, useState } from 'react';
-import { Upload, Camera, Image as ImageIcon } from 'lucide-react';
+import { Upload, Camera, Image as ImageIcon, FileText, Loader2 } from 'lucide-react';
+import { UploadedDocument } from '../types';
+import { isPdfFile, renderPdfToImages } from '../services/pdfService';
+import CameraCapture, { isCameraSupported } from './CameraCapture';
 
 interface ImageUploaderProps {
-  onImageSelected: (base64: string) => void;
-  isLoading: boolean;
+  onDocumentSelected: (document: UploadedDocument) => void;
 }
 
-const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageSelected, isLoading }) => {
+const readAsDataURL = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = (e) => resolve(e.target?.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+const ImageUploader: React.FC<ImageUploaderProps> = ({ onDocumentSelected }) => {
   const [dragActive, setDragActive] = useState(false);
+  const [renderProgress, setRenderProgress] = useState<string | null>(null);
+  const [showCamera, setShowCamera] = useState(false);
 
-  const handleFile = (file: File | null) => {
+  const handleFile = async (file: File | null) => {
     if (!file) return;
+
+    if (isPdfFile(file)) {
+      setRenderProgress('Reading PDF...');
+      try {
+        const pages = await renderPdfToImages(file, (page, total) => {
+          setRenderProgress(`Rendering page ${page} of ${total}...`);
+        });
+        if (pages.length === 0) {
+          alert("This PDF has no pages.");
+          return;
+        }
+        onDocumentSelected({ name: file.name, pages });
+      } catch (error) {
+        console.error("PDF rendering failed:", error);
+        alert("Could not read this PDF. It may be encrypted or damaged.");
+      } finally {
+        setRenderProgress(null);
+      }
+      return;
+    }
+
     if (!file.type.match('image.*')) {
-      alert("Please upload a valid image file (JPEG, PNG).");
+      alert("Please upload a valid image (JPEG, PNG) or PDF file.");
       return;
     }
 
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      const result = e.target?.result as string;
-      onImageSelected(result);
-    };
-    reader.readAsDataURL(file);
+    onDocumentSelected({ name: file.name, pages: [await readAsDataURL(file)] });
   };
 
+  // Files are read one after another so a large drop doesn't decode every PDF at once
+  const handleFiles = async (files: FileList) => {
+    for (const file of Array.from(files)) {
+      await handleFile(file);
+    }
+  };
+
+  const isBusy = renderProgress !== null;
+
   const handleDrag = useCallback((e: React.DragEvent) => {
     e.preventDefault();
     e.stopPropagation();
@@ -38,22 +75,24 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageSelected, isLoadin
     e.preventDefault();
     e.stopPropagation();
     setDragActive(false);
-    if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-      handleFile(e.dataTransfer.files[0]);
+    if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
+      handleFiles(e.dataTransfer.files);
     }
   }, []); // eslint-disable-next-line react-hooks/exhaustive-deps
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      handleFile(e.target.files[0]);
+    if (e.target.files && e.target.files.length > 0) {
+      handleFiles(e.target.files);
     }
+    // Allow picking the same files again
+    e.target.value = '';
   };
 
   return (
     <div 
       className={`relative w-full h-64 border-2 border-dashed rounded-xl transition-all duration-300 ease-in-out flex flex-col items-center justify-center gap-4
         ${dragActive ? 'border-brand-500 bg-brand-50' : 'border-slate-300 bg-white hover:bg-slate-50'}
-        ${isLoading ? 'opacity-50 pointer-events-none' : 'cursor-pointer'}
+        ${isBusy ? 'opacity-50 pointer-events-none' : 'cursor-pointer'}
       `}
       onDragEnter={handleDrag}
       onDragLeave={handleDrag}
@@ -62,18 +101,23 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageSelected, isLoadin
     >
       <input
         type="file"
-        accept="image/*"
+        accept="image/*,application/pdf"
+        multiple
         className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-10"
         onChange={handleChange}
-        disabled={isLoading}
+        disabled={isBusy}
       />
       
       <div className="flex flex-col items-center text-slate-500">
         <div className="bg-slate-100 p-4 rounded-full mb-3">
-          <Upload className="w-8 h-8 text-brand-500" />
+          {renderProgress ? (
+            <Loader2 className="w-8 h-8 text-brand-500 animate-spin" />
+          ) : (
+            <Upload className="w-8 h-8 text-brand-500" />
+          )}
         </div>
-        <p className="font-medium text-lg text-slate-700">Click to Upload or Drag Image</p>
-        <p className="text-sm text-slate-400 mt-1">Supports JPG, PNG, WEBP</p>
+        <p className="font-medium text-lg text-slate-700">{renderProgress ?? 'Click to Upload or Drag Images'}</p>
+        <p className="text-sm text-slate-400 mt-1">Supports JPG, PNG, WEBP and multi-page PDF</p>
       </div>
 
       <div className="flex gap-2 z-20 pointer-events-none">
@@ -81,9 +125,28 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageSelected, isLoadin
           <ImageIcon size={14} className="mr-1" /> File
         </span>
         <span className="flex items-center text-xs bg-slate-100 px-2 py-1 rounded text-slate-500">
-          <Camera size={14} className="mr-1" /> Mobile Camera
+          <FileText size={14} className="mr-1" /> PDF
         </span>
+        {isCameraSupported() && (
+          <button
+            type="button"
+            onClick={() => setShowCamera(true)}
+            className="flex items-center text-xs bg-brand-50 hover:bg-brand-100 px-2 py-1 rounded text-brand-700 font-medium pointer-events-auto"
+          >
+            <Camera size={14} className="mr-1" /> Scan with Camera
+          </button>
+        )}
       </div>
+
+      {showCamera && (
+        <CameraCapture
+          onClose={() => setShowCamera(false)}
+          onCapture={(documents) => {
+            setShowCamera(false);
+            documents.forEach(onDocumentSelected);
+          }}
+        />
+      )}
     </div>
   );
 };
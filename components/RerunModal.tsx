@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { Loader2, Sparkles } from 'lucide-react';
+import { DocumentTemplate, ExtractionSettings, ExtractionVariant, ProviderId } from '../types';
+import { PROVIDER_LABELS } from '../services/providers';
+
+interface RerunModalProps {
+  initial: ExtractionVariant;
+  settings: ExtractionSettings; // For each provider's configured model
+  templates: DocumentTemplate[];
+  busyMessage: string | null; // Set while the re-run is in progress
+  onRun: (variant: ExtractionVariant) => void;
+  onCancel: () => void; // Stops a running re-run
+  onClose: () => void;
+}
+
+const inputClass = 'w-full border border-slate-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-brand-500 outline-none disabled:bg-slate-50';
+
+const RerunModal: React.FC<RerunModalProps> = ({ initial, settings, templates, busyMessage, onRun, onCancel, onClose }) => {
+  const [variant, setVariant] = useState<ExtractionVariant>(initial);
+  const busy = busyMessage !== null;
+
+  const update = (updates: Partial<ExtractionVariant>) => setVariant(prev => ({ ...prev, ...updates }));
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4 backdrop-blur-sm">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-md w-full p-6 animate-in fade-in zoom-in duration-200">
+        <h2 className="text-xl font-bold flex items-center gap-2 mb-1">
+          <Sparkles className="text-brand-600" />
+          Re-run Extraction
+        </h2>
+        <p className="text-xs text-slate-500 mb-4">
+          Extract the document again with another model or prompt, then compare the two results and pick values from either.
+        </p>
+
+        <div className="space-y-3">
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Provider</label>
+            <select
+              value={variant.providerId}
+              onChange={(e) => {
+                const providerId = e.target.value as ProviderId;
+                update({ providerId, model: settings.providers[providerId].model });
+              }}
+              disabled={busy}
+              className={inputClass}
+            >
+              {(Object.keys(PROVIDER_LABELS) as ProviderId[]).map(id => (
+                <option key={id} value={id}>{PROVIDER_LABELS[id]}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Model</label>
+            <input
+              type="text"
+              value={variant.model}
+              onChange={(e) => update({ model: e.target.value })}
+              disabled={busy}
+              placeholder={settings.providers[variant.providerId].model}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Prompt</label>
+            <select
+              value={variant.templateId ?? ''}
+              onChange={(e) => update({ templateId: e.target.value || null })}
+              disabled={busy}
+              className={inputClass}
+            >
+              <option value="">Generic extraction</option>
+              {templates.map(t => (
+                <option key={t.id} value={t.id}>Template: {t.name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Extra instructions</label>
+            <textarea
+              value={variant.instructions}
+              onChange={(e) => update({ instructions: e.target.value })}
+              disabled={busy}
+              rows={3}
+              placeholder="e.g. Dates on this document are day-first."
+              className={inputClass}
+            />
+          </div>
+        </div>
+
+        <div className="flex justify-between items-center mt-6">
+          <span className="text-xs text-slate-500">{busyMessage}</span>
+          <div className="flex gap-2">
+            {busy ? (
+              <button onClick={onCancel} className="text-slate-500 hover:text-slate-700 px-4 py-2">Stop</button>
+            ) : (
+              <button onClick={onClose} className="text-slate-500 hover:text-slate-700 px-4 py-2">Cancel</button>
+            )}
+            <button
+              onClick={() => onRun({ ...variant, model: variant.model.trim() || settings.providers[variant.providerId].model })}
+              disabled={busy}
+              className="flex items-center gap-2 bg-brand-600 hover:bg-brand-700 disabled:opacity-50 text-white px-4 py-2 rounded-lg font-medium transition-colors"
+            >
+              {busy && <Loader2 size={16} className="animate-spin" />}
+              {busy ? 'Running...' : 'Run and compare'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RerunModal;
@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
-import { ProcessedResult, AppStatus } from '../types';
-import { Loader2, X, FileText } from 'lucide-react';
+import { ProcessedResult, AppStatus, DocumentType } from '../types';
+import { DOCUMENT_TYPES, DOCUMENT_TYPE_LABELS } from '../services/classificationService';
+import { Loader2, X, FileText, Clock, AlertCircle, Ban, RotateCw, Square } from 'lucide-react';
 
 interface ResultTabsProps {
   results: ProcessedResult[];
@@ -8,9 +9,27 @@ interface ResultTabsProps {
   onSelectTab: (id: string) => void;
   onCloseTab: (id: string) => void;
   onRenameTab: (id: string, newName: string) => void;
+  onCancelTab: (id: string) => void;
+  onRetryTab: (id: string) => void;
+  onChangeDocumentType: (id: string, type: DocumentType) => void;
 }
 
-const ResultTabs: React.FC<ResultTabsProps> = ({ results, activeResultId, onSelectTab, onCloseTab, onRenameTab }) => {
+const StatusIcon: React.FC<{ result: ProcessedResult }> = ({ result }) => {
+  switch (result.status) {
+    case AppStatus.QUEUED:
+      return <Clock size={16} className="text-slate-400" />;
+    case AppStatus.ANALYZING:
+      return <Loader2 size={16} className="animate-spin" />;
+    case AppStatus.ERROR:
+      return <AlertCircle size={16} className="text-red-500" />;
+    case AppStatus.CANCELLED:
+      return <Ban size={16} className="text-slate-400" />;
+    default:
+      return <FileText size={16} />;
+  }
+};
+
+const ResultTabs: React.FC<ResultTabsProps> = ({ results, activeResultId, onSelectTab, onCloseTab, onRenameTab, onCancelTab, onRetryTab, onChangeDocumentType }) => {
   const [editingTabId, setEditingTabId] = useState<string | null>(null);
   const [editingName, setEditingName] = useState('');
 
@@ -40,52 +59,108 @@ const ResultTabs: React.FC<ResultTabsProps> = ({ results, activeResultId, onSele
     return null; // Don't render anything if there are no results
   }
 
+  const activeResult = results.find(r => r.id === activeResultId);
+  const isBusy = activeResult?.status === AppStatus.QUEUED || activeResult?.status === AppStatus.ANALYZING;
+
   return (
-    <div className="flex items-center border-b border-slate-200 bg-white rounded-t-xl px-2 pt-2">
-      <div className="flex space-x-1">
-        {results.map((result) => (
-          <div
-            key={result.id}
-            onDoubleClick={() => handleStartEditing(result)}
-            onClick={() => onSelectTab(result.id)}
-            className={`flex items-center gap-2 px-3 py-2 text-sm font-medium border-b-2 rounded-t-md transition-colors cursor-pointer ${
-              activeResultId === result.id
-                ? 'border-brand-600 text-brand-700 bg-brand-50'
-                : 'border-transparent text-slate-500 hover:bg-slate-100 hover:text-slate-700'
-            }`}
-          >
-            {result.status === AppStatus.ANALYZING ? (
-              <Loader2 size={16} className="animate-spin" />
-            ) : (
-              <FileText size={16} />
-            )}
-
-            {editingTabId === result.id ? (
-              <input
-                type="text"
-                value={editingName}
-                onChange={(e) => setEditingName(e.target.value)}
-                onBlur={handleFinishEditing}
-                onKeyDown={handleKeyDown}
-                autoFocus
-                className="bg-transparent outline-none w-24"
-              />
-            ) : (
-              <span>{result.name}</span>
-            )}
-
-            <button
-              onClick={(e) => {
-                e.stopPropagation();
-                onCloseTab(result.id);
-              }}
-              className="p-0.5 rounded-full hover:bg-slate-400/20"
+    <div className="bg-white rounded-t-xl border-b border-slate-200">
+      <div className="flex items-center border-b border-slate-100 px-2 pt-2 overflow-x-auto">
+        <div className="flex space-x-1">
+          {results.map((result) => (
+            <div
+              key={result.id}
+              onDoubleClick={() => handleStartEditing(result)}
+              onClick={() => onSelectTab(result.id)}
+              title={result.errorMessage ?? result.statusMessage ?? undefined}
+              className={`flex items-center gap-2 px-3 py-2 text-sm font-medium border-b-2 rounded-t-md transition-colors cursor-pointer whitespace-nowrap ${
+                activeResultId === result.id
+                  ? 'border-brand-600 text-brand-700 bg-brand-50'
+                  : 'border-transparent text-slate-500 hover:bg-slate-100 hover:text-slate-700'
+              }`}
             >
-              <X size={14} />
-            </button>
-          </div>
-        ))}
+              <StatusIcon result={result} />
+
+              {editingTabId === result.id ? (
+                <input
+                  type="text"
+                  value={editingName}
+                  onChange={(e) => setEditingName(e.target.value)}
+                  onBlur={handleFinishEditing}
+                  onKeyDown={handleKeyDown}
+                  autoFocus
+                  className="bg-transparent outline-none w-24"
+                />
+              ) : (
+                <span>{result.name}</span>
+              )}
+
+              {result.status === AppStatus.ANALYZING && result.progress && (
+                <span className="text-xs font-mono text-slate-400">
+                  {result.progress.completed}/{result.progress.total}
+                </span>
+              )}
+
+              {(result.status === AppStatus.QUEUED || result.status === AppStatus.ANALYZING) && (
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onCancelTab(result.id);
+                  }}
+                  title="Cancel extraction"
+                  className="p-0.5 rounded-full hover:bg-slate-400/20"
+                >
+                  <Square size={12} />
+                </button>
+              )}
+
+              {(result.status === AppStatus.ERROR || result.status === AppStatus.CANCELLED) && (
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onRetryTab(result.id);
+                  }}
+                  title="Retry extraction"
+                  className="p-0.5 rounded-full hover:bg-slate-400/20"
+                >
+                  <RotateCw size={12} />
+                </button>
+              )}
+
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onCloseTab(result.id);
+                }}
+                className="p-0.5 rounded-full hover:bg-slate-400/20"
+              >
+                <X size={14} />
+              </button>
+            </div>
+          ))}
+        </div>
       </div>
+
+      {activeResult?.classification && (
+        <div className="flex items-center gap-2 px-3 py-2 text-xs text-slate-500">
+          <span>Document type</span>
+          <select
+            value={activeResult.classification.type}
+            onChange={(e) => onChangeDocumentType(activeResult.id, e.target.value as DocumentType)}
+            disabled={isBusy}
+            title="Changing the type re-runs extraction with its template"
+            className="border border-slate-200 rounded px-1.5 py-0.5 text-xs text-slate-700 bg-white focus:ring-2 focus:ring-brand-500 outline-none disabled:opacity-50"
+          >
+            {DOCUMENT_TYPES.map(type => (
+              <option key={type} value={type}>{DOCUMENT_TYPE_LABELS[type]}</option>
+            ))}
+          </select>
+          <span className="text-slate-400">
+            {activeResult.documentTypeOverridden
+              ? 'set manually'
+              : `detected, ${Math.round(activeResult.classification.confidence * 100)}% confidence`}
+          </span>
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,656 @@
+import React, { useEffect, useState } from 'react';
+import { Settings, FileSpreadsheet, Cpu, Tags, Calculator, Download, Plus, Trash2, SlidersHorizontal, Database } from 'lucide-react';
+import { SheetConfig, SheetDestination, ExtractionSettings, ProviderConfig, ProviderId, DocumentTemplate, DocumentType, ArithmeticRules, ColumnRole, TotalRole, ExportSettings, ExportLayout, DocumentKeySource, DuplicateMode, PreprocessingSettings, ImageFormat } from '../types';
+import { PROVIDER_LABELS } from '../services/providers';
+import { DOCUMENT_TYPES, DOCUMENT_TYPE_LABELS } from '../services/classificationService';
+import { COLUMN_ROLE_LABELS, TOTAL_ROLE_LABELS } from '../services/rulesService';
+import { SheetsClient } from '../services/sheetsClient';
+import { CacheStats, clearResponseCache, getCacheStats } from '../services/storageService';
+import SpreadsheetPicker from './SpreadsheetPicker';
+import { DOCUMENT_KEY_SOURCE_LABELS, DUPLICATE_MODE_LABELS, EXPORT_LAYOUT_DESCRIPTIONS, EXPORT_LAYOUT_LABELS } from '../services/exportService';
+
+interface SettingsModalProps {
+  sheetConfig: SheetConfig;
+  onSheetConfigChange: React.Dispatch<React.SetStateAction<SheetConfig>>;
+  extractionSettings: ExtractionSettings;
+  onExtractionSettingsChange: React.Dispatch<React.SetStateAction<ExtractionSettings>>;
+  exportSettings: ExportSettings;
+  onExportSettingsChange: React.Dispatch<React.SetStateAction<ExportSettings>>;
+  templates: DocumentTemplate[];
+  sheetsClient: SheetsClient | null; // Null until signed in to Google
+  onClose: () => void;
+}
+
+const inputClass = 'w-full border border-slate-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-brand-500 outline-none';
+
+const parseNames = (text: string) => text.split(',').map(s => s.trim()).filter(Boolean);
+
+const formatBytes = (bytes: number) =>
+  bytes < 1024 ? `${bytes} B` : bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+const SettingsModal: React.FC<SettingsModalProps> = ({
+  sheetConfig,
+  onSheetConfigChange,
+  extractionSettings,
+  onExtractionSettingsChange,
+  exportSettings,
+  onExportSettingsChange,
+  templates,
+  sheetsClient,
+  onClose,
+}) => {
+  const [pickingFor, setPickingFor] = useState<string | null>(null);
+  const [cacheStats, setCacheStats] = useState<CacheStats | null>(null);
+
+  useEffect(() => {
+    getCacheStats().then(setCacheStats).catch(error => console.error("Failed to read cache stats", error));
+  }, []);
+
+  const handleClearCache = async () => {
+    if (!confirm('Delete all cached model responses? Documents extracted again will call the model.')) return;
+    try {
+      await clearResponseCache();
+      setCacheStats({ entries: 0, bytes: 0, hits: 0 });
+    } catch (error: any) {
+      alert(`Could not clear the cache: ${error.message}`);
+    }
+  };
+  const providerId = extractionSettings.providerId;
+  const providerConfig = extractionSettings.providers[providerId];
+
+  const updateProviderConfig = (updates: Partial<ProviderConfig>) => {
+    onExtractionSettingsChange(prev => ({
+      ...prev,
+      providers: {
+        ...prev.providers,
+        [prev.providerId]: { ...prev.providers[prev.providerId], ...updates },
+      },
+    }));
+  };
+
+  const updateArithmeticRules = (updates: Partial<ArithmeticRules>) => {
+    onExtractionSettingsChange(prev => ({ ...prev, arithmeticRules: { ...prev.arithmeticRules, ...updates } }));
+  };
+
+  const rules = extractionSettings.arithmeticRules;
+
+  const updatePreprocessing = (updates: Partial<PreprocessingSettings>) => {
+    onExtractionSettingsChange(prev => ({ ...prev, preprocessing: { ...prev.preprocessing, ...updates } }));
+  };
+
+  const preprocessing = extractionSettings.preprocessing;
+
+  const updateTypeTemplate = (type: DocumentType, templateId: string | null) => {
+    onExtractionSettingsChange(prev => ({ ...prev, templateByType: { ...prev.templateByType, [type]: templateId } }));
+  };
+
+  const updateTypeDestination = (type: DocumentType, destinationId: string) => {
+    onSheetConfigChange(prev => ({ ...prev, destinationByType: { ...prev.destinationByType, [type]: destinationId } }));
+  };
+
+  const updateDestination = (id: string, updates: Partial<SheetDestination>) => {
+    onSheetConfigChange(prev => ({
+      ...prev,
+      destinations: prev.destinations.map(d => (d.id === id ? { ...d, ...updates } : d)),
+    }));
+  };
+
+  const addDestination = () => {
+    const destination: SheetDestination = { id: `destination-${Date.now()}`, name: '', spreadsheetId: '', worksheet: '' };
+    onSheetConfigChange(prev => ({
+      ...prev,
+      destinations: [...prev.destinations, destination],
+      defaultDestinationId: prev.defaultDestinationId ?? destination.id,
+    }));
+  };
+
+  const removeDestination = (id: string) => {
+    onSheetConfigChange(prev => {
+      const destinations = prev.destinations.filter(d => d.id !== id);
+      const destinationByType = Object.fromEntries(
+        Object.entries(prev.destinationByType ?? {}).filter(([, destinationId]) => destinationId !== id)
+      );
+      return {
+        ...prev,
+        destinations,
+        destinationByType,
+        defaultDestinationId: prev.defaultDestinationId === id ? destinations[0]?.id ?? null : prev.defaultDestinationId,
+      };
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4 backdrop-blur-sm">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-md w-full max-h-[90vh] overflow-y-auto p-6 animate-in fade-in zoom-in duration-200">
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-xl font-bold flex items-center gap-2">
+            <Settings className="text-brand-600" />
+            Settings
+          </h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">Close</button>
+        </div>
+        
+        <div className="space-y-4">
+          <h3 className="text-sm font-semibold text-slate-800 flex items-center gap-2">
+            <FileSpreadsheet size={16} className="text-green-600" />
+            Google Sheets
+          </h3>
+          <div className="space-y-3">
+            <label className="block text-sm font-medium text-slate-700">Destinations</label>
+            {sheetConfig.destinations.map(destination => (
+              <div key={destination.id} className="border border-slate-200 rounded-lg p-3 space-y-2">
+                <div className="flex items-center gap-2">
+                  <input
+                    type="text"
+                    value={destination.name}
+                    onChange={(e) => updateDestination(destination.id, { name: e.target.value })}
+                    placeholder="Name, e.g. Accounts payable"
+                    className={inputClass}
+                  />
+                  <button
+                    onClick={() => removeDestination(destination.id)}
+                    className="text-slate-300 hover:text-red-500 p-1"
+                    title="Remove destination"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+                {pickingFor === destination.id && sheetsClient ? (
+                  <SpreadsheetPicker
+                    client={sheetsClient}
+                    onPick={(file) => {
+                      updateDestination(destination.id, { spreadsheetId: file.id, spreadsheetName: file.name, name: destination.name || file.name });
+                      setPickingFor(null);
+                    }}
+                    onCancel={() => setPickingFor(null)}
+                  />
+                ) : (
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="text"
+                      value={destination.spreadsheetId}
+                      onChange={(e) => updateDestination(destination.id, { spreadsheetId: e.target.value.trim(), spreadsheetName: undefined })}
+                      placeholder="Spreadsheet ID"
+                      title={destination.spreadsheetName}
+                      className={inputClass}
+                    />
+                    <button
+                      onClick={() => setPickingFor(destination.id)}
+                      disabled={!sheetsClient}
+                      title={sheetsClient ? 'Choose from Google Drive' : 'Connect Google to browse your spreadsheets'}
+                      className="shrink-0 text-sm text-brand-600 hover:text-brand-700 font-medium px-2 disabled:opacity-50"
+                    >
+                      Browse
+                    </button>
+                  </div>
+                )}
+                {destination.spreadsheetName && pickingFor !== destination.id && (
+                  <p className="text-xs text-slate-500 flex items-center gap-1">
+                    <FileSpreadsheet size={12} className="text-green-600" /> {destination.spreadsheetName}
+                  </p>
+                )}
+                <div className="flex items-center gap-2">
+                  <input
+                    type="text"
+                    value={destination.worksheet}
+                    onChange={(e) => updateDestination(destination.id, { worksheet: e.target.value })}
+                    placeholder="Worksheet (empty uses the tab name)"
+                    className={inputClass}
+                  />
+                  <label className="shrink-0 flex items-center gap-1 text-xs text-slate-600">
+                    <input
+                      type="radio"
+                      name="default-destination"
+                      checked={sheetConfig.defaultDestinationId === destination.id}
+                      onChange={() => onSheetConfigChange(prev => ({ ...prev, defaultDestinationId: destination.id }))}
+                    />
+                    Default
+                  </label>
+                </div>
+              </div>
+            ))}
+            <button
+              onClick={addDestination}
+              className="text-xs flex items-center gap-1 text-brand-600 hover:text-brand-700 font-medium"
+            >
+              <Plus size={14} /> Add destination
+            </button>
+            <p className="text-xs text-slate-400">Browse after connecting Google, or paste the ID from the spreadsheet URL.</p>
+          </div>
+          
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">OAuth Client ID</label>
+            <input 
+              type="text" 
+              value={sheetConfig.clientId}
+              onChange={(e) => onSheetConfigChange(prev => ({...prev, clientId: e.target.value}))}
+              placeholder="e.g. 123456...apps.googleusercontent.com"
+              className={inputClass}
+            />
+            <div className="text-xs text-slate-500 mt-2 space-y-1">
+              <p>To enable "Sign in with Google":</p>
+              <ol className="list-decimal pl-4 space-y-1">
+                <li>Go to Google Cloud Console {'>'} APIs & Services.</li>
+                <li>Create Credentials {'>'} OAuth Client ID (Web App).</li>
+                <li>Add your Netlify URL to <strong>Authorized JavaScript origins</strong>.</li>
+                <li>Copy Client ID here.</li>
+              </ol>
+            </div>
+          </div>
+
+          <div className="pt-4 border-t border-slate-100 space-y-3">
+            <h3 className="text-sm font-semibold text-slate-800 flex items-center gap-2">
+              <Cpu size={16} className="text-brand-600" />
+              Extraction Provider
+            </h3>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Provider</label>
+              <select
+                value={providerId}
+                onChange={(e) => onExtractionSettingsChange(prev => ({...prev, providerId: e.target.value as ProviderId}))}
+                className={inputClass}
+              >
+                {(Object.keys(PROVIDER_LABELS) as ProviderId[]).map(id => (
+                  <option key={id} value={id}>{PROVIDER_LABELS[id]}</option>
+                ))}
+              </select>
+            </div>
+
+            {providerId === 'openai' && (
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Base URL</label>
+                <input 
+                  type="text" 
+                  value={providerConfig.baseUrl}
+                  onChange={(e) => updateProviderConfig({ baseUrl: e.target.value })}
+                  placeholder="e.g. http://localhost:11434/v1"
+                  className={inputClass}
+                />
+                <p className="text-xs text-slate-400 mt-1">Any server exposing <code>/chat/completions</code> with image input.</p>
+              </div>
+            )}
+
+            {providerId !== 'mock' && (
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">API Key</label>
+                <input 
+                  type="password" 
+                  value={providerConfig.apiKey}
+                  onChange={(e) => updateProviderConfig({ apiKey: e.target.value })}
+                  placeholder={providerId === 'gemini' ? 'Uses VITE_GOOGLE_API_KEY when empty' : 'Optional for local servers'}
+                  className={inputClass}
+                />
+                <p className="text-xs text-slate-400 mt-1">Stored in this browser only.</p>
+              </div>
+            )}
+
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Model</label>
+              <input 
+                type="text" 
+                value={providerConfig.model}
+                onChange={(e) => updateProviderConfig({ model: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Temperature</label>
+                <input 
+                  type="number" 
+                  min={0}
+                  max={2}
+                  step={0.1}
+                  value={providerConfig.temperature}
+                  onChange={(e) => updateProviderConfig({ temperature: Math.min(2, Math.max(0, Number(e.target.value) || 0)) })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Timeout (seconds)</label>
+                <input 
+                  type="number" 
+                  min={5}
+                  value={Math.round(providerConfig.timeoutMs / 1000)}
+                  onChange={(e) => updateProviderConfig({ timeoutMs: Math.max(5, Number(e.target.value) || 5) * 1000 })}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+          </div>
+
+          <div className="pt-4 border-t border-slate-100 space-y-3">
+            <h3 className="text-sm font-semibold text-slate-800 flex items-center gap-2">
+              <Tags size={16} className="text-brand-600" />
+              Document Types
+            </h3>
+            <p className="text-xs text-slate-400">
+              With the "Auto" template, each detected type is extracted with its template and exported to its destination.
+            </p>
+            <div className="grid grid-cols-[90px_1fr_1fr] gap-2 items-center text-xs text-slate-500">
+              <span />
+              <span>Template</span>
+              <span>Destination</span>
+              {DOCUMENT_TYPES.map(type => {
+                return (
+                  <React.Fragment key={type}>
+                    <span className="font-medium text-slate-700">{DOCUMENT_TYPE_LABELS[type]}</span>
+                    <select
+                      value={extractionSettings.templateByType[type] ?? ''}
+                      onChange={(e) => updateTypeTemplate(type, e.target.value || null)}
+                      className="border border-slate-300 rounded-lg px-2 py-1.5 text-sm focus:ring-2 focus:ring-brand-500 outline-none"
+                    >
+                      <option value="">Generic</option>
+                      {templates.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                    </select>
+                    <select
+                      value={sheetConfig.destinationByType?.[type] ?? ''}
+                      onChange={(e) => updateTypeDestination(type, e.target.value)}
+                      className="border border-slate-300 rounded-lg px-2 py-1.5 text-sm focus:ring-2 focus:ring-brand-500 outline-none"
+                    >
+                      <option value="">Default</option>
+                      {sheetConfig.destinations.map(d => <option key={d.id} value={d.id}>{d.name || 'Untitled'}</option>)}
+                    </select>
+                  </React.Fragment>
+                );
+              })}
+            </div>
+          </div>
+
+          <div className="pt-4 border-t border-slate-100">
+            <h3 className="text-sm font-semibold text-slate-800 flex items-center gap-2 mb-3">
+              <Download size={16} className="text-brand-600" />
+              Export Layout
+            </h3>
+            <div className="space-y-2">
+              {(Object.keys(EXPORT_LAYOUT_LABELS) as ExportLayout[]).map(layout => (
+                <label key={layout} className="flex items-start gap-2 cursor-pointer">
+                  <input
+                    type="radio"
+                    name="export-layout"
+                    checked={exportSettings.layout === layout}
+                    onChange={() => onExportSettingsChange(prev => ({ ...prev, layout }))}
+                    className="mt-1 text-brand-600 focus:ring-brand-500"
+                  />
+                  <span>
+                    <span className="block text-sm font-medium text-slate-700">{EXPORT_LAYOUT_LABELS[layout]}</span>
+                    <span className="block text-xs text-slate-400">{EXPORT_LAYOUT_DESCRIPTIONS[layout]}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+            <p className="text-xs text-slate-400 mt-2">Applies to Google Sheets and file downloads.</p>
+            <div className="grid grid-cols-2 gap-3 mt-4">
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Document key</label>
+                <select
+                  value={exportSettings.keySource}
+                  onChange={(e) => onExportSettingsChange(prev => ({ ...prev, keySource: e.target.value as DocumentKeySource }))}
+                  className={inputClass}
+                >
+                  {(Object.keys(DOCUMENT_KEY_SOURCE_LABELS) as DocumentKeySource[]).map(source => (
+                    <option key={source} value={source}>{DOCUMENT_KEY_SOURCE_LABELS[source]}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Key field</label>
+                <input
+                  type="text"
+                  value={exportSettings.keyField}
+                  onChange={(e) => onExportSettingsChange(prev => ({ ...prev, keyField: e.target.value }))}
+                  disabled={exportSettings.keySource !== 'field'}
+                  placeholder="Invoice Number"
+                  className={`${inputClass} disabled:opacity-50`}
+                />
+              </div>
+            </div>
+            <label className="block text-sm font-medium text-slate-700 mb-1 mt-3">When a document was already exported</label>
+            <select
+              value={exportSettings.duplicateMode}
+              onChange={(e) => onExportSettingsChange(prev => ({ ...prev, duplicateMode: e.target.value as DuplicateMode }))}
+              className={inputClass}
+            >
+              {(Object.keys(DUPLICATE_MODE_LABELS) as DuplicateMode[]).map(mode => (
+                <option key={mode} value={mode}>{DUPLICATE_MODE_LABELS[mode]}</option>
+              ))}
+            </select>
+            <p className="text-xs text-slate-400 mt-1">Sheets rows carry the key in a hidden <code>__doc_key</code> column. Without the key field, the image hash is used.</p>
+          </div>
+
+          <div className="pt-4 border-t border-slate-100">
+            <h3 className="text-sm font-semibold text-slate-800 mb-3">Values</h3>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Document locale</label>
+            <input 
+              type="text" 
+              value={extractionSettings.locale}
+              onChange={(e) => onExtractionSettingsChange(prev => ({...prev, locale: e.target.value.trim()}))}
+              placeholder="en-US"
+              list="settings-locales"
+              className={inputClass}
+            />
+            <datalist id="settings-locales">
+              {['en-US', 'en-GB', 'de-DE', 'fr-FR', 'es-ES', 'it-IT', 'nl-NL', 'pt-BR', 'ar-MA'].map(locale => <option key={locale} value={locale} />)}
+            </datalist>
+            <p className="text-xs text-slate-400 mt-1">Decides how ambiguous numbers and dates are read, e.g. 1.234 or 03/04/2024. Exports use canonical values.</p>
+            <label className="block text-sm font-medium text-slate-700 mb-1 mt-3">Review values below confidence (%)</label>
+            <input 
+              type="number" 
+              min={0}
+              max={100}
+              step={5}
+              value={Math.round(extractionSettings.confidenceThreshold * 100)}
+              onChange={(e) => onExtractionSettingsChange(prev => ({...prev, confidenceThreshold: Math.min(100, Math.max(0, Number(e.target.value) || 0)) / 100}))}
+              className={inputClass}
+            />
+          </div>
+
+          <div className="pt-4 border-t border-slate-100">
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="text-sm font-semibold text-slate-800 flex items-center gap-2">
+                <Calculator size={16} className="text-brand-600" />
+                Arithmetic Checks
+              </h3>
+              <label className="flex items-center gap-2 text-sm text-slate-600">
+                <input
+                  type="checkbox"
+                  checked={rules.enabled}
+                  onChange={(e) => updateArithmeticRules({ enabled: e.target.checked })}
+                  className="rounded border-slate-300 text-brand-600 focus:ring-brand-500"
+                />
+                Enabled
+              </label>
+            </div>
+            {rules.enabled && (
+              <>
+                <p className="text-xs text-slate-500 mb-3">
+                  Flags lines where quantity × unit price differs from the amount, lines that don't add up to the subtotal or total,
+                  and subtotal + tax that doesn't match the total. Columns and fields are found by any of the comma-separated names below.
+                </p>
+                <div className="grid grid-cols-[auto_1fr] gap-2 items-center">
+                  {(Object.keys(COLUMN_ROLE_LABELS) as ColumnRole[]).map(role => (
+                    <React.Fragment key={role}>
+                      <span className="text-sm text-slate-700">{COLUMN_ROLE_LABELS[role]} column</span>
+                      <input
+                        type="text"
+                        defaultValue={rules.columns[role].join(', ')}
+                        onBlur={(e) => updateArithmeticRules({ columns: { ...rules.columns, [role]: parseNames(e.target.value) } })}
+                        className="border border-slate-300 rounded-lg px-2 py-1.5 text-sm focus:ring-2 focus:ring-brand-500 outline-none"
+                      />
+                    </React.Fragment>
+                  ))}
+                  {(Object.keys(TOTAL_ROLE_LABELS) as TotalRole[]).map(role => (
+                    <React.Fragment key={role}>
+                      <span className="text-sm text-slate-700">{TOTAL_ROLE_LABELS[role]} field</span>
+                      <input
+                        type="text"
+                        defaultValue={rules.fields[role].join(', ')}
+                        onBlur={(e) => updateArithmeticRules({ fields: { ...rules.fields, [role]: parseNames(e.target.value) } })}
+                        className="border border-slate-300 rounded-lg px-2 py-1.5 text-sm focus:ring-2 focus:ring-brand-500 outline-none"
+                      />
+                    </React.Fragment>
+                  ))}
+                  <span className="text-sm text-slate-700">Tolerance</span>
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.01}
+                    value={rules.tolerance}
+                    onChange={(e) => updateArithmeticRules({ tolerance: Math.max(0, Number(e.target.value) || 0) })}
+                    className="border border-slate-300 rounded-lg px-2 py-1.5 text-sm focus:ring-2 focus:ring-brand-500 outline-none w-28"
+                  />
+                </div>
+              </>
+            )}
+          </div>
+
+          <div className="pt-4 border-t border-slate-100">
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="text-sm font-semibold text-slate-800 flex items-center gap-2">
+                <SlidersHorizontal size={16} className="text-brand-600" />
+                Image Preprocessing
+              </h3>
+              <label className="flex items-center gap-2 text-sm text-slate-600">
+                <input
+                  type="checkbox"
+                  checked={preprocessing.enabled}
+                  onChange={(e) => updatePreprocessing({ enabled: e.target.checked })}
+                  className="rounded border-slate-300 text-brand-600 focus:ring-brand-500"
+                />
+                Enabled
+              </label>
+            </div>
+            {preprocessing.enabled && (
+              <>
+                <p className="text-xs text-slate-500 mb-3">
+                  Pages are turned upright and prepared before extraction. Smaller images upload faster and use fewer tokens.
+                  Compare with the original from the preview.
+                </p>
+                <div className="space-y-2 mb-3">
+                  {([
+                    ['perspective', 'Crop to the page and correct perspective'],
+                    ['deskew', 'Straighten slightly rotated text'],
+                    ['contrast', 'Improve contrast of faded or dim photos'],
+                  ] as const).map(([key, label]) => (
+                    <label key={key} className="flex items-center gap-2 text-sm text-slate-700">
+                      <input
+                        type="checkbox"
+                        checked={preprocessing[key]}
+                        onChange={(e) => updatePreprocessing({ [key]: e.target.checked })}
+                        className="rounded border-slate-300 text-brand-600 focus:ring-brand-500"
+                      />
+                      {label}
+                    </label>
+                  ))}
+                </div>
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className="block text-sm font-medium text-slate-700 mb-1">Max resolution (px)</label>
+                    <input
+                      type="number"
+                      min={0}
+                      step={100}
+                      value={preprocessing.maxDimension}
+                      onChange={(e) => updatePreprocessing({ maxDimension: Math.max(0, Number(e.target.value) || 0) })}
+                      className={inputClass}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-slate-700 mb-1">Format</label>
+                    <select
+                      value={preprocessing.format}
+                      onChange={(e) => updatePreprocessing({ format: e.target.value as ImageFormat })}
+                      className={inputClass}
+                    >
+                      <option value="image/jpeg">JPEG</option>
+                      <option value="image/webp">WebP</option>
+                      <option value="image/png">PNG (lossless, larger)</option>
+                    </select>
+                  </div>
+                </div>
+                <p className="text-xs text-slate-400 mt-1">Longest side of each page; 0 keeps the original size.</p>
+              </>
+            )}
+          </div>
+
+          <div className="pt-4 border-t border-slate-100">
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="text-sm font-semibold text-slate-800 flex items-center gap-2">
+                <Database size={16} className="text-brand-600" />
+                Response Cache
+              </h3>
+              <label className="flex items-center gap-2 text-sm text-slate-600">
+                <input
+                  type="checkbox"
+                  checked={extractionSettings.cacheResponses}
+                  onChange={(e) => onExtractionSettingsChange(prev => ({ ...prev, cacheResponses: e.target.checked }))}
+                  className="rounded border-slate-300 text-brand-600 focus:ring-brand-500"
+                />
+                Enabled
+              </label>
+            </div>
+            <p className="text-xs text-slate-500 mb-3">
+              Model responses are kept by image, model and prompt, so extracting the same page again costs no API quota.
+              Use Re-extract on a result to call the model anyway.
+            </p>
+            <div className="flex items-center justify-between text-sm text-slate-700 bg-slate-50 rounded-lg px-3 py-2">
+              <span>
+                {cacheStats
+                  ? `${cacheStats.entries} ${cacheStats.entries === 1 ? 'response' : 'responses'}, ${formatBytes(cacheStats.bytes)}, reused ${cacheStats.hits} ${cacheStats.hits === 1 ? 'time' : 'times'}`
+                  : 'Loading...'}
+              </span>
+              <button
+                onClick={handleClearCache}
+                disabled={!cacheStats || cacheStats.entries === 0}
+                className="flex items-center gap-1 text-red-600 hover:text-red-700 disabled:opacity-40 text-sm font-medium"
+              >
+                <Trash2 size={14} /> Clear
+              </button>
+            </div>
+          </div>
+
+          <div className="pt-4 border-t border-slate-100">
+            <h3 className="text-sm font-semibold text-slate-800 mb-3">Batch Processing</h3>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Parallel documents</label>
+                <input 
+                  type="number" 
+                  min={1}
+                  max={10}
+                  value={extractionSettings.concurrency}
+                  onChange={(e) => onExtractionSettingsChange(prev => ({...prev, concurrency: Math.max(1, Number(e.target.value) || 1)}))}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Retries on rate limit</label>
+                <input 
+                  type="number" 
+                  min={0}
+                  max={8}
+                  value={extractionSettings.maxRetries}
+                  onChange={(e) => onExtractionSettingsChange(prev => ({...prev, maxRetries: Math.max(0, Number(e.target.value) || 0)}))}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+            <p className="text-xs text-slate-400 mt-1">Lower the parallel count if you hit API quota errors.</p>
+          </div>
+        </div>
+
+        <div className="mt-6 flex justify-end">
+          <button 
+            onClick={onClose}
+            className="bg-brand-600 hover:bg-brand-700 text-white px-4 py-2 rounded-lg font-medium transition-colors"
+          >
+            Save Configuration
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsModal;
@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import { RefreshCw, Upload } from 'lucide-react';
+import { DataChange } from '../types';
+import ChangeList from './ChangeList';
+
+interface SheetSyncModalProps {
+  changes: DataChange[]; // From the local data to the sheet
+  source: string; // Where the rows were read, for the header
+  onAccept: (changes: DataChange[]) => void;
+  onPush: () => void;
+  onClose: () => void;
+}
+
+const SheetSyncModal: React.FC<SheetSyncModalProps> = ({ changes, source, onAccept, onPush, onClose }) => {
+  const [selected, setSelected] = useState(() => changes.map(() => true));
+  const selectedChanges = changes.filter((_, i) => selected[i]);
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4 backdrop-blur-sm">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-3xl w-full max-h-[85vh] flex flex-col animate-in fade-in zoom-in duration-200">
+        <div className="flex justify-between items-center p-6 pb-4 border-b border-slate-100">
+          <div>
+            <h2 className="text-xl font-bold flex items-center gap-2">
+              <RefreshCw className="text-green-600" />
+              Changes in Sheet
+            </h2>
+            <p className="text-xs text-slate-400 mt-1">{source}</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">Close</button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-3">
+          {changes.length > 0 && (
+            <div className="flex justify-between items-center text-xs text-slate-500">
+              <span>Values edited in the sheet since the export. Accepted values replace the local ones.</span>
+              <button
+                onClick={() => setSelected(changes.map(() => !selected.every(Boolean)))}
+                className="text-brand-600 hover:text-brand-700 font-medium shrink-0 ml-2"
+              >
+                {selected.every(Boolean) ? 'Select none' : 'Select all'}
+              </button>
+            </div>
+          )}
+          <ChangeList
+            changes={changes}
+            selected={selected}
+            onToggle={(index) => setSelected(prev => prev.map((s, i) => (i === index ? !s : s)))}
+            emptyMessage="The sheet matches the local data."
+          />
+        </div>
+
+        <div className="flex justify-between items-center p-6 pt-4 border-t border-slate-100">
+          <button
+            onClick={onPush}
+            className="flex items-center gap-2 text-sm text-slate-600 hover:text-slate-800 px-3 py-2 rounded-lg border border-slate-200 hover:bg-slate-50"
+            title="Overwrite the sheet rows with the local data"
+          >
+            <Upload size={16} /> Push local data
+          </button>
+          <div className="flex gap-2">
+            <button onClick={onClose} className="text-slate-500 hover:text-slate-700 px-4 py-2">Cancel</button>
+            <button
+              onClick={() => onAccept(selectedChanges)}
+              disabled={selectedChanges.length === 0}
+              className="bg-green-600 hover:bg-green-700 disabled:opacity-50 text-white px-4 py-2 rounded-lg font-medium transition-colors"
+            >
+              Accept {selectedChanges.length > 0 ? selectedChanges.length : ''} {selectedChanges.length === 1 ? 'change' : 'changes'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SheetSyncModal;
@@ -0,0 +1,101 @@
+import React, { useEffect, useState } from 'react';
+import { Loader2, Plus, Search } from 'lucide-react';
+import { SheetsClient, SpreadsheetFile } from '../services/sheetsClient';
+
+interface SpreadsheetPickerProps {
+  client: SheetsClient;
+  onPick: (spreadsheet: SpreadsheetFile) => void;
+  onCancel: () => void;
+}
+
+const SpreadsheetPicker: React.FC<SpreadsheetPickerProps> = ({ client, onPick, onCancel }) => {
+  const [search, setSearch] = useState('');
+  const [files, setFiles] = useState<SpreadsheetFile[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [newTitle, setNewTitle] = useState('');
+  const [creating, setCreating] = useState(false);
+
+  // Search as the user types, dropping responses for outdated queries
+  useEffect(() => {
+    let stale = false;
+    const timer = setTimeout(() => {
+      setError(null);
+      client.listSpreadsheets(search)
+        .then(result => { if (!stale) setFiles(result); })
+        .catch(err => { if (!stale) setError(err.message); });
+    }, 300);
+    return () => {
+      stale = true;
+      clearTimeout(timer);
+    };
+  }, [client, search]);
+
+  const handleCreate = async () => {
+    if (!newTitle.trim()) return;
+    setCreating(true);
+    try {
+      onPick(await client.createSpreadsheet(newTitle.trim()));
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  return (
+    <div className="border border-slate-200 rounded-lg p-3 space-y-2 bg-slate-50">
+      <div className="relative">
+        <Search size={14} className="absolute left-2.5 top-1/2 -translate-y-1/2 text-slate-400" />
+        <input
+          autoFocus
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search your spreadsheets"
+          className="w-full border border-slate-300 rounded-lg pl-8 pr-2 py-1.5 text-sm focus:ring-2 focus:ring-brand-500 outline-none"
+        />
+      </div>
+
+      <div className="max-h-48 overflow-y-auto bg-white border border-slate-200 rounded-lg divide-y divide-slate-100">
+        {files === null && !error && (
+          <p className="flex items-center gap-2 text-xs text-slate-400 p-2"><Loader2 size={14} className="animate-spin" /> Loading...</p>
+        )}
+        {files?.length === 0 && <p className="text-xs text-slate-400 p-2">No spreadsheets found.</p>}
+        {files?.map(file => (
+          <button
+            key={file.id}
+            onClick={() => onPick(file)}
+            className="w-full text-left px-2 py-1.5 hover:bg-brand-50 flex justify-between gap-2"
+          >
+            <span className="text-sm text-slate-700 truncate">{file.name}</span>
+            {file.modifiedTime && (
+              <span className="text-xs text-slate-400 shrink-0">{new Date(file.modifiedTime).toLocaleDateString()}</span>
+            )}
+          </button>
+        ))}
+      </div>
+      {error && <p className="text-xs text-red-500">{error}</p>}
+
+      <div className="flex gap-2">
+        <input
+          value={newTitle}
+          onChange={(e) => setNewTitle(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+          placeholder="New spreadsheet name"
+          className="flex-1 border border-slate-300 rounded-lg px-2 py-1.5 text-sm focus:ring-2 focus:ring-brand-500 outline-none"
+        />
+        <button
+          onClick={handleCreate}
+          disabled={!newTitle.trim() || creating}
+          className="flex items-center gap-1 text-sm text-brand-600 hover:text-brand-700 font-medium px-2 disabled:opacity-50"
+        >
+          {creating ? <Loader2 size={14} className="animate-spin" /> : <Plus size={14} />} Create
+        </button>
+      </div>
+      <div className="text-right">
+        <button onClick={onCancel} className="text-xs text-slate-500 hover:text-slate-700">Cancel</button>
+      </div>
+    </div>
+  );
+};
+
+export default SpreadsheetPicker;
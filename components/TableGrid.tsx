@@ -0,0 +1,341 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ArrowDownToLine, Replace, Search, X } from 'lucide-react';
+import { Table } from '../types';
+import {
+  CellPosition, CellRange, fillDown, findCells, inRange, parseTsv, pasteCells, rangeOf, replaceInCells, toTsv, updateCells,
+} from '../services/gridService';
+
+interface TableGridProps {
+  table: Table;
+  onChange: (table: Table) => void;
+  cellClassName?: (row: number, column: number) => string;
+  cellTitle?: (row: number, column: number) => string | undefined;
+  onFocusCell?: (cell: CellPosition | null) => void; // The active cell while the grid has focus
+}
+
+// Rows have a fixed height so only the ones in view need rendering
+const ROW_HEIGHT = 32;
+const HEADER_HEIGHT = 32;
+const INDEX_WIDTH = 48;
+const COLUMN_WIDTH = 140;
+const OVERSCAN = 10;
+
+const TableGrid: React.FC<TableGridProps> = ({ table, onChange, cellClassName, cellTitle, onFocusCell }) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const editorRef = useRef<HTMLInputElement>(null);
+  const draggingRef = useRef(false);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(480);
+  const [anchor, setAnchor] = useState<CellPosition>({ row: 0, column: 0 });
+  const [cursor, setCursor] = useState<CellPosition>({ row: 0, column: 0 });
+  const [editing, setEditing] = useState<string | null>(null); // Draft value of the cursor cell
+  const [hasFocus, setHasFocus] = useState(false);
+  const [showFind, setShowFind] = useState(false);
+  const [query, setQuery] = useState('');
+  const [replacement, setReplacement] = useState('');
+  const [matchCase, setMatchCase] = useState(false);
+
+  const rowCount = table.rows.length;
+  const columnCount = table.headers.length;
+
+  // Rows or columns removed elsewhere (undo, delete) can leave the cursor outside
+  const clamp = (cell: CellPosition): CellPosition => ({
+    row: Math.max(0, Math.min(cell.row, rowCount - 1)),
+    column: Math.max(0, Math.min(cell.column, columnCount - 1)),
+  });
+  const active = clamp(cursor);
+  const selection = rangeOf(clamp(anchor), active);
+
+  const matches = useMemo(() => findCells(table, query, matchCase), [table, query, matchCase]);
+  const matchSet = useMemo(() => new Set(matches.map(m => `${m.row}:${m.column}`)), [matches]);
+
+  const firstRow = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const lastRow = Math.min(rowCount - 1, Math.ceil((scrollTop + viewportHeight) / ROW_HEIGHT) + OVERSCAN);
+
+  useEffect(() => {
+    const stopDragging = () => { draggingRef.current = false; };
+    window.addEventListener('mouseup', stopDragging);
+    return () => window.removeEventListener('mouseup', stopDragging);
+  }, []);
+
+  useEffect(() => {
+    if (scrollRef.current) setViewportHeight(scrollRef.current.clientHeight);
+  }, []);
+
+  useEffect(() => {
+    onFocusCell?.(hasFocus ? active : null);
+  }, [hasFocus, active.row, active.column]);
+
+  // Keeps the cursor cell in view; the sticky header covers the top of the viewport
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+    const top = active.row * ROW_HEIGHT;
+    if (top < el.scrollTop) el.scrollTop = top;
+    else if (HEADER_HEIGHT + top + ROW_HEIGHT > el.scrollTop + el.clientHeight) el.scrollTop = HEADER_HEIGHT + top + ROW_HEIGHT - el.clientHeight;
+    const left = INDEX_WIDTH + active.column * COLUMN_WIDTH;
+    if (left - INDEX_WIDTH < el.scrollLeft) el.scrollLeft = left - INDEX_WIDTH;
+    else if (left + COLUMN_WIDTH > el.scrollLeft + el.clientWidth) el.scrollLeft = left + COLUMN_WIDTH - el.clientWidth;
+  }, [active.row, active.column]);
+
+  useEffect(() => {
+    if (editing !== null) editorRef.current?.focus();
+  }, [editing !== null]);
+
+  const select = (cell: CellPosition, extend = false) => {
+    const next = clamp(cell);
+    setCursor(next);
+    if (!extend) setAnchor(next);
+  };
+
+  const commitEdit = (move?: { rows: number; columns: number }) => {
+    if (editing !== null) {
+      onChange(updateCells(table, rangeOf(active, active), () => editing));
+      setEditing(null);
+    }
+    if (move) {
+      select({ row: active.row + move.rows, column: active.column + move.columns });
+      scrollRef.current?.focus();
+    }
+  };
+
+  const cancelEdit = () => {
+    setEditing(null);
+    scrollRef.current?.focus();
+  };
+
+  const findNext = () => {
+    if (matches.length === 0) return;
+    const next = matches.find(m => m.row > active.row || (m.row === active.row && m.column > active.column)) ?? matches[0];
+    select(next);
+  };
+
+  const replaceCurrent = () => {
+    if (!matchSet.has(`${active.row}:${active.column}`)) return findNext();
+    onChange(replaceInCells(table, [active], query, replacement, matchCase));
+    findNext();
+  };
+
+  const replaceAll = () => onChange(replaceInCells(table, matches, query, replacement, matchCase));
+
+  // --- Keyboard ---
+
+  const handleEditorKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    e.stopPropagation();
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      commitEdit({ rows: e.shiftKey ? -1 : 1, columns: 0 });
+    } else if (e.key === 'Tab') {
+      e.preventDefault();
+      commitEdit({ rows: 0, columns: e.shiftKey ? -1 : 1 });
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      cancelEdit();
+    }
+  };
+
+  const handleGridKeyDown = (e: React.KeyboardEvent) => {
+    if (e.target !== scrollRef.current) return;
+    const mod = e.ctrlKey || e.metaKey;
+    const moves: Record<string, [number, number]> = {
+      ArrowUp: [-1, 0], ArrowDown: [1, 0], ArrowLeft: [0, -1], ArrowRight: [0, 1],
+    };
+
+    if (moves[e.key]) {
+      e.preventDefault();
+      const [rows, columns] = moves[e.key];
+      // Ctrl/Cmd jumps to the edge of the table
+      const target = mod
+        ? { row: rows ? (rows < 0 ? 0 : rowCount - 1) : active.row, column: columns ? (columns < 0 ? 0 : columnCount - 1) : active.column }
+        : { row: active.row + rows, column: active.column + columns };
+      select(target, e.shiftKey);
+    } else if (e.key === 'Tab') {
+      e.preventDefault();
+      const step = e.shiftKey ? -1 : 1;
+      const column = active.column + step;
+      // Wraps onto the next or previous row
+      if (column < 0) select({ row: active.row - 1, column: columnCount - 1 });
+      else if (column >= columnCount) select({ row: active.row + 1, column: 0 });
+      else select({ row: active.row, column });
+    } else if (e.key === 'Enter' || e.key === 'F2') {
+      e.preventDefault();
+      if (rowCount > 0) setEditing(table.rows[active.row].values[active.column] ?? '');
+    } else if (e.key === 'Delete' || e.key === 'Backspace') {
+      e.preventDefault();
+      onChange(updateCells(table, selection, () => ''));
+    } else if (e.key === 'Escape') {
+      setAnchor(active);
+      setShowFind(false);
+    } else if (mod && e.key.toLowerCase() === 'd') {
+      e.preventDefault();
+      onChange(fillDown(table, selection));
+    } else if (mod && e.key.toLowerCase() === 'f') {
+      e.preventDefault();
+      setShowFind(true);
+    } else if (mod && e.key.toLowerCase() === 'a') {
+      e.preventDefault();
+      setAnchor({ row: 0, column: 0 });
+      setCursor({ row: rowCount - 1, column: columnCount - 1 });
+    } else if (!mod && !e.altKey && e.key.length === 1 && rowCount > 0) {
+      // Typing replaces the cell, as in a spreadsheet
+      e.preventDefault();
+      setEditing(e.key);
+    }
+  };
+
+  // --- Clipboard ---
+
+  const handleCopy = (e: React.ClipboardEvent) => {
+    if (editing !== null) return;
+    e.preventDefault();
+    e.clipboardData.setData('text/plain', toTsv(table, selection));
+  };
+
+  const handleCut = (e: React.ClipboardEvent) => {
+    if (editing !== null) return;
+    handleCopy(e);
+    onChange(updateCells(table, selection, () => ''));
+  };
+
+  const handlePaste = (e: React.ClipboardEvent) => {
+    if (editing !== null) return;
+    e.preventDefault();
+    const block = parseTsv(e.clipboardData.getData('text/plain'));
+    const at = { row: selection.top, column: selection.left };
+    const pasted = pasteCells(table, at, block, selection);
+    onChange(pasted.table);
+    setAnchor({ row: pasted.range.top, column: pasted.range.left });
+    setCursor({ row: pasted.range.bottom, column: pasted.range.right });
+  };
+
+  // --- Render ---
+
+  const visibleRows: number[] = [];
+  for (let r = firstRow; r <= lastRow; r++) visibleRows.push(r);
+  const width = INDEX_WIDTH + columnCount * COLUMN_WIDTH;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2 text-xs text-slate-500 px-1">
+        <span className="flex-1">
+          {rowCount} rows · Enter or type to edit, Shift+arrows to select, Ctrl+D to fill down, paste from Excel or Sheets
+        </span>
+        <button
+          onClick={() => onChange(fillDown(table, selection))}
+          disabled={selection.top === selection.bottom}
+          className="flex items-center gap-1 hover:text-slate-800 disabled:opacity-40"
+          title="Fill down (Ctrl+D)"
+        >
+          <ArrowDownToLine size={12} /> Fill down
+        </button>
+        <button onClick={() => setShowFind(v => !v)} className="flex items-center gap-1 hover:text-slate-800" title="Find and replace (Ctrl+F)">
+          <Search size={12} /> Find
+        </button>
+      </div>
+
+      {showFind && (
+        <div className="flex flex-wrap items-center gap-2 bg-slate-50 border border-slate-200 rounded-lg p-2 text-xs">
+          <input
+            autoFocus
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && findNext()}
+            placeholder="Find"
+            className="border border-slate-300 rounded px-2 py-1 w-32 focus:ring-2 focus:ring-brand-500 outline-none"
+          />
+          <input
+            value={replacement}
+            onChange={(e) => setReplacement(e.target.value)}
+            placeholder="Replace with"
+            className="border border-slate-300 rounded px-2 py-1 w-32 focus:ring-2 focus:ring-brand-500 outline-none"
+          />
+          <label className="flex items-center gap-1 text-slate-600">
+            <input type="checkbox" checked={matchCase} onChange={(e) => setMatchCase(e.target.checked)} className="rounded" />
+            Match case
+          </label>
+          <span className="text-slate-400">{query ? `${matches.length} ${matches.length === 1 ? 'cell' : 'cells'}` : ''}</span>
+          <button onClick={findNext} disabled={matches.length === 0} className="text-brand-600 hover:text-brand-700 font-medium disabled:opacity-40">Next</button>
+          <button onClick={replaceCurrent} disabled={matches.length === 0} className="flex items-center gap-1 text-brand-600 hover:text-brand-700 font-medium disabled:opacity-40">
+            <Replace size={12} /> Replace
+          </button>
+          <button onClick={replaceAll} disabled={matches.length === 0} className="text-brand-600 hover:text-brand-700 font-medium disabled:opacity-40">Replace all</button>
+          <button onClick={() => setShowFind(false)} className="ml-auto text-slate-400 hover:text-slate-600"><X size={14} /></button>
+        </div>
+      )}
+
+      <div
+        ref={scrollRef}
+        tabIndex={0}
+        onKeyDown={handleGridKeyDown}
+        onCopy={handleCopy}
+        onCut={handleCut}
+        onPaste={handlePaste}
+        onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+        onFocus={() => setHasFocus(true)}
+        onBlur={(e) => {
+          if (!e.currentTarget.contains(e.relatedTarget as Node)) {
+            if (editing !== null) commitEdit();
+            setHasFocus(false);
+          }
+        }}
+        className="relative overflow-auto max-h-[480px] text-sm focus:outline-none focus:ring-2 focus:ring-brand-500/30 select-none"
+      >
+        <div style={{ width }} className="sticky top-0 z-10 flex bg-slate-50 border-b border-slate-200 text-xs font-bold text-slate-500 uppercase">
+          <div style={{ width: INDEX_WIDTH, height: HEADER_HEIGHT }} className="shrink-0 flex items-center px-2">#</div>
+          {table.headers.map((header, c) => (
+            <div key={c} style={{ width: COLUMN_WIDTH, height: HEADER_HEIGHT }} className="shrink-0 flex items-center px-2 truncate border-l border-slate-200" title={header}>
+              {header}
+            </div>
+          ))}
+        </div>
+
+        <div style={{ width, height: rowCount * ROW_HEIGHT }} className="relative">
+          {visibleRows.map(r => (
+            <div key={r} style={{ top: r * ROW_HEIGHT, height: ROW_HEIGHT }} className="absolute left-0 flex border-b border-slate-100">
+              <div style={{ width: INDEX_WIDTH }} className="shrink-0 flex items-center px-2 text-xs text-slate-400 font-mono">{r + 1}</div>
+              {table.headers.map((_, c) => {
+                const isCursor = r === active.row && c === active.column;
+                const value = table.rows[r].values[c] ?? '';
+                return (
+                  <div
+                    key={c}
+                    style={{ width: COLUMN_WIDTH }}
+                    onMouseDown={(e) => {
+                      if (isCursor && editing !== null) return;
+                      e.preventDefault();
+                      if (editing !== null) commitEdit();
+                      scrollRef.current?.focus();
+                      draggingRef.current = true;
+                      select({ row: r, column: c }, e.shiftKey);
+                    }}
+                    onMouseEnter={() => draggingRef.current && select({ row: r, column: c }, true)}
+                    onDoubleClick={() => setEditing(value)}
+                    title={cellTitle?.(r, c)}
+                    className={`shrink-0 relative flex items-center px-2 border-l border-slate-100 cursor-cell text-slate-700 ${
+                      inRange(selection, r, c) ? 'bg-brand-50' : matchSet.has(`${r}:${c}`) ? 'bg-yellow-100' : ''
+                    } ${isCursor ? 'ring-2 ring-inset ring-brand-500' : ''} ${cellClassName?.(r, c) ?? ''}`}
+                  >
+                    {isCursor && editing !== null ? (
+                      <input
+                        ref={editorRef}
+                        value={editing}
+                        onChange={(e) => setEditing(e.target.value)}
+                        onKeyDown={handleEditorKeyDown}
+                        className="absolute inset-0 w-full px-2 bg-white text-slate-800 focus:outline-none ring-2 ring-brand-500"
+                      />
+                    ) : (
+                      <span className="truncate">{value}</span>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+        {rowCount === 0 && <p className="text-xs text-slate-400 text-center py-6">No rows yet. Add a row, or paste cells from a spreadsheet.</p>}
+      </div>
+    </div>
+  );
+};
+
+export default TableGrid;
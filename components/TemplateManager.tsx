@@ -0,0 +1,304 @@
+import React, { useRef, useState } from 'react';
+import { LayoutTemplate, Plus, Trash2, Copy, Upload, Download, Save } from 'lucide-react';
+import { DocumentTemplate, FieldType, TemplateColumn, TemplateField, TemplateTable } from '../types';
+import { mergeImportedTemplates, parseTemplatesJson, templatesToJson } from '../services/templateService';
+import { FIELD_TYPES, FIELD_TYPE_LABELS } from '../services/valueService';
+
+interface TemplateManagerProps {
+  templates: DocumentTemplate[];
+  onChange: (templates: DocumentTemplate[]) => void;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full border border-slate-300 rounded-lg px-2 py-1 text-sm focus:ring-2 focus:ring-brand-500 outline-none';
+
+const emptyTemplate = (): DocumentTemplate => ({
+  id: `template-${Date.now()}`,
+  name: 'New template',
+  description: '',
+  version: 0,
+  allowExtra: false,
+  fields: [{ label: 'Document Number', type: 'text', required: true, synonyms: [] }],
+  tables: [],
+});
+
+// Kept loose while typing so a trailing comma survives; cleaned up on save
+const parseSynonyms = (text: string) => text.split(',').map(s => s.trimStart());
+const cleanSynonyms = (synonyms: string[]) => synonyms.map(s => s.trim()).filter(Boolean);
+
+const TypeSelect: React.FC<{ value: FieldType; onChange: (type: FieldType) => void }> = ({ value, onChange }) => (
+  <select value={value} onChange={(e) => onChange(e.target.value as FieldType)} className={inputClass}>
+    {FIELD_TYPES.map(type => <option key={type} value={type}>{FIELD_TYPE_LABELS[type]}</option>)}
+  </select>
+);
+
+const TemplateManager: React.FC<TemplateManagerProps> = ({ templates, onChange, onClose }) => {
+  const [draft, setDraft] = useState<DocumentTemplate | null>(templates[0] ?? null);
+  const [message, setMessage] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const isSaved = draft !== null && templates.some(t => t.id === draft.id);
+  const isDirty = draft !== null && JSON.stringify(draft) !== JSON.stringify(templates.find(t => t.id === draft.id));
+
+  const selectTemplate = (template: DocumentTemplate) => {
+    if (isDirty && !window.confirm('Discard unsaved changes?')) return;
+    setDraft(template);
+    setMessage(null);
+  };
+
+  // --- Draft Editing ---
+
+  const update = (updates: Partial<DocumentTemplate>) => setDraft(prev => (prev ? { ...prev, ...updates } : prev));
+
+  const updateField = (index: number, updates: Partial<TemplateField>) => {
+    if (!draft) return;
+    update({ fields: draft.fields.map((f, i) => (i === index ? { ...f, ...updates } : f)) });
+  };
+
+  const updateTable = (index: number, updates: Partial<TemplateTable>) => {
+    if (!draft) return;
+    update({ tables: draft.tables.map((t, i) => (i === index ? { ...t, ...updates } : t)) });
+  };
+
+  const updateColumn = (tableIndex: number, columnIndex: number, updates: Partial<TemplateColumn>) => {
+    if (!draft) return;
+    const table = draft.tables[tableIndex];
+    updateTable(tableIndex, { columns: table.columns.map((c, i) => (i === columnIndex ? { ...c, ...updates } : c)) });
+  };
+
+  // --- Template Actions ---
+
+  const handleSave = () => {
+    if (!draft) return;
+    const name = draft.name.trim();
+    if (!name) {
+      setMessage('The template needs a name.');
+      return;
+    }
+    if (draft.fields.some(f => !f.label.trim()) || draft.tables.some(t => !t.name.trim() || t.columns.some(c => !c.name.trim()))) {
+      setMessage('Every field, table and column needs a name.');
+      return;
+    }
+
+    const saved: DocumentTemplate = {
+      ...draft,
+      name,
+      version: draft.version + 1,
+      fields: draft.fields.map(f => ({ ...f, synonyms: cleanSynonyms(f.synonyms) })),
+      tables: draft.tables.map(t => ({ ...t, columns: t.columns.map(c => ({ ...c, synonyms: cleanSynonyms(c.synonyms) })) })),
+    };
+    onChange(isSaved ? templates.map(t => (t.id === saved.id ? saved : t)) : [...templates, saved]);
+    setDraft(saved);
+    setMessage(`Saved as version ${saved.version}.`);
+  };
+
+  const handleDelete = () => {
+    if (!draft) return;
+    if (!window.confirm(`Delete template "${draft.name}"?`)) return;
+    const remaining = templates.filter(t => t.id !== draft.id);
+    onChange(remaining);
+    setDraft(remaining[0] ?? null);
+    setMessage(null);
+  };
+
+  const handleDuplicate = () => {
+    if (!draft) return;
+    setDraft({ ...structuredClone(draft), id: `template-${Date.now()}`, name: `${draft.name} (copy)`, version: 0 });
+    setMessage(null);
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([templatesToJson(templates)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'lenslogic-templates.json';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parseTemplatesJson(await file.text());
+      onChange(mergeImportedTemplates(templates, imported));
+      setMessage(`Imported ${imported.length} template${imported.length === 1 ? '' : 's'}.`);
+    } catch (error: any) {
+      setMessage(`Import failed: ${error.message}`);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4 backdrop-blur-sm">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-5xl w-full h-[85vh] flex flex-col animate-in fade-in zoom-in duration-200">
+        <div className="flex justify-between items-center p-6 pb-4 border-b border-slate-100">
+          <h2 className="text-xl font-bold flex items-center gap-2">
+            <LayoutTemplate className="text-brand-600" />
+            Document Templates
+          </h2>
+          <div className="flex items-center gap-2">
+            <button onClick={() => fileInputRef.current?.click()} className="flex items-center gap-1 text-sm text-slate-600 hover:text-slate-800 px-2 py-1">
+              <Upload size={16} /> Import
+            </button>
+            <button onClick={handleExport} disabled={templates.length === 0} className="flex items-center gap-1 text-sm text-slate-600 hover:text-slate-800 px-2 py-1 disabled:opacity-50">
+              <Download size={16} /> Export
+            </button>
+            <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+            <button onClick={onClose} className="text-slate-400 hover:text-slate-600 ml-2">Close</button>
+          </div>
+        </div>
+
+        <div className="flex-1 flex min-h-0">
+          <aside className="w-56 border-r border-slate-100 p-3 overflow-y-auto space-y-1 shrink-0">
+            {templates.map(template => (
+              <button
+                key={template.id}
+                onClick={() => selectTemplate(template)}
+                className={`w-full text-left px-3 py-2 rounded-lg text-sm ${
+                  draft?.id === template.id ? 'bg-brand-50 text-brand-700 font-medium' : 'text-slate-600 hover:bg-slate-50'
+                }`}
+              >
+                {template.name}
+                <span className="block text-xs text-slate-400">v{template.version} · {template.fields.length} fields</span>
+              </button>
+            ))}
+            <button
+              onClick={() => selectTemplate(emptyTemplate())}
+              className="w-full flex items-center gap-1 px-3 py-2 text-sm text-brand-600 hover:text-brand-700 font-medium"
+            >
+              <Plus size={14} /> New template
+            </button>
+          </aside>
+
+          {draft ? (
+            <div className="flex-1 overflow-y-auto p-6 space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">Name</label>
+                  <input value={draft.name} onChange={(e) => update({ name: e.target.value })} className={inputClass} />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">Description</label>
+                  <input value={draft.description} onChange={(e) => update({ description: e.target.value })} className={inputClass} placeholder="Shown to the model as context" />
+                </div>
+              </div>
+              <label className="flex items-center gap-2 text-sm text-slate-600">
+                <input type="checkbox" checked={draft.allowExtra} onChange={(e) => update({ allowExtra: e.target.checked })} />
+                Keep fields, columns and tables not defined in this template
+              </label>
+
+              {/* FIELDS */}
+              <div className="space-y-2">
+                <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider">Fields</h4>
+                <div className="grid grid-cols-[1fr_110px_80px_1.5fr_32px] gap-2 text-xs text-slate-400 px-1">
+                  <span>Label</span><span>Type</span><span>Required</span><span>Synonyms (comma-separated)</span><span />
+                </div>
+                {draft.fields.map((field, i) => (
+                  <div key={`${draft.id}-field-${i}`} className="grid grid-cols-[1fr_110px_80px_1.5fr_32px] gap-2 items-center">
+                    <input value={field.label} onChange={(e) => updateField(i, { label: e.target.value })} className={inputClass} />
+                    <TypeSelect value={field.type} onChange={(type) => updateField(i, { type })} />
+                    <input type="checkbox" checked={field.required} onChange={(e) => updateField(i, { required: e.target.checked })} className="justify-self-center" />
+                    <input
+                      value={field.synonyms.join(', ')}
+                      onChange={(e) => updateField(i, { synonyms: parseSynonyms(e.target.value) })}
+                      className={inputClass}
+                    />
+                    <button onClick={() => update({ fields: draft.fields.filter((_, j) => j !== i) })} className="text-slate-300 hover:text-red-500 p-1">
+                      <Trash2 size={16} />
+                    </button>
+                  </div>
+                ))}
+                <button
+                  onClick={() => update({ fields: [...draft.fields, { label: '', type: 'text', required: false, synonyms: [] }] })}
+                  className="text-xs flex items-center gap-1 text-brand-600 hover:text-brand-700 font-medium px-1"
+                >
+                  <Plus size={14} /> Add Field
+                </button>
+              </div>
+
+              {/* TABLES */}
+              <div className="space-y-4">
+                <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider">Tables</h4>
+                {draft.tables.map((table, tIdx) => (
+                  <div key={`${draft.id}-table-${tIdx}`} className="border border-slate-200 rounded-lg p-3 space-y-2">
+                    <div className="flex items-center gap-2">
+                      <input value={table.name} onChange={(e) => updateTable(tIdx, { name: e.target.value })} className={`${inputClass} font-medium`} placeholder="Table name" />
+                      <button onClick={() => update({ tables: draft.tables.filter((_, j) => j !== tIdx) })} className="text-slate-300 hover:text-red-500 p-1">
+                        <Trash2 size={16} />
+                      </button>
+                    </div>
+                    {table.columns.map((column, cIdx) => (
+                      <div key={`${draft.id}-table-${tIdx}-col-${cIdx}`} className="grid grid-cols-[1fr_110px_80px_1.5fr_32px] gap-2 items-center">
+                        <input value={column.name} onChange={(e) => updateColumn(tIdx, cIdx, { name: e.target.value })} className={inputClass} placeholder="Column" />
+                        <TypeSelect value={column.type} onChange={(type) => updateColumn(tIdx, cIdx, { type })} />
+                        <input type="checkbox" checked={column.required} onChange={(e) => updateColumn(tIdx, cIdx, { required: e.target.checked })} className="justify-self-center" />
+                        <input
+                          value={column.synonyms.join(', ')}
+                          onChange={(e) => updateColumn(tIdx, cIdx, { synonyms: parseSynonyms(e.target.value) })}
+                          className={inputClass}
+                        />
+                        <button
+                          onClick={() => updateTable(tIdx, { columns: table.columns.filter((_, j) => j !== cIdx) })}
+                          className="text-slate-300 hover:text-red-500 p-1"
+                        >
+                          <Trash2 size={16} />
+                        </button>
+                      </div>
+                    ))}
+                    <button
+                      onClick={() => updateTable(tIdx, { columns: [...table.columns, { name: '', type: 'text', required: false, synonyms: [] }] })}
+                      className="text-xs flex items-center gap-1 text-brand-600 hover:text-brand-700 font-medium"
+                    >
+                      <Plus size={14} /> Add Column
+                    </button>
+                  </div>
+                ))}
+                <button
+                  onClick={() => update({ tables: [...draft.tables, { name: '', columns: [] }] })}
+                  className="text-xs flex items-center gap-1 text-brand-600 hover:text-brand-700 font-medium px-1"
+                >
+                  <Plus size={14} /> Add Table
+                </button>
+              </div>
+            </div>
+          ) : (
+            <div className="flex-1 flex items-center justify-center text-slate-400 text-sm">
+              Create a template to get consistent field labels across documents.
+            </div>
+          )}
+        </div>
+
+        {draft && (
+          <div className="flex items-center justify-between gap-3 p-4 border-t border-slate-100">
+            <p className="text-sm text-slate-500">{message}</p>
+            <div className="flex items-center gap-2">
+              {isSaved && (
+                <>
+                  <button onClick={handleDelete} className="flex items-center gap-1 px-3 py-2 text-sm text-red-600 hover:bg-red-50 rounded-lg">
+                    <Trash2 size={16} /> Delete
+                  </button>
+                  <button onClick={handleDuplicate} className="flex items-center gap-1 px-3 py-2 text-sm text-slate-600 hover:bg-slate-50 rounded-lg">
+                    <Copy size={16} /> Duplicate
+                  </button>
+                </>
+              )}
+              <button
+                onClick={handleSave}
+                disabled={!isDirty}
+                className="flex items-center gap-1 bg-brand-600 hover:bg-brand-700 text-white px-4 py-2 rounded-lg font-medium transition-colors disabled:opacity-50"
+              >
+                <Save size={16} /> Save
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TemplateManager;
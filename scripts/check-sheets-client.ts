@@ -0,0 +1,178 @@
+/**
+ * Runs the Sheets client against a local mock of the Sheets API and checks
+ * the requests it sends and how it reads the replies, including retries
+ * after a rate limit and the token refresh after a 401.
+ *
+ *   npm run check:sheets
+ *
+ * Needs no Google account or network; the mock listens on a free local port.
+ */
+import assert from "node:assert/strict";
+import { createServer, IncomingMessage, ServerResponse } from "node:http";
+import { AddressInfo } from "node:net";
+import { CellValue, createSheetsClient, SheetsNotFoundError, SheetsRateLimitError } from "../services/sheetsClient";
+
+interface RecordedRequest {
+  method: string;
+  path: string; // Decoded, with the query string
+  authorization?: string;
+  body?: any;
+}
+
+// Status codes the mock answers with before handling a path normally, by path prefix
+type Failures = Map<string, number[]>;
+
+// --- Mock Server ---
+
+const SPREADSHEET_ID = "sheet-123";
+
+const createMockSheets = () => {
+  const requests: RecordedRequest[] = [];
+  const failures: Failures = new Map();
+  const sheets = [{ sheetId: 0, title: "Sheet1", index: 0 }];
+  const appended: CellValue[][] = [];
+
+  const reply = (res: ServerResponse, status: number, body: unknown) => {
+    res.writeHead(status, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(body));
+  };
+
+  const handle = (req: IncomingMessage, res: ServerResponse, body: any) => {
+    const path = decodeURIComponent(req.url ?? "");
+    requests.push({ method: req.method ?? "", path, authorization: req.headers.authorization, body });
+
+    const prefix = [...failures.keys()].find(p => path.startsWith(p));
+    const status = prefix && failures.get(prefix).shift();
+    if (status) {
+      return reply(res, status, { error: { code: status, message: `Mock failure ${status}`, status: "MOCK" } });
+    }
+    if (req.headers.authorization === "Bearer expired") {
+      return reply(res, 401, { error: { code: 401, message: "Token expired", status: "UNAUTHENTICATED" } });
+    }
+
+    if (req.method === "GET" && path.startsWith(`/${SPREADSHEET_ID}?`)) {
+      return reply(res, 200, { sheets: sheets.map(properties => ({ properties })) });
+    }
+    if (req.method === "POST" && path === `/${SPREADSHEET_ID}:batchUpdate`) {
+      const replies = body.requests.map((request: any) => {
+        if (!request.addSheet) return {};
+        const properties = { sheetId: sheets.length, title: request.addSheet.properties.title, index: sheets.length };
+        sheets.push(properties);
+        return { addSheet: { properties } };
+      });
+      return reply(res, 200, { spreadsheetId: SPREADSHEET_ID, replies });
+    }
+    if (req.method === "POST" && path.startsWith(`/${SPREADSHEET_ID}/values/`) && path.includes(":append?")) {
+      appended.push(...body.values);
+      return reply(res, 200, { updates: { updatedRows: body.values.length } });
+    }
+    reply(res, 404, { error: { code: 404, message: "Requested entity was not found.", status: "NOT_FOUND" } });
+  };
+
+  const server = createServer((req, res) => {
+    let text = "";
+    req.on("data", chunk => { text += chunk; });
+    req.on("end", () => handle(req, res, text ? JSON.parse(text) : undefined));
+  });
+
+  return { server, requests, failures, sheets, appended };
+};
+
+// --- Checks ---
+
+const main = async () => {
+  const mock = createMockSheets();
+  await new Promise<void>(resolve => mock.server.listen(0, "127.0.0.1", resolve));
+  const { port } = mock.server.address() as AddressInfo;
+
+  const tokenRequests: boolean[] = [];
+  let token = "valid";
+  const client = createSheetsClient({
+    getAccessToken: async (forceRefresh) => {
+      tokenRequests.push(!!forceRefresh);
+      if (forceRefresh) token = "valid";
+      return token;
+    },
+    baseUrl: `http://127.0.0.1:${port}/`,
+    baseDelayMs: 1,
+  });
+
+  const checks: [string, () => Promise<void>][] = [
+    ["getSheets reads sheet properties and sends the token", async () => {
+      const sheets = await client.getSheets(SPREADSHEET_ID);
+      assert.deepEqual(sheets.map(s => s.title), ["Sheet1"]);
+      const request = mock.requests.at(-1);
+      assert.equal(request.method, "GET");
+      assert.equal(request.path, `/${SPREADSHEET_ID}?fields=sheets.properties`);
+      assert.equal(request.authorization, "Bearer valid");
+    }],
+    ["batchUpdate sends the requests and returns one reply each", async () => {
+      const result = await client.batchUpdate(SPREADSHEET_ID, [
+        { addSheet: { properties: { title: "Invoices" } } },
+        { updateDimensionProperties: {} },
+      ]);
+      assert.equal(result.replies.length, 2);
+      assert.equal(result.replies[0].addSheet.properties.title, "Invoices");
+      assert.deepEqual(mock.sheets.map(s => s.title), ["Sheet1", "Invoices"]);
+    }],
+    ["batchUpdate with no requests makes no call", async () => {
+      const before = mock.requests.length;
+      assert.deepEqual(await client.batchUpdate(SPREADSHEET_ID, []), { replies: [] });
+      assert.equal(mock.requests.length, before);
+    }],
+    ["appendValues posts rows with USER_ENTERED parsing", async () => {
+      await client.appendValues(SPREADSHEET_ID, "'Invoices'!A1", [["INV-1", "12.50"], ["INV-2", null]]);
+      const request = mock.requests.at(-1);
+      assert.equal(request.method, "POST");
+      assert.equal(request.path, `/${SPREADSHEET_ID}/values/'Invoices'!A1:append?valueInputOption=USER_ENTERED&insertDataOption=INSERT_ROWS`);
+      assert.equal(request.body.majorDimension, "ROWS");
+      assert.deepEqual(mock.appended, [["INV-1", "12.50"], ["INV-2", null]]);
+    }],
+    ["a 429 is retried until the request succeeds", async () => {
+      mock.failures.set(`/${SPREADSHEET_ID}:batchUpdate`, [429, 429]);
+      const before = mock.requests.length;
+      const result = await client.batchUpdate(SPREADSHEET_ID, [{ addSheet: { properties: { title: "Retried" } } }]);
+      assert.equal(result.replies[0].addSheet.properties.title, "Retried");
+      assert.equal(mock.requests.length - before, 3);
+    }],
+    ["a 429 that persists surfaces as SheetsRateLimitError", async () => {
+      mock.failures.set(`/${SPREADSHEET_ID}/values/`, [429, 429, 429, 429]);
+      const before = mock.requests.length;
+      await assert.rejects(client.appendValues(SPREADSHEET_ID, "Sheet1!A1", [["x"]]), SheetsRateLimitError);
+      assert.equal(mock.requests.length - before, 4); // The first try and three retries
+    }],
+    ["a 401 is retried once with a refreshed token", async () => {
+      token = "expired";
+      tokenRequests.length = 0;
+      const sheets = await client.getSheets(SPREADSHEET_ID);
+      assert.ok(sheets.length > 0);
+      assert.deepEqual(tokenRequests, [false, true]);
+      assert.equal(mock.requests.at(-1).authorization, "Bearer valid");
+    }],
+    ["a 404 surfaces as SheetsNotFoundError without retrying", async () => {
+      const before = mock.requests.length;
+      await assert.rejects(client.getSheets("missing"), SheetsNotFoundError);
+      assert.equal(mock.requests.length - before, 1);
+    }],
+  ];
+
+  let failed = 0;
+  for (const [name, check] of checks) {
+    try {
+      await check();
+      console.log(`ok - ${name}`);
+    } catch (error: any) {
+      failed++;
+      console.log(`FAILED - ${name}\n  ${error.message}`);
+    }
+  }
+  mock.server.close();
+
+  console.log(`\n${checks.length - failed} of ${checks.length} checks passed`);
+  if (failed > 0) process.exit(1);
+};
+
+main().catch(error => {
+  console.error(error.stack ?? String(error));
+  process.exit(1);
+});
@@ -0,0 +1,217 @@
+/**
+ * Golden-set evaluation of extraction accuracy.
+ *
+ * Runs every image in a folder through `extractDataFromImage` and scores the
+ * result against the expected data saved next to it (`invoice-1.jpg` is
+ * checked against `invoice-1.json`, an `ExtractedData` object). Prints the
+ * totals and saves a JSON report, so runs with different prompts or models
+ * can be diffed.
+ *
+ *   npm run evaluate -- <folder> [options]
+ *
+ *   --provider gemini|openai|mock  Provider to call (default: gemini)
+ *   --model <name>                 Model (default: the provider's default)
+ *   --base-url <url>               Endpoint for the OpenAI-compatible provider
+ *   --template <id>                Extract with a template instead of the generic prompt
+ *   --templates <file>             Templates exported from the app, to look `--template` up in
+ *   --record <file>                Save provider responses to a recording
+ *   --replay <file>                Answer from a recording only, without calling the provider
+ *   --out <dir>                    Where reports are written (default: evaluation-reports)
+ *   --baseline <report>            Show the change from an earlier report
+ *
+ * API keys come from GEMINI_API_KEY (or VITE_GOOGLE_API_KEY) and OPENAI_API_KEY.
+ * Recordings are keyed by image, provider, model and prompt, so a replay must
+ * use the same provider and model as the run that recorded it; a changed
+ * prompt needs a new recording.
+ */
+import { existsSync } from "node:fs";
+import { mkdir, readdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { parseArgs } from "node:util";
+import { DocumentTemplate, ExtractionProvider, ProviderId, ResponseCache } from "../types";
+import { extractDataFromImage, normalizeExtractedData } from "../services/extractionService";
+import { EXTRACTION_PROMPT, EXTRACTION_SCHEMA } from "../services/extractionPrompts";
+import { BUILT_IN_TEMPLATES, buildTemplatePrompt, buildTemplateSchema, parseTemplatesJson } from "../services/templateService";
+import { DocumentScore, EvaluationSummary, failedDocument, scoreDocument, summarizeScores } from "../services/evaluationService";
+import { withRetry } from "../services/extractionQueue";
+import { sha256Hex } from "../services/imageService";
+import { createProvider, DEFAULT_PROVIDER_CONFIGS, PROVIDER_LABELS } from "../services/providers";
+import { withResponseCache } from "../services/providers/cachedProvider";
+
+const IMAGE_TYPES: Record<string, string> = {
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".png": "image/png",
+  ".webp": "image/webp",
+};
+
+const MAX_RETRIES = 3;
+
+interface EvaluationReport {
+  createdAt: string;
+  provider: ProviderId;
+  model: string;
+  template: string | null;
+  promptHash: string; // Changes whenever the prompt or schema does
+  summary: EvaluationSummary;
+  documents: DocumentScore[];
+}
+
+const fail = (message: string): never => {
+  console.error(message);
+  process.exit(1);
+};
+
+// --- Recordings ---
+
+// Provider responses in a JSON file, by request key
+const openRecording = async (file: string) => {
+  const responses: Record<string, unknown> = existsSync(file) ? JSON.parse(await readFile(file, "utf8")) : {};
+  const cache: ResponseCache = {
+    get: async (key) => responses[key],
+    put: async (key, response) => {
+      responses[key] = response;
+    },
+  };
+  const save = () => {
+    const sorted = Object.fromEntries(Object.keys(responses).sort().map(key => [key, responses[key]]));
+    return writeFile(file, `${JSON.stringify(sorted, null, 2)}\n`);
+  };
+  return { cache, save };
+};
+
+// Stands in for the provider on a replay, so a missing recording fails loudly
+const unrecorded = (provider: ExtractionProvider): ExtractionProvider => ({
+  ...provider,
+  extract: async () => {
+    throw new Error("No recorded response for this request. Record one with --record first.");
+  },
+});
+
+// --- Output ---
+
+// null when there was nothing to score, e.g. cells of a golden set without tables
+const percent = (value: number | null) => (value === null ? "N/A" : `${(value * 100).toFixed(1)}%`);
+
+const METRICS: [keyof EvaluationSummary, string][] = [
+  ["fieldPrecision", "Field precision"],
+  ["fieldRecall", "Field recall"],
+  ["fieldF1", "Field F1"],
+  ["headerMatch", "Header match"],
+  ["cellAccuracy", "Cell accuracy"],
+  ["cellPrecision", "Cell precision"],
+];
+
+const printSummary = (summary: EvaluationSummary, baseline?: EvaluationSummary) => {
+  console.log(`\n${summary.documents} documents, ${summary.failed} failed`);
+  METRICS.forEach(([key, label]) => {
+    const value = summary[key];
+    // Reports from before a metric existed have no value for it
+    const before = baseline?.[key] ?? null;
+    const delta = value !== null && before !== null ? value - before : null;
+    const change = delta !== null ? `  (${delta >= 0 ? "+" : ""}${(delta * 100).toFixed(1)})` : "";
+    console.log(`  ${label.padEnd(16)} ${percent(value).padStart(6)}${change}`);
+  });
+};
+
+const fileStamp = (date: Date) => date.toISOString().replace(/[:.]/g, "-").slice(0, 19);
+
+// --- Main ---
+
+const main = async () => {
+  const { values: options, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      provider: { type: "string", default: "gemini" },
+      model: { type: "string" },
+      "base-url": { type: "string" },
+      template: { type: "string" },
+      templates: { type: "string" },
+      record: { type: "string" },
+      replay: { type: "string" },
+      out: { type: "string", default: "evaluation-reports" },
+      baseline: { type: "string" },
+    },
+  });
+
+  const folder = positionals[0] ?? fail("Usage: npm run evaluate -- <folder> [options]. See scripts/evaluate.ts for the options.");
+  const providerId = options.provider as ProviderId;
+  if (!(providerId in PROVIDER_LABELS)) fail(`Unknown provider "${providerId}". Use one of: ${Object.keys(PROVIDER_LABELS).join(", ")}.`);
+  if (options.record && options.replay) fail("Use either --record or --replay, not both.");
+
+  let template: DocumentTemplate | null = null;
+  if (options.template) {
+    const templates = options.templates
+      ? [...parseTemplatesJson(await readFile(options.templates, "utf8")), ...BUILT_IN_TEMPLATES]
+      : BUILT_IN_TEMPLATES;
+    template = templates.find(t => t.id === options.template) ?? fail(`No template with id "${options.template}".`);
+  }
+
+  const defaults = DEFAULT_PROVIDER_CONFIGS[providerId];
+  const baseProvider = createProvider(providerId, {
+    ...defaults,
+    model: options.model ?? defaults.model,
+    baseUrl: options["base-url"] ?? defaults.baseUrl,
+    apiKey: (providerId === "gemini" ? process.env.GEMINI_API_KEY ?? process.env.VITE_GOOGLE_API_KEY : process.env.OPENAI_API_KEY) ?? "",
+  });
+  const recording = options.record ?? options.replay;
+  const recorder = recording ? await openRecording(recording) : null;
+  const provider = recorder
+    ? withResponseCache(options.replay ? unrecorded(baseProvider) : baseProvider, recorder.cache)
+    : baseProvider;
+
+  const images = (await readdir(folder)).filter(file => path.extname(file).toLowerCase() in IMAGE_TYPES).sort();
+  if (images.length === 0) fail(`No images found in ${folder}.`);
+
+  const signal = new AbortController().signal;
+  const scores: DocumentScore[] = [];
+  for (const file of images) {
+    const name = path.basename(file, path.extname(file));
+    const expectedFile = path.join(folder, `${name}.json`);
+    if (!existsSync(expectedFile)) {
+      console.warn(`Skipping ${file}: no ${name}.json with the expected data.`);
+      continue;
+    }
+    const expected = normalizeExtractedData(JSON.parse(await readFile(expectedFile, "utf8")));
+    const image = `data:${IMAGE_TYPES[path.extname(file).toLowerCase()]};base64,${(await readFile(path.join(folder, file))).toString("base64")}`;
+
+    try {
+      const actual = await withRetry(() => extractDataFromImage(image, provider, { signal, template }), {
+        maxRetries: MAX_RETRIES,
+        signal,
+        onRetry: (attempt, delayMs) => console.warn(`  ${file}: retrying in ${Math.ceil(delayMs / 1000)}s (attempt ${attempt}/${MAX_RETRIES})`),
+      });
+      const score = scoreDocument(file, expected, actual);
+      scores.push(score);
+      console.log(`${file}: ${score.mismatches.length === 0 ? "exact" : `${score.mismatches.length} ${score.mismatches.length === 1 ? "mismatch" : "mismatches"}`}`);
+    } catch (error: any) {
+      scores.push(failedDocument(file, expected, error.message ?? String(error)));
+      console.log(`${file}: failed (${error.message})`);
+    }
+  }
+  if (options.record) await recorder.save();
+
+  const prompt = template ? buildTemplatePrompt(template) : EXTRACTION_PROMPT;
+  const schema = template ? buildTemplateSchema(template) : EXTRACTION_SCHEMA;
+  const createdAt = new Date();
+  const report: EvaluationReport = {
+    createdAt: createdAt.toISOString(),
+    provider: providerId,
+    model: baseProvider.model,
+    template: template?.id ?? null,
+    promptHash: (await sha256Hex(`${prompt}\n${JSON.stringify(schema)}`)).slice(0, 12),
+    summary: summarizeScores(scores),
+    documents: scores,
+  };
+
+  const baseline: EvaluationReport | undefined = options.baseline ? JSON.parse(await readFile(options.baseline, "utf8")) : undefined;
+  printSummary(report.summary, baseline?.summary);
+  if (baseline && baseline.promptHash !== report.promptHash) console.log(`  Prompt changed since the baseline (${baseline.promptHash} → ${report.promptHash})`);
+
+  await mkdir(options.out, { recursive: true });
+  const reportFile = path.join(options.out, `${fileStamp(createdAt)}-${providerId}-${report.model.replace(/[^\w.-]+/g, "_")}-${report.promptHash}.json`);
+  await writeFile(reportFile, `${JSON.stringify(report, null, 2)}\n`);
+  console.log(`\nReport saved to ${reportFile}`);
+};
+
+main().catch(error => fail(error.stack ?? String(error)));
@@ -0,0 +1,50 @@
+import { DocumentClassification, DocumentType, ExtractionProvider, ResponseSchema } from "../types";
+
+export const DOCUMENT_TYPES: DocumentType[] = ["invoice", "receipt", "inventory", "id", "unknown"];
+
+export const DOCUMENT_TYPE_LABELS: Record<DocumentType, string> = {
+  invoice: "Invoice",
+  receipt: "Receipt",
+  inventory: "Inventory sheet",
+  id: "ID document",
+  unknown: "Unknown",
+};
+
+// Special template id meaning "pick the template from the detected document type"
+export const AUTO_TEMPLATE_ID = "auto";
+
+const CLASSIFICATION_PROMPT = `Classify this document image into exactly one type:
+
+- "invoice": a bill from a supplier requesting payment, usually with an invoice number and line items.
+- "receipt": proof of a completed purchase from a shop, restaurant or till.
+- "inventory": a stock list, delivery note, packing slip or count sheet listing goods and quantities.
+- "id": an identity document such as an ID card, passport or driving licence.
+- "unknown": anything else, or if the image is unreadable.
+
+Also give your confidence between 0 and 1.`;
+
+const CLASSIFICATION_SCHEMA: ResponseSchema = {
+  type: "object",
+  properties: {
+    documentType: { type: "string", enum: DOCUMENT_TYPES },
+    confidence: { type: "number", description: "Confidence between 0 and 1" },
+  },
+  required: ["documentType", "confidence"],
+};
+
+export const classifyDocument = async (
+  base64Image: string,
+  provider: ExtractionProvider,
+  signal?: AbortSignal
+): Promise<DocumentClassification> => {
+  const raw: any = await provider.extract({
+    image: base64Image,
+    prompt: CLASSIFICATION_PROMPT,
+    schema: CLASSIFICATION_SCHEMA,
+    signal,
+  });
+
+  const type = DOCUMENT_TYPES.includes(raw?.documentType) ? (raw.documentType as DocumentType) : "unknown";
+  const confidence = typeof raw?.confidence === "number" ? Math.min(1, Math.max(0, raw.confidence)) : 0;
+  return { type, confidence };
+};
@@ -0,0 +1,112 @@
+import { DataChange, ExtractedData, Table } from "../types";
+
+// Compares two versions of a document's data. Fields are matched by label,
+// tables by position, columns by header and rows by position, so a diff
+// stays readable when the later version reorders columns.
+
+const tableName = (table: Table, index: number) => table.name.trim() || `Table ${index + 1}`;
+
+/** Lists what changed from `before` to `after`, fields first, then tables in order. */
+export const diffExtractedData = (before: ExtractedData, after: ExtractedData): DataChange[] => {
+  const changes: DataChange[] = [];
+
+  // --- Fields ---
+  const matched = new Set<number>();
+  before.fields.forEach((field, fieldIndex) => {
+    const afterIndex = after.fields.findIndex((f, i) => !matched.has(i) && f.label === field.label);
+    if (afterIndex === -1) {
+      changes.push({ kind: "fieldRemoved", fieldIndex, label: field.label, before: String(field.value) });
+      return;
+    }
+    matched.add(afterIndex);
+    const value = String(after.fields[afterIndex].value);
+    if (value !== String(field.value)) {
+      changes.push({ kind: "field", fieldIndex, label: field.label, before: String(field.value), after: value });
+    }
+  });
+  after.fields.forEach((field, i) => {
+    if (!matched.has(i)) changes.push({ kind: "fieldAdded", label: field.label, after: String(field.value) });
+  });
+
+  // --- Tables ---
+  before.tables.forEach((table, tableIndex) => {
+    const other = after.tables[tableIndex];
+    const name = tableName(table, tableIndex);
+    if (!other) {
+      table.rows.forEach((row, rowIndex) => changes.push({ kind: "rowRemoved", tableIndex, rowIndex, table: name, values: row.values }));
+      return;
+    }
+    // Column of `other` for each header of `table`; -1 when it was dropped
+    const columnMap = table.headers.map(header => other.headers.indexOf(header));
+    const alignRow = (values: string[]) => columnMap.map(c => (c === -1 ? "" : values[c] ?? ""));
+
+    table.rows.forEach((row, rowIndex) => {
+      const otherRow = other.rows[rowIndex];
+      if (!otherRow) {
+        changes.push({ kind: "rowRemoved", tableIndex, rowIndex, table: name, values: row.values });
+        return;
+      }
+      alignRow(otherRow.values).forEach((value, columnIndex) => {
+        if (columnMap[columnIndex] === -1) return;
+        const previous = row.values[columnIndex] ?? "";
+        if (value !== previous) {
+          changes.push({
+            kind: "cell", tableIndex, rowIndex, columnIndex,
+            table: name, header: table.headers[columnIndex], before: previous, after: value,
+          });
+        }
+      });
+    });
+    other.rows.slice(table.rows.length).forEach((row, i) => {
+      changes.push({ kind: "rowAdded", tableIndex, rowIndex: table.rows.length + i, table: name, values: alignRow(row.values) });
+    });
+  });
+  after.tables.slice(before.tables.length).forEach((table, i) => {
+    const tableIndex = before.tables.length + i;
+    table.rows.forEach((row, rowIndex) => {
+      changes.push({ kind: "rowAdded", tableIndex, rowIndex, table: tableName(table, tableIndex), values: row.values });
+    });
+  });
+
+  return changes;
+};
+
+/** Number of values in `data`: one per field plus one per table cell. */
+export const countValues = (data: ExtractedData) =>
+  data.fields.length + data.tables.reduce((sum, t) => sum + t.rows.reduce((n, r) => n + r.values.length, 0), 0);
+
+/**
+ * Applies a selection of changes from `diffExtractedData` to the earlier
+ * version. Accepted values count as reviewed, so their confidence is cleared.
+ * Rows added to tables that don't exist in `data` are skipped.
+ */
+export const applyDataChanges = (data: ExtractedData, changes: DataChange[]): ExtractedData => {
+  const next: ExtractedData = structuredClone(data);
+
+  // Edits first, while indexes still refer to `data`
+  changes.forEach(change => {
+    if (change.kind === "field") {
+      next.fields[change.fieldIndex] = { ...next.fields[change.fieldIndex], value: change.after, confidence: undefined };
+    } else if (change.kind === "cell") {
+      const row = next.tables[change.tableIndex].rows[change.rowIndex];
+      row.values[change.columnIndex] = change.after;
+      if (row.confidences) row.confidences[change.columnIndex] = null;
+    }
+  });
+
+  // Removals bottom-up so earlier indexes stay valid
+  const removedFields = changes.flatMap(c => (c.kind === "fieldRemoved" ? [c.fieldIndex] : []));
+  [...removedFields].sort((a, b) => b - a).forEach(i => next.fields.splice(i, 1));
+  changes
+    .flatMap(c => (c.kind === "rowRemoved" ? [c] : []))
+    .sort((a, b) => b.tableIndex - a.tableIndex || b.rowIndex - a.rowIndex)
+    .forEach(c => next.tables[c.tableIndex]?.rows.splice(c.rowIndex, 1));
+
+  // Additions last, in order
+  changes.forEach(change => {
+    if (change.kind === "fieldAdded") next.fields.push({ label: change.label, value: change.after });
+    if (change.kind === "rowAdded") next.tables[change.tableIndex]?.rows.push({ values: [...change.values] });
+  });
+
+  return next;
+};
@@ -0,0 +1,177 @@
+import { Point, Quad } from "../types";
+
+// Finds a document in a small camera frame. Paper usually stands out from
+// what it lies on, so the frame is split into light and dark with Otsu's
+// threshold and the largest region that doesn't fill the frame edges is
+// taken as the page. Its corners are the region's extreme points along the
+// two diagonals, which holds for pages held roughly upright.
+
+// Matches ImageData, so canvas frames can be passed as they are
+export interface FrameData {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+const MIN_AREA = 0.15; // Smallest page, as a share of the frame
+const MAX_BORDER_CONTACT = 0.3; // Share of the frame's edge a page may touch
+
+export const luminance = (frame: FrameData) => {
+  const { data, width, height } = frame;
+  const gray = new Uint8Array(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = (data[i * 4] * 299 + data[i * 4 + 1] * 587 + data[i * 4 + 2] * 114) / 1000;
+  }
+  return gray;
+};
+
+// 3x3 box blur, so print on the page and sensor noise don't split regions
+const blur = (gray: Uint8Array, width: number, height: number) => {
+  const out = new Uint8Array(gray.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      let count = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          const ny = y + dy;
+          if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+          sum += gray[ny * width + nx];
+          count++;
+        }
+      }
+      out[y * width + x] = sum / count;
+    }
+  }
+  return out;
+};
+
+/** Threshold that best separates the two brightness classes of `gray`. */
+export const otsuThreshold = (gray: Uint8Array) => {
+  const histogram = new Array(256).fill(0);
+  gray.forEach(v => histogram[v]++);
+  const total = gray.length;
+  const sumAll = histogram.reduce((sum, count, value) => sum + count * value, 0);
+
+  let best = 0;
+  let bestVariance = -1;
+  let weightBelow = 0;
+  let sumBelow = 0;
+  for (let t = 0; t < 256; t++) {
+    weightBelow += histogram[t];
+    if (weightBelow === 0) continue;
+    const weightAbove = total - weightBelow;
+    if (weightAbove === 0) break;
+    sumBelow += t * histogram[t];
+    const meanBelow = sumBelow / weightBelow;
+    const meanAbove = (sumAll - sumBelow) / weightAbove;
+    const variance = weightBelow * weightAbove * (meanBelow - meanAbove) ** 2;
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      best = t;
+    }
+  }
+  return best;
+};
+
+interface Region {
+  pixels: number[];
+  borderContact: number;
+}
+
+// Connected regions of the mask (4-neighbour), found with an explicit stack
+const regionsOf = (mask: Uint8Array, width: number, height: number): Region[] => {
+  const seen = new Uint8Array(mask.length);
+  const regions: Region[] = [];
+  for (let start = 0; start < mask.length; start++) {
+    if (!mask[start] || seen[start]) continue;
+    const region: Region = { pixels: [], borderContact: 0 };
+    const stack = [start];
+    seen[start] = 1;
+    while (stack.length > 0) {
+      const i = stack.pop();
+      region.pixels.push(i);
+      const x = i % width;
+      const y = (i - x) / width;
+      if (x === 0 || y === 0 || x === width - 1 || y === height - 1) region.borderContact++;
+      const neighbours: number[] = [];
+      if (x > 0) neighbours.push(i - 1);
+      if (x < width - 1) neighbours.push(i + 1);
+      if (y > 0) neighbours.push(i - width);
+      if (y < height - 1) neighbours.push(i + width);
+      neighbours.forEach(n => {
+        if (mask[n] && !seen[n]) {
+          seen[n] = 1;
+          stack.push(n);
+        }
+      });
+    }
+    regions.push(region);
+  }
+  return regions;
+};
+
+const cornersOf = (pixels: number[], width: number): Quad => {
+  let topLeft = pixels[0];
+  let topRight = pixels[0];
+  let bottomRight = pixels[0];
+  let bottomLeft = pixels[0];
+  const sum = (i: number) => (i % width) + Math.floor(i / width);
+  const diff = (i: number) => (i % width) - Math.floor(i / width);
+  pixels.forEach(i => {
+    if (sum(i) < sum(topLeft)) topLeft = i;
+    if (sum(i) > sum(bottomRight)) bottomRight = i;
+    if (diff(i) > diff(topRight)) topRight = i;
+    if (diff(i) < diff(bottomLeft)) bottomLeft = i;
+  });
+  const point = (i: number): Point => ({ x: i % width, y: Math.floor(i / width) });
+  return [point(topLeft), point(topRight), point(bottomRight), point(bottomLeft)];
+};
+
+export const quadArea = (quad: Quad) =>
+  Math.abs(quad.reduce((sum, p, i) => {
+    const next = quad[(i + 1) % 4];
+    return sum + p.x * next.y - next.x * p.y;
+  }, 0)) / 2;
+
+const isConvex = (quad: Quad) => {
+  const turns = quad.map((p, i) => {
+    const a = quad[(i + 1) % 4];
+    const b = quad[(i + 2) % 4];
+    return Math.sign((a.x - p.x) * (b.y - a.y) - (a.y - p.y) * (b.x - a.x));
+  });
+  return turns.every(t => t === turns[0] && t !== 0);
+};
+
+/**
+ * Outline of the document in `frame` as fractions of its size, or null when
+ * no page-sized region is found. Meant for frames a couple of hundred
+ * pixels wide; larger ones are slow.
+ */
+export const detectDocument = (frame: FrameData): Quad | null => {
+  const { width, height } = frame;
+  const gray = blur(luminance(frame), width, height);
+  const threshold = otsuThreshold(gray);
+  const perimeter = 2 * (width + height) - 4;
+
+  // The page may be the light or the dark side of the split
+  let best: Region | null = null;
+  for (const light of [true, false]) {
+    const mask = new Uint8Array(gray.length);
+    gray.forEach((v, i) => { mask[i] = (v > threshold) === light ? 1 : 0; });
+    regionsOf(mask, width, height).forEach(region => {
+      if (region.borderContact > perimeter * MAX_BORDER_CONTACT) return;
+      if (!best || region.pixels.length > best.pixels.length) best = region;
+    });
+  }
+  if (!best || best.pixels.length < width * height * MIN_AREA) return null;
+
+  const quad = cornersOf(best.pixels, width);
+  if (!isConvex(quad) || quadArea(quad) < width * height * MIN_AREA) return null;
+  return quad.map(p => ({ x: (p.x + 0.5) / width, y: (p.y + 0.5) / height })) as Quad;
+};
+
+/** How far the corners moved between two detections, as the largest shift in frame fractions. */
+export const quadShift = (a: Quad, b: Quad) =>
+  Math.max(...a.map((p, i) => Math.hypot(p.x - b[i].x, p.y - b[i].y)));
@@ -0,0 +1,180 @@
+import { ExtractedData, Table } from "../types";
+
+// Scores an extraction against a hand-checked expected result. Values are
+// compared after trimming, collapsing whitespace and ignoring case, so only
+// real reading mistakes count. Fields are matched by label, tables by their
+// headers, columns by header and rows by position. A rate with nothing to
+// divide by, such as cell accuracy for a golden set without tables, is null.
+
+export interface Mismatch {
+  where: string; // e.g. `Invoice Number` or `Line Items › row 2 › Qty`
+  expected?: string; // Missing when the extraction added something unexpected
+  actual?: string; // Missing when the extraction left it out
+}
+
+export interface DocumentScore {
+  name: string;
+  fields: { expected: number; extracted: number; correct: number };
+  headers: { expected: number; matched: number };
+  cells: { expected: number; extracted: number; correct: number };
+  extraRows: number; // Rows beyond the expected ones, in matched tables
+  extraTables: number; // Extracted tables matching no expected table
+  mismatches: Mismatch[];
+  error?: string; // Set when extraction failed; the document then scores zero
+}
+
+export interface EvaluationSummary {
+  documents: number;
+  failed: number;
+  fieldPrecision: number | null;
+  fieldRecall: number | null;
+  fieldF1: number | null;
+  headerMatch: number | null;
+  cellAccuracy: number | null; // Correct cells among the expected ones
+  cellPrecision: number | null; // Correct cells among every extracted one, extra rows and tables included
+}
+
+const normalize = (value: unknown) => String(value ?? "").trim().replace(/\s+/g, " ").toLowerCase();
+
+const ratio = (part: number, whole: number) => (whole === 0 ? null : part / whole);
+
+const tableName = (table: Table, index: number) => table.name.trim() || `Table ${index + 1}`;
+
+// --- Fields ---
+
+const scoreFields = (expected: ExtractedData, actual: ExtractedData, mismatches: Mismatch[]) => {
+  const used = new Set<number>();
+  let correct = 0;
+  expected.fields.forEach(field => {
+    const label = normalize(field.label);
+    const index = actual.fields.findIndex((f, i) => !used.has(i) && normalize(f.label) === label);
+    if (index === -1) {
+      mismatches.push({ where: field.label, expected: String(field.value) });
+      return;
+    }
+    used.add(index);
+    const value = String(actual.fields[index].value);
+    if (normalize(value) === normalize(field.value)) correct++;
+    else mismatches.push({ where: field.label, expected: String(field.value), actual: value });
+  });
+  actual.fields.forEach((field, i) => {
+    if (!used.has(i)) mismatches.push({ where: field.label, actual: String(field.value) });
+  });
+  return { expected: expected.fields.length, extracted: actual.fields.length, correct };
+};
+
+// --- Tables ---
+
+const headerOverlap = (a: Table, b: Table) => {
+  const headers = new Set(b.headers.map(normalize));
+  return a.headers.filter(h => headers.has(normalize(h))).length;
+};
+
+// Pairs each expected table with the unused extracted table sharing the most
+// headers; ties go to the one at the same position
+const pairTables = (expected: Table[], actual: Table[]) => {
+  const used = new Set<number>();
+  return expected.map((table, index) => {
+    let best = -1;
+    let bestOverlap = 0;
+    actual.forEach((candidate, i) => {
+      if (used.has(i)) return;
+      const overlap = headerOverlap(table, candidate);
+      if (overlap > bestOverlap || (overlap === bestOverlap && overlap > 0 && i === index)) {
+        best = i;
+        bestOverlap = overlap;
+      }
+    });
+    if (best !== -1) used.add(best);
+    return best === -1 ? undefined : actual[best];
+  });
+};
+
+const scoreTables = (expected: ExtractedData, actual: ExtractedData, mismatches: Mismatch[]) => {
+  const headers = { expected: 0, matched: 0 };
+  const cells = { expected: 0, extracted: 0, correct: 0 };
+  let extraRows = 0;
+
+  actual.tables.forEach(table => {
+    cells.extracted += table.rows.length * table.headers.length;
+  });
+
+  const pairs = pairTables(expected.tables, actual.tables);
+  const extraTables = actual.tables.filter(table => !pairs.includes(table));
+  extraTables.forEach(table => {
+    mismatches.push({ where: tableName(table, actual.tables.indexOf(table)), actual: `${table.rows.length} ${table.rows.length === 1 ? "row" : "rows"}` });
+  });
+
+  pairs.forEach((other, tableIndex) => {
+    const table = expected.tables[tableIndex];
+    const name = tableName(table, tableIndex);
+    const columns = table.headers.map(h => (other ? other.headers.findIndex(oh => normalize(oh) === normalize(h)) : -1));
+
+    headers.expected += table.headers.length;
+    headers.matched += columns.filter(c => c !== -1).length;
+    columns.forEach((c, i) => {
+      if (c === -1) mismatches.push({ where: `${name} › column ${table.headers[i]}`, expected: table.headers[i] });
+    });
+
+    table.rows.forEach((row, rowIndex) => {
+      const otherRow = other?.rows[rowIndex];
+      table.headers.forEach((header, columnIndex) => {
+        const value = row.values[columnIndex] ?? "";
+        cells.expected++;
+        const column = columns[columnIndex];
+        const found = otherRow && column !== -1 ? otherRow.values[column] ?? "" : undefined;
+        if (found !== undefined && normalize(found) === normalize(value)) {
+          cells.correct++;
+        } else if (column !== -1) {
+          // Cells of a missing column are already reported with the column
+          mismatches.push({ where: `${name} › row ${rowIndex + 1} › ${header}`, expected: value, actual: found });
+        }
+      });
+    });
+    if (other && other.rows.length > table.rows.length) {
+      extraRows += other.rows.length - table.rows.length;
+      mismatches.push({ where: `${name} › rows`, expected: String(table.rows.length), actual: String(other.rows.length) });
+    }
+  });
+
+  return { headers, cells, extraRows, extraTables: extraTables.length };
+};
+
+// --- Scoring ---
+
+/** Compares one extraction with its expected data. */
+export const scoreDocument = (name: string, expected: ExtractedData, actual: ExtractedData): DocumentScore => {
+  const mismatches: Mismatch[] = [];
+  const fields = scoreFields(expected, actual, mismatches);
+  const { headers, cells, extraRows, extraTables } = scoreTables(expected, actual, mismatches);
+  return { name, fields, headers, cells, extraRows, extraTables, mismatches };
+};
+
+/** Score of a document whose extraction failed: nothing extracted, nothing correct. */
+export const failedDocument = (name: string, expected: ExtractedData, error: string): DocumentScore => ({
+  ...scoreDocument(name, expected, { fields: [], tables: [] }),
+  error,
+});
+
+/**
+ * Totals across documents. Counts are summed before dividing, so a document
+ * with many fields weighs more than one with few.
+ */
+export const summarizeScores = (scores: DocumentScore[]): EvaluationSummary => {
+  const sum = (pick: (s: DocumentScore) => number) => scores.reduce((total, s) => total + pick(s), 0);
+  const correctFields = sum(s => s.fields.correct);
+  const fieldPrecision = ratio(correctFields, sum(s => s.fields.extracted));
+  const fieldRecall = ratio(correctFields, sum(s => s.fields.expected));
+  return {
+    documents: scores.length,
+    failed: scores.filter(s => s.error).length,
+    fieldPrecision,
+    fieldRecall,
+    fieldF1: fieldPrecision === null || fieldRecall === null
+      ? null
+      : fieldPrecision + fieldRecall === 0 ? 0 : (2 * fieldPrecision * fieldRecall) / (fieldPrecision + fieldRecall),
+    headerMatch: ratio(sum(s => s.headers.matched), sum(s => s.headers.expected)),
+    cellAccuracy: ratio(sum(s => s.cells.correct), sum(s => s.cells.expected)),
+    cellPrecision: ratio(sum(s => s.cells.correct), sum(s => s.cells.extracted)),
+  };
+};
@@ -0,0 +1,146 @@
+import { DocumentKeySource, DuplicateMode, ExportLayout, ExportSettings, ExportSheet, ExtractedData, FieldType, ProcessedResult, ValueLocation } from "../types";
+import { hashPages } from "./imageService";
+
+export const EXPORT_LAYOUT_LABELS: Record<ExportLayout, string> = {
+  perTable: "Sheet per table",
+  long: "All tables in one sheet",
+  fieldsOnly: "Fields only",
+};
+
+export const EXPORT_LAYOUT_DESCRIPTIONS: Record<ExportLayout, string> = {
+  perTable: "Fields go to one sheet and each table to its own, all keyed by document ID.",
+  long: "Rows of every table are stacked with a table name column; fields repeat on each row.",
+  fieldsOnly: "One summary row per document with its fields; tables are left out.",
+};
+
+export const DOCUMENT_ID_HEADER = "Document ID";
+// Hidden column holding the document key, used to find rows from earlier exports
+export const DOCUMENT_KEY_HEADER = "__doc_key";
+const TABLE_NAME_HEADER = "Table";
+
+// Google Sheets rejects these characters in sheet titles and caps length at 100
+const sheetTitle = (name: string) => name.replace(/[[\]*?/\\:]/g, " ").replace(/\s+/g, " ").trim().slice(0, 100);
+
+const tableLabel = (name: string, index: number) => name.trim() || `Table ${index + 1}`;
+
+interface BuildOptions {
+  layout: ExportLayout;
+  documentId: string;
+  baseName: string; // Sheet or file name for the document; tables get suffixed names
+}
+
+const fieldLocations = (data: ExtractedData): ValueLocation[] =>
+  data.fields.map((_, fieldIndex) => ({ kind: "field", fieldIndex }));
+
+const rowLocations = (tableIndex: number, rowIndex: number, columnIndexes: number[]): (ValueLocation | null)[] =>
+  columnIndexes.map(columnIndex => (columnIndex === -1 ? null : { kind: "cell", tableIndex, rowIndex, columnIndex }));
+
+const fieldsSheet = (data: ExtractedData, documentId: string, name: string): ExportSheet => ({
+  name,
+  headers: [DOCUMENT_ID_HEADER, ...data.fields.map(f => f.label)],
+  rows: [[documentId, ...data.fields.map(f => String(f.value))]],
+  columnTypes: ["text", ...data.fields.map(f => f.type)],
+  sources: [[null, ...fieldLocations(data)]],
+});
+
+/**
+ * Lays out a document's data as one or more sheets. Every exporter goes
+ * through this so Sheets, CSV and other formats produce the same shape.
+ */
+export const buildExportSheets = (data: ExtractedData, { layout, documentId, baseName }: BuildOptions): ExportSheet[] => {
+  const base = sheetTitle(baseName) || "Export";
+
+  if (layout === "fieldsOnly") return [fieldsSheet(data, documentId, base)];
+
+  if (layout === "perTable") {
+    return [
+      fieldsSheet(data, documentId, base),
+      ...data.tables.map((table, index) => ({
+        name: sheetTitle(`${base} - ${tableLabel(table.name, index)}`),
+        headers: [DOCUMENT_ID_HEADER, ...table.headers],
+        rows: table.rows.map(row => [documentId, ...table.headers.map((_, i) => row.values[i] ?? "")]),
+        columnTypes: ["text" as FieldType, ...table.headers.map((_, i) => table.columnTypes?.[i])],
+        sources: table.rows.map((_, rowIndex) => [null, ...rowLocations(index, rowIndex, table.headers.map((_, i) => i))]),
+        tableIndex: index,
+      })),
+    ];
+  }
+
+  // Long layout: union of all table headers, first seen order
+  const tableHeaders: string[] = [];
+  const tableTypes: (FieldType | undefined)[] = [];
+  data.tables.forEach(table => {
+    table.headers.forEach((header, i) => {
+      if (tableHeaders.includes(header)) return;
+      tableHeaders.push(header);
+      tableTypes.push(table.columnTypes?.[i]);
+    });
+  });
+
+  const fieldValues = data.fields.map(f => String(f.value));
+  const sources = data.tables.flatMap((table, index) => {
+    const columnIndexes = tableHeaders.map(header => table.headers.indexOf(header));
+    return table.rows.map((_, rowIndex) => [null, ...fieldLocations(data), null, ...rowLocations(index, rowIndex, columnIndexes)]);
+  });
+  const rows = data.tables.flatMap((table, index) =>
+    table.rows.map(row => [
+      documentId,
+      ...fieldValues,
+      tableLabel(table.name, index),
+      ...tableHeaders.map(header => {
+        const column = table.headers.indexOf(header);
+        return column === -1 ? "" : row.values[column] ?? "";
+      }),
+    ])
+  );
+
+  return [{
+    name: base,
+    headers: [DOCUMENT_ID_HEADER, ...data.fields.map(f => f.label), TABLE_NAME_HEADER, ...tableHeaders],
+    rows: rows.length > 0 ? rows : [[documentId, ...fieldValues, "", ...tableHeaders.map(() => "")]],
+    columnTypes: ["text", ...data.fields.map(f => f.type), "text", ...tableTypes],
+    sources: rows.length > 0 ? sources : [[null, ...fieldLocations(data), null, ...tableHeaders.map(() => null)]],
+  }];
+};
+
+// --- Document keys ---
+
+export const DOCUMENT_KEY_SOURCE_LABELS: Record<DocumentKeySource, string> = {
+  imageHash: "Image hash",
+  field: "Field value",
+};
+
+export const DUPLICATE_MODE_LABELS: Record<DuplicateMode, string> = {
+  skip: "Skip",
+  replace: "Replace",
+  upsert: "Update in place",
+};
+
+export const DUPLICATE_MODE_DESCRIPTIONS: Record<DuplicateMode, string> = {
+  skip: "Leave worksheets that already have rows for this document untouched.",
+  replace: "Delete the earlier rows and append the new ones at the end.",
+  upsert: "Overwrite the earlier rows where they are, keeping columns the export doesn't write.",
+};
+
+const normalizeLabel = (label: string) => label.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, " ").trim();
+
+/**
+ * Stable key for a document across exports. A field key (e.g. the invoice
+ * number) survives re-scans; when the field is missing or empty the image
+ * hash is used instead and `source` says so. The hash is of the uploaded
+ * pages, so changing the preprocessing settings doesn't change the key.
+ */
+export const getDocumentKey = async (
+  result: ProcessedResult,
+  data: ExtractedData,
+  settings: ExportSettings
+): Promise<{ key: string; source: DocumentKeySource }> => {
+  if (settings.keySource === "field" && settings.keyField.trim()) {
+    const wanted = normalizeLabel(settings.keyField);
+    const field = data.fields.find(f => normalizeLabel(f.label) === wanted);
+    const value = String(field?.value ?? "").trim();
+    if (value) return { key: value, source: "field" };
+  }
+  const hash = await hashPages(result.originalPages ?? result.pages ?? [result.image]);
+  return { key: `img-${hash.slice(0, 16)}`, source: "imageHash" };
+};
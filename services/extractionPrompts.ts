@@ -0,0 +1,92 @@
+import { ResponseSchema } from "../types";
+import { FIELD_TYPES } from "./valueService";
+
+// Instructions and output schema for the default, template-free extraction.
+
+const BOX_SCHEMA: ResponseSchema = {
+  type: "object",
+  properties: {
+    x: { type: "number" },
+    y: { type: "number" },
+    width: { type: "number" },
+    height: { type: "number" },
+  },
+  required: ["x", "y", "width", "height"],
+};
+
+export const EXTRACTION_PROMPT = `Analyze this image (document, invoice, inventory list, ID, etc.).
+
+1. Extract 'fields': These are global values like "Invoice Number", "Date", "Total Amount", "Vendor Name".
+2. Extract 'tables': Look for any grid, list, or line items.
+   - For each table, identify the 'headers' (column names).
+   - Extract all 'rows' strictly following the headers.
+   - Ensure every row has a value for every header (use empty string if missing).
+3. Give each field a 'type' and each table its 'columnTypes' (one per header): "text", "number", "money", "percentage", "date", "email" or "phone".
+   Copy values exactly as printed; do not reformat dates or amounts.
+4. For every field and every row cell, report where it was read and how sure you are:
+   - 'confidence': 0 to 1, low when the text is blurry, handwritten, partly hidden or guessed.
+   - 'box': the value's bounding box as fractions of the image size (x, y from the top-left corner, width, height, each 0 to 1).
+   Rows give these per cell in 'confidences' and 'boxes', in headers order.
+
+Do not flatten tables into fields. Keep them structured.`;
+
+export const EXTRACTION_SCHEMA: ResponseSchema = {
+  type: "object",
+  properties: {
+    fields: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          label: { type: "string" },
+          value: { type: "string" },
+          type: { type: "string", enum: FIELD_TYPES },
+          confidence: { type: "number" },
+          box: BOX_SCHEMA,
+        },
+        required: ["label", "value", "type", "confidence"],
+      },
+    },
+    tables: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          name: { type: "string", description: "Description of the table (e.g. Items)" },
+          headers: {
+            type: "array",
+            items: { type: "string" }
+          },
+          columnTypes: {
+            type: "array",
+            items: { type: "string", enum: FIELD_TYPES },
+            description: "Value type of each column, in headers order"
+          },
+          rows: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                values: {
+                  type: "array",
+                  items: { type: "string" },
+                  description: "Row values corresponding to headers order"
+                },
+                confidences: {
+                  type: "array",
+                  items: { type: "number" },
+                  description: "Confidence of each value, in headers order"
+                },
+                boxes: {
+                  type: "array",
+                  items: BOX_SCHEMA,
+                  description: "Bounding box of each value, in headers order"
+                }
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+};
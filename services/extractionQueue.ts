@@ -0,0 +1,132 @@
+// A small in-memory job queue for extraction requests. It caps how many jobs
+// run at once, lets callers cancel pending or running jobs, and provides a
+// retry helper for transient API failures.
+
+export interface QueueTask {
+  id: string;
+  run: (signal: AbortSignal) => Promise<void>;
+}
+
+export interface TaskQueue {
+  enqueue: (task: QueueTask) => void;
+  cancel: (id: string) => void;
+  setConcurrency: (concurrency: number) => void;
+  isQueued: (id: string) => boolean;
+}
+
+export const createTaskQueue = (initialConcurrency: number): TaskQueue => {
+  let concurrency = Math.max(1, initialConcurrency);
+  const pending: QueueTask[] = [];
+  const running = new Map<string, AbortController>();
+
+  const pump = () => {
+    while (running.size < concurrency && pending.length > 0) {
+      const task = pending.shift()!;
+      const controller = new AbortController();
+      running.set(task.id, controller);
+
+      task
+        .run(controller.signal)
+        .catch(error => {
+          // Tasks are expected to report their own errors; this only guards the queue.
+          console.error(`Queue task ${task.id} failed:`, error);
+        })
+        .finally(() => {
+          if (running.get(task.id) === controller) running.delete(task.id);
+          pump();
+        });
+    }
+  };
+
+  const cancelTask = (id: string) => {
+    const index = pending.findIndex(t => t.id === id);
+    if (index !== -1) pending.splice(index, 1);
+
+    const controller = running.get(id);
+    if (controller) {
+      controller.abort();
+      running.delete(id);
+    }
+  };
+
+  return {
+    enqueue: (task) => {
+      // Re-enqueuing an id replaces whatever was queued or running under it
+      cancelTask(task.id);
+      pending.push(task);
+      pump();
+    },
+    cancel: (id) => cancelTask(id),
+    setConcurrency: (value) => {
+      concurrency = Math.max(1, value);
+      pump();
+    },
+    isQueued: (id) => running.has(id) || pending.some(t => t.id === id),
+  };
+};
+
+// --- Retry ---
+
+export class CancelledError extends Error {
+  constructor() {
+    super("Extraction cancelled.");
+    this.name = "CancelledError";
+  }
+}
+
+const getStatusCode = (error: any): number | undefined => {
+  if (typeof error?.status === "number") return error.status;
+  if (typeof error?.code === "number") return error.code;
+  const match = /\b(408|429|5\d\d)\b/.exec(String(error?.message ?? ""));
+  return match ? Number(match[1]) : undefined;
+};
+
+/** Timeouts, rate limits and server errors are worth retrying; bad requests are not. */
+export const isRetryableError = (error: any): boolean => {
+  if (error instanceof CancelledError || error?.name === "AbortError") return false;
+  const status = getStatusCode(error);
+  return status === 408 || status === 429 || (status !== undefined && status >= 500 && status < 600);
+};
+
+const sleep = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal.aborted) return reject(new CancelledError());
+    const timer = setTimeout(() => {
+      signal.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new CancelledError());
+    };
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+
+interface RetryOptions {
+  maxRetries: number;
+  signal: AbortSignal;
+  baseDelayMs?: number;
+  onRetry?: (attempt: number, delayMs: number, error: unknown) => void;
+}
+
+/**
+ * Runs `fn` and retries retryable failures with exponential backoff and jitter
+ * (1s, 2s, 4s, ... by default). Aborting the signal stops immediately.
+ */
+export const withRetry = async <T>(fn: () => Promise<T>, options: RetryOptions): Promise<T> => {
+  const { maxRetries, signal, baseDelayMs = 1000, onRetry } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    if (signal.aborted) throw new CancelledError();
+    try {
+      return await fn();
+    } catch (error) {
+      if (signal.aborted) throw new CancelledError();
+      if (attempt >= maxRetries || !isRetryableError(error)) throw error;
+
+      const delayMs = baseDelayMs * 2 ** attempt + Math.random() * baseDelayMs;
+      onRetry?.(attempt + 1, delayMs, error);
+      await sleep(delayMs, signal);
+    }
+  }
+};
@@ -0,0 +1,196 @@
+import { BoundingBox, DocumentTemplate, ExtractedData, ExtractionProvider, FieldType, RegionTarget, TableRow } from "../types";
+import { EXTRACTION_PROMPT, EXTRACTION_SCHEMA } from "./extractionPrompts";
+import { applyTemplate, buildTemplatePrompt, buildTemplateSchema } from "./templateService";
+import { FIELD_TYPES } from "./valueService";
+
+const asFieldType = (value: unknown): FieldType | undefined =>
+  FIELD_TYPES.includes(value as FieldType) ? (value as FieldType) : undefined;
+
+// Models sometimes answer in percent instead of 0–1
+const asConfidence = (value: unknown): number | undefined => {
+  const number = typeof value === "string" ? Number(value) : value;
+  if (typeof number !== "number" || !Number.isFinite(number) || number < 0) return undefined;
+  return number > 1 ? Math.min(number / 100, 1) : number;
+};
+
+// Accepts fractions or the 0–1000 grid some models use, clamped to the image
+const asBox = (value: any): BoundingBox | undefined => {
+  const parts = [value?.x, value?.y, value?.width, value?.height];
+  if (!parts.every(p => typeof p === "number" && Number.isFinite(p) && p >= 0)) return undefined;
+  const scale = parts.some(p => p > 1) ? 1000 : 1;
+  const [x, y, width, height] = parts.map(p => Math.min(p / scale, 1));
+  if (width === 0 || height === 0) return undefined;
+  return { x, y, width: Math.min(width, 1 - x), height: Math.min(height, 1 - y) };
+};
+
+/**
+ * Coerces untrusted model output into a well-formed `ExtractedData`:
+ * missing arrays become empty, values become strings, unknown types and
+ * malformed confidences or boxes are dropped, and every row is padded or
+ * trimmed to its table's header count.
+ */
+export const normalizeExtractedData = (raw: any): ExtractedData => {
+  const fields = Array.isArray(raw?.fields) ? raw.fields : [];
+  const tables = Array.isArray(raw?.tables) ? raw.tables : [];
+
+  return {
+    fields: fields
+      .filter((f: any) => f && typeof f.label === "string")
+      .map((f: any) => ({
+        label: f.label,
+        value: f.value ?? "",
+        type: asFieldType(f.type),
+        confidence: asConfidence(f.confidence),
+        box: asBox(f.box),
+      })),
+    tables: tables
+      .filter((t: any) => t && Array.isArray(t.headers))
+      .map((t: any) => {
+        const headers: string[] = t.headers.map((h: unknown) => String(h ?? ""));
+        const rows = Array.isArray(t.rows) ? t.rows : [];
+        const columnTypes = Array.isArray(t.columnTypes)
+          ? headers.map((_, i) => asFieldType(t.columnTypes[i]) ?? "text")
+          : undefined;
+        return {
+          name: typeof t.name === "string" ? t.name : "",
+          headers,
+          columnTypes,
+          rows: rows.map((r: any) => {
+            const values: string[] = Array.isArray(r?.values) ? r.values.map((v: unknown) => String(v ?? "")) : [];
+            while (values.length < headers.length) values.push("");
+            const trimmed = headers.length > 0 ? values.slice(0, headers.length) : values;
+            return {
+              values: trimmed,
+              confidences: Array.isArray(r?.confidences) ? trimmed.map((_, i) => asConfidence(r.confidences[i]) ?? null) : undefined,
+              boxes: Array.isArray(r?.boxes) ? trimmed.map((_, i) => asBox(r.boxes[i]) ?? null) : undefined,
+            };
+          }),
+        };
+      }),
+  };
+};
+
+interface ExtractOptions {
+  signal?: AbortSignal;
+  template?: DocumentTemplate | null;
+  instructions?: string; // Appended to the prompt, e.g. to focus on one value
+}
+
+export const extractDataFromImage = async (
+  base64Image: string,
+  provider: ExtractionProvider,
+  { signal, template, instructions }: ExtractOptions = {}
+): Promise<ExtractedData> => {
+  try {
+    const prompt = template ? buildTemplatePrompt(template) : EXTRACTION_PROMPT;
+    const raw = await provider.extract({
+      image: base64Image,
+      prompt: instructions ? `${prompt}\n\n${instructions}` : prompt,
+      schema: template ? buildTemplateSchema(template) : EXTRACTION_SCHEMA,
+      signal,
+    });
+    const data = normalizeExtractedData(raw);
+    return template ? applyTemplate(data, template) : data;
+  } catch (error) {
+    console.error("Vision Extraction Error:", error);
+    throw error;
+  }
+};
+
+// --- Region Re-extraction ---
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+const buildRegionInstructions = (data: ExtractedData, target: RegionTarget) => {
+  if (target.kind === "field") {
+    const field = data.fields[target.fieldIndex];
+    return `This image is a crop showing only the value of "${field.label}". ` +
+      `Return exactly one field labeled "${field.label}" and an empty 'tables' array.`;
+  }
+  const table = data.tables[target.tableIndex];
+  return `This image is a crop showing ${target.mode === "append" ? "more rows" : "the rows"} of the table "${table.name}". ` +
+    `Return no fields and exactly one table with these headers, in this order: ${table.headers.map(h => `"${h}"`).join(", ")}. ` +
+    "Do not include the header line as a row.";
+};
+
+// Maps a box relative to the crop back onto the page the crop was taken from
+const toPageBox = (box: BoundingBox | null | undefined, crop: BoundingBox): BoundingBox | undefined =>
+  box
+    ? {
+        x: crop.x + box.x * crop.width,
+        y: crop.y + box.y * crop.height,
+        width: box.width * crop.width,
+        height: box.height * crop.height,
+        page: crop.page,
+      }
+    : undefined;
+
+// Reorders the crop's rows onto the target headers, by name where the model
+// kept them and by position otherwise
+const conformRows = (headers: string[], region: ExtractedData, crop: BoundingBox): TableRow[] => {
+  const source = region.tables[0];
+  if (!source) return [];
+  const byName = headers.map(h => source.headers.findIndex(sh => sameName(sh, h)));
+  const columns = byName.some(i => i !== -1) ? byName : headers.map((_, i) => (i < source.headers.length ? i : -1));
+
+  return source.rows.map(row => ({
+    values: columns.map(i => (i === -1 ? "" : row.values[i] ?? "")),
+    confidences: row.confidences && columns.map(i => (i === -1 ? null : row.confidences![i] ?? null)),
+    boxes: row.boxes && columns.map(i => (i === -1 ? null : toPageBox(row.boxes![i], crop) ?? null)),
+  }));
+};
+
+/**
+ * Writes the result of a region extraction into the targeted field or table.
+ * Returns `data` unchanged when the target is gone, e.g. deleted while the
+ * region was being read.
+ */
+const mergeRegionData = (
+  data: ExtractedData,
+  target: RegionTarget,
+  region: ExtractedData,
+  crop: BoundingBox
+): ExtractedData => {
+  if (target.kind === "field") {
+    const field = data.fields[target.fieldIndex];
+    const found = field && (region.fields.find(f => sameName(f.label, field.label)) ?? region.fields[0]);
+    if (!found) return data;
+    const fields = [...data.fields];
+    fields[target.fieldIndex] = { ...field, value: found.value, confidence: found.confidence, box: toPageBox(found.box, crop) ?? crop };
+    return { ...data, fields };
+  }
+
+  const table = data.tables[target.tableIndex];
+  const rows = table ? conformRows(table.headers, region, crop) : [];
+  if (rows.length === 0) return data;
+  const tables = [...data.tables];
+  tables[target.tableIndex] = { ...table, rows: target.mode === "append" ? [...table.rows, ...rows] : rows };
+  return { ...data, tables };
+};
+
+/**
+ * Re-reads one region of a page. `crop` is the region's box on the page and
+ * `croppedImage` the matching cut-out; `data` is the result's data when the
+ * read starts. Resolves to a function that merges the region into the data as
+ * it is by then, so edits made in the meantime are kept.
+ */
+export const extractRegion = async (
+  croppedImage: string,
+  crop: BoundingBox,
+  provider: ExtractionProvider,
+  data: ExtractedData,
+  target: RegionTarget,
+  signal?: AbortSignal
+): Promise<(latest: ExtractedData) => ExtractedData> => {
+  const region = await extractDataFromImage(croppedImage, provider, {
+    signal,
+    instructions: buildRegionInstructions(data, target),
+  });
+  if (target.kind === "field" && region.fields.length === 0) {
+    throw new Error(`No value for "${data.fields[target.fieldIndex].label}" was found in the selected region.`);
+  }
+  if (target.kind === "table" && conformRows(data.tables[target.tableIndex].headers, region, crop).length === 0) {
+    throw new Error(`No rows for "${data.tables[target.tableIndex].name}" were found in the selected region.`);
+  }
+  return (latest) => mergeRegionData(latest, target, region, crop);
+};
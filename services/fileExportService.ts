@@ -0,0 +1,232 @@
+import { strToU8, zipSync, Zippable } from "fflate";
+import { ExportSheet, ExtractedData, FieldType, ProcessedResult } from "../types";
+
+// File exports built entirely in the browser: CSV, XLSX, JSON and ZIP bundles.
+
+// --- CSV ---
+
+const CSV_BOM = "\uFEFF"; // Lets Excel detect UTF-8 so accented text survives
+
+const looksNumeric = (value: string) => /^[-+]?\d+(\.\d+)?%?$/.test(value);
+
+// Spreadsheet apps run cells starting with these characters as formulas
+const isFormulaLike = (value: string, type?: FieldType) =>
+  (!type || type === "text") && /^[=+\-@\t\r]/.test(value) && !looksNumeric(value);
+
+const escapeCsvValue = (value: string, type?: FieldType) => {
+  const text = isFormulaLike(value, type) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/** Serializes a sheet as RFC 4180 CSV: CRLF line endings, quotes doubled inside quoted values. */
+export const toCsv = (sheet: ExportSheet) =>
+  [sheet.headers.map(h => escapeCsvValue(h)), ...sheet.rows.map(row => row.map((v, i) => escapeCsvValue(v, sheet.columnTypes[i])))]
+    .map(cells => cells.join(","))
+    .join("\r\n") + "\r\n";
+
+export const toCsvBlob = (sheet: ExportSheet) => new Blob([CSV_BOM + toCsv(sheet)], { type: "text/csv;charset=utf-8" });
+
+// --- XLSX ---
+
+// Style indexes into cellXfs in STYLES_XML
+const STYLE = { header: 1, money: 2, percent: 3, date: 4 };
+
+const STYLES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<numFmts count="1"><numFmt numFmtId="164" formatCode="yyyy-mm-dd"/></numFmts>
+<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>
+<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>
+<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+<cellXfs count="5">
+<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>
+<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>
+<xf numFmtId="4" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="10" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+</cellXfs>
+</styleSheet>`;
+
+const escapeXml = (text: string) =>
+  text
+    // Control characters are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const columnName = (index: number) => {
+  let name = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+};
+
+const EXCEL_EPOCH = Date.UTC(1899, 11, 30);
+
+const stringCell = (ref: string, value: string, style = 0) =>
+  `<c r="${ref}" t="inlineStr"${style ? ` s="${style}"` : ""}><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+
+const numberCell = (ref: string, value: number, style = 0) =>
+  `<c r="${ref}"${style ? ` s="${style}"` : ""}><v>${value}</v></c>`;
+
+// Canonical values of typed columns become real numbers and dates in Excel
+const xlsxCell = (ref: string, value: string, type?: FieldType) => {
+  if (!value) return "";
+  const isoDate = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (type === "date" && isoDate) {
+    const serial = (Date.UTC(+isoDate[1], +isoDate[2] - 1, +isoDate[3]) - EXCEL_EPOCH) / 86400000;
+    return numberCell(ref, serial, STYLE.date);
+  }
+  if (type === "percentage" && /^-?\d+(\.\d+)?%$/.test(value)) return numberCell(ref, Number(value.slice(0, -1)) / 100, STYLE.percent);
+  if (type === "money" && /^-?\d+(\.\d+)?$/.test(value)) return numberCell(ref, Number(value), STYLE.money);
+  if (type === "number" && /^-?\d+(\.\d+)?$/.test(value)) return numberCell(ref, Number(value));
+  return stringCell(ref, value);
+};
+
+const sheetXml = (sheet: ExportSheet) => {
+  const headerRow = `<row r="1">${sheet.headers.map((h, i) => stringCell(`${columnName(i)}1`, h, STYLE.header)).join("")}</row>`;
+  const rows = sheet.rows.map((row, r) =>
+    `<row r="${r + 2}">${row.map((v, i) => xlsxCell(`${columnName(i)}${r + 2}`, v, sheet.columnTypes[i])).join("")}</row>`
+  );
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>
+<sheetData>${headerRow}${rows.join("")}</sheetData>
+</worksheet>`;
+};
+
+// Excel sheet names: at most 31 characters, no []:*?/\, unique ignoring case.
+// Inside one workbook "<document> - <table>" is shortened to "<table>".
+const xlsxSheetNames = (sheets: ExportSheet[]) => {
+  const used = new Set<string>();
+  const prefix = sheets.length > 1 ? `${sheets[0].name} - ` : null;
+  return sheets.map((sheet, index) => {
+    const full = index > 0 && prefix && sheet.name.startsWith(prefix) ? sheet.name.slice(prefix.length) : sheet.name;
+    const base = full.replace(/[[\]:*?/\\]/g, " ").trim().slice(0, 31) || `Sheet${index + 1}`;
+    let name = base;
+    for (let n = 2; used.has(name.toLowerCase()); n++) {
+      const suffix = ` (${n})`;
+      name = base.slice(0, 31 - suffix.length) + suffix;
+    }
+    used.add(name.toLowerCase());
+    return name;
+  });
+};
+
+/** Builds an Office Open XML workbook with one worksheet per sheet. */
+export const toXlsx = (sheets: ExportSheet[]): Uint8Array => {
+  const names = xlsxSheetNames(sheets);
+  const files: Zippable = {
+    "[Content_Types].xml": strToU8(`<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
+<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>
+${sheets.map((_, i) => `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join("\n")}
+</Types>`),
+    "_rels/.rels": strToU8(`<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>
+</Relationships>`),
+    "xl/workbook.xml": strToU8(`<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+<sheets>${names.map((name, i) => `<sheet name="${escapeXml(name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join("")}</sheets>
+</workbook>`),
+    "xl/_rels/workbook.xml.rels": strToU8(`<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+${sheets.map((_, i) => `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`).join("\n")}
+<Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`),
+    "xl/styles.xml": strToU8(STYLES_XML),
+  };
+  sheets.forEach((sheet, i) => {
+    files[`xl/worksheets/sheet${i + 1}.xml`] = strToU8(sheetXml(sheet));
+  });
+  return zipSync(files);
+};
+
+export const toXlsxBlob = (sheets: ExportSheet[]) =>
+  new Blob([toXlsx(sheets) as BlobPart], { type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" });
+
+// --- JSON ---
+
+/** JSON view of one result; `data` has the same shape as `ExtractedData`. */
+export const toJsonDocument = (result: ProcessedResult, data: ExtractedData) => ({
+  id: result.id,
+  name: result.name,
+  createdAt: new Date(result.createdAt).toISOString(),
+  documentType: result.classification?.type ?? null,
+  templateId: result.appliedTemplateId ?? null,
+  data,
+});
+
+export const toJsonBlob = (value: unknown) => new Blob([JSON.stringify(value, null, 2)], { type: "application/json" });
+
+// --- ZIP ---
+
+const EXTENSIONS: Record<string, string> = { "image/jpeg": "jpg", "image/png": "png", "image/webp": "webp", "image/gif": "gif" };
+
+const dataUrlToBytes = (dataUrl: string) => {
+  const match = /^data:([^;,]+)?(;base64)?,(.*)$/s.exec(dataUrl);
+  if (!match) return null;
+  const [, mime = "application/octet-stream", base64, payload] = match;
+  const binary = base64 ? atob(payload) : decodeURIComponent(payload);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return { bytes, extension: EXTENSIONS[mime] ?? "bin" };
+};
+
+// File and folder names that are safe on Windows, macOS and Linux
+export const safeFileName = (name: string) => name.replace(/[<>:"/\\|?*\u0000-\u001f]/g, "_").trim().slice(0, 120) || "document";
+
+export interface ZipEntry {
+  result: ProcessedResult;
+  data: ExtractedData; // Canonical values to write
+  sheets: ExportSheet[]; // Same layout as the other exporters
+}
+
+/**
+ * Bundles documents into one ZIP: a folder per document with its JSON,
+ * workbook, CSV files and source page images.
+ */
+export const toZipBlob = (entries: ZipEntry[]) => {
+  const files: Zippable = {};
+  const usedFolders = new Set<string>();
+
+  entries.forEach(({ result, data, sheets }) => {
+    let folder = safeFileName(result.name);
+    for (let n = 2; usedFolders.has(folder); n++) folder = `${safeFileName(result.name)} (${n})`;
+    usedFolders.add(folder);
+
+    files[`${folder}/data.json`] = strToU8(JSON.stringify(toJsonDocument(result, data), null, 2));
+    files[`${folder}/data.xlsx`] = [toXlsx(sheets), { level: 0 }]; // Already compressed
+    sheets.forEach(sheet => {
+      files[`${folder}/${safeFileName(sheet.name)}.csv`] = strToU8(CSV_BOM + toCsv(sheet));
+    });
+    // The uploads as they were, not the preprocessed pages sent to the model
+    (result.originalPages ?? result.pages ?? [result.image]).forEach((page, i) => {
+      const image = dataUrlToBytes(page);
+      if (image) files[`${folder}/images/page-${i + 1}.${image.extension}`] = [image.bytes, { level: 0 }];
+    });
+  });
+
+  return new Blob([zipSync(files) as BlobPart], { type: "application/zip" });
+};
+
+// --- Download ---
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  // Revoke after the click has been handled so the download can start
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
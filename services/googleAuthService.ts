@@ -0,0 +1,89 @@
+// Access tokens from Google Identity Services (GIS) last about an hour. This
+// keeps the current token and asks GIS for a new one shortly before it
+// expires, so long review sessions don't end in a failed export.
+
+export const SHEETS_SCOPE = "https://www.googleapis.com/auth/spreadsheets";
+// Lists spreadsheet names for the picker; file contents stay behind SHEETS_SCOPE
+export const DRIVE_METADATA_SCOPE = "https://www.googleapis.com/auth/drive.metadata.readonly";
+
+// Tokens closer than this to expiry are refreshed before use
+const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+export class GoogleAuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "GoogleAuthError";
+  }
+}
+
+export interface GoogleAuth {
+  /** Interactive sign-in; call from a click handler so the popup isn't blocked. */
+  signIn: () => Promise<void>;
+  /** Current token, refreshed when it is about to expire or `forceRefresh` is set. */
+  getAccessToken: (forceRefresh?: boolean) => Promise<string>;
+  signOut: () => void;
+  isSignedIn: () => boolean;
+}
+
+export const createGoogleAuth = (clientId: string, scopes: string[] = [SHEETS_SCOPE, DRIVE_METADATA_SCOPE]): GoogleAuth => {
+  let token: { value: string; expiresAt: number } | null = null;
+  let pending: Promise<string> | null = null;
+  let tokenClient: GoogleTokenClient | null = null;
+  let settle: { resolve: (token: string) => void; reject: (error: Error) => void } | null = null;
+
+  const getTokenClient = () => {
+    if (!clientId) throw new GoogleAuthError("Please enter your Google Client ID in settings first.");
+    if (!window.google) throw new GoogleAuthError("Google Identity Services script not loaded.");
+    tokenClient ??= window.google.accounts.oauth2.initTokenClient({
+      client_id: clientId,
+      scope: scopes.join(" "),
+      callback: (response) => {
+        if (response.error || !response.access_token) {
+          settle?.reject(new GoogleAuthError(response.error_description || response.error || "Google sign-in failed."));
+        } else {
+          token = { value: response.access_token, expiresAt: Date.now() + Number(response.expires_in) * 1000 };
+          settle?.resolve(response.access_token);
+        }
+        settle = null;
+      },
+      error_callback: (error) => {
+        settle?.reject(new GoogleAuthError(error.type === "popup_closed" ? "Google sign-in was closed." : error.message || "Google sign-in failed."));
+        settle = null;
+      },
+    });
+    return tokenClient;
+  };
+
+  // GIS reports through the callbacks given at init, so one request runs at a time
+  const requestToken = (prompt?: string) => {
+    pending ??= new Promise<string>((resolve, reject) => {
+      settle = { resolve, reject };
+      try {
+        getTokenClient().requestAccessToken(prompt === undefined ? undefined : { prompt });
+      } catch (error) {
+        settle = null;
+        reject(error);
+      }
+    }).finally(() => {
+      pending = null;
+    });
+    return pending;
+  };
+
+  return {
+    signIn: async () => {
+      await requestToken();
+    },
+    getAccessToken: async (forceRefresh = false) => {
+      if (token && !forceRefresh && token.expiresAt - Date.now() > REFRESH_MARGIN_MS) return token.value;
+      if (!token && !forceRefresh) throw new GoogleAuthError("Not connected to Google. Connect and try again.");
+      // An empty prompt skips the consent screen for a user who already agreed
+      return requestToken("");
+    },
+    signOut: () => {
+      if (token && window.google) window.google.accounts.oauth2.revoke(token.value, () => {});
+      token = null;
+    },
+    isSignedIn: () => token !== null,
+  };
+};
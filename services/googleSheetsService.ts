@@ -1,153 +1,305 @@
-import { ExtractedData } from "../types";
+import { DuplicateMode, ExportSheet, ExtractedData, FieldType, ValueLocation } from "../types";
+import { DOCUMENT_KEY_HEADER } from "./exportService";
+import { normalizeValue } from "./valueService";
+import { CellValue, SheetsClient, ValueRange } from "./sheetsClient";
 
-const BASE_URL = 'https://sheets.googleapis.com/v4/spreadsheets';
+// Values are written with USER_ENTERED so numbers, dates and percentages are
+// recognized. A leading apostrophe keeps text, untyped values and phone
+// numbers literal: Sheets would otherwise turn "00123" into 123 or
+// "03/04/2024" into a date, drop a phone number's "+", and run text starting
+// with "=" as a formula.
+const toSheetValue = (value: string, type?: FieldType) => {
+  if (!value) return value;
+  if (!type || type === 'text' || type === 'phone') return `'${value}`;
+  return value;
+};
 
-export const exportToGoogleSheet = async (
-  spreadsheetId: string, 
-  accessToken: string, 
-  data: ExtractedData,
-  sheetName: string
-): Promise<void> => {
-  if (!spreadsheetId || !accessToken) {
-    throw new Error("Missing Spreadsheet ID or Access Token");
-  }
+// Document keys often come from a field, such as an invoice number or a
+// date, which USER_ENTERED would turn into a number or date. The key is
+// written as literal text and compared exactly, so "0012" never matches "12"
+// and long numeric keys keep every digit.
+const toSheetKey = (documentKey: string) => `'${documentKey}`;
+
+const isDocumentKey = (value: CellValue, documentKey: string) =>
+  String(value ?? "").trim().replace(/^'/, "") === documentKey.trim();
+
+// Sheet name for A1 notation. Always quoted, so names such as "Q1" or
+// "R2C3" aren't read as cell references.
+const formatSheetName = (name: string) => `'${name.replace(/'/g, "''")}'`;
+
+// Zero-based column index to its A1 letter(s): 0 -> A, 26 -> AA
+const columnLetter = (index: number): string =>
+  (index >= 26 ? columnLetter(Math.floor(index / 26) - 1) : "") + String.fromCharCode(65 + (index % 26));
+
+export interface SheetsExportOptions {
+  documentKey: string;
+  mode: DuplicateMode;
+}
 
-  // --- 0. Find or Create Sheet ---
-  const getSpreadsheetUrl = `${BASE_URL}/${spreadsheetId}?fields=sheets.properties`;
-  const metaResponse = await fetch(getSpreadsheetUrl, {
-    headers: { 'Authorization': `Bearer ${accessToken}` },
+export interface SheetsExportSummary {
+  written: string[];
+  skipped: string[];
+  rowCount: number;
+}
+
+// Everything one worksheet needs, gathered so writes to all worksheets can
+// go out in as few requests as possible
+interface SheetPlan {
+  sheet: ExportSheet;
+  skipped: boolean;
+  valueUpdates: ValueRange[]; // Header row and rows overwritten in place
+  structural: object[]; // Hiding the key column, deleting rows
+  append: CellValue[][];
+}
+
+// Deletes sheet rows bottom-up so earlier deletions don't shift later ones
+const deleteRowsRequests = (sheetId: number, rows: number[]) =>
+  [...rows].sort((a, b) => b - a).map(row => ({
+    deleteDimension: { range: { sheetId, dimension: 'ROWS', startIndex: row - 1, endIndex: row } },
+  }));
+
+/**
+ * Works out the writes for one worksheet from its current header row and
+ * the sheet rows (1-based) already holding the document key.
+ */
+const planSheet = (
+  sheet: ExportSheet,
+  sheetId: number,
+  existingHeaders: string[],
+  keyRows: number[],
+  { documentKey, mode }: SheetsExportOptions
+): SheetPlan => {
+  const a1SheetName = formatSheetName(sheet.name);
+  const plan: SheetPlan = { sheet, skipped: false, valueUpdates: [], structural: [], append: [] };
+
+  if (keyRows.length > 0 && mode === 'skip') return { ...plan, skipped: true };
+
+  // --- 1. Header Union ---
+  const finalHeaders = [...sheet.headers, DOCUMENT_KEY_HEADER];
+  const masterHeaders = [...existingHeaders];
+  finalHeaders.forEach(h => {
+    if (!masterHeaders.includes(h)) masterHeaders.push(h);
   });
 
-  if (!metaResponse.ok) {
-    const err = await metaResponse.json();
-    throw new Error(err.error?.message || "Failed to access spreadsheet. Check ID and permissions.");
+  if (masterHeaders.length > existingHeaders.length) {
+    plan.valueUpdates.push({ range: `${a1SheetName}!A1`, values: [masterHeaders] });
   }
 
-  const metaData = await metaResponse.json();
-  const existingSheet = metaData.sheets.find((s: any) => s.properties.title === sheetName);
-
-  if (!existingSheet) {
-    // Sheet doesn't exist, create it
-    await fetch(`${BASE_URL}/${spreadsheetId}:batchUpdate`, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${accessToken}`,
-        'Content-Type': 'application/json',
+  if (!existingHeaders.includes(DOCUMENT_KEY_HEADER)) {
+    const keyColumn = masterHeaders.indexOf(DOCUMENT_KEY_HEADER);
+    plan.structural.push({
+      updateDimensionProperties: {
+        range: { sheetId, dimension: 'COLUMNS', startIndex: keyColumn, endIndex: keyColumn + 1 },
+        properties: { hiddenByUser: true },
+        fields: 'hiddenByUser',
       },
-      body: JSON.stringify({
-        requests: [{ addSheet: { properties: { title: sheetName } } }],
-      }),
     });
   }
 
-  // Helper to format sheet name for A1 notation (escape quotes, wrap in quotes if spaces needed)
-  const formatSheetName = (name: string) => {
-    if (/^[a-zA-Z0-9_]+$/.test(name)) return name;
-    return `'${name.replace(/'/g, "''")}'`;
-  };
-
-  const a1SheetName = formatSheetName(sheetName);
+  // --- 2. Map Values to Master Headers Order ---
+  // Columns this export doesn't have are null, which Sheets leaves untouched
+  // when rows are overwritten in place.
+  const rows: CellValue[][] = sheet.rows.map(row => {
+    const localRow = [...sheet.headers.map((_, i) => toSheetValue(row[i] ?? "", sheet.columnTypes[i])), toSheetKey(documentKey)];
+    return masterHeaders.map(header => {
+      const localIndex = finalHeaders.indexOf(header);
+      return localIndex !== -1 ? localRow[localIndex] : null;
+    });
+  });
 
-  // --- 1. Prepare Data for Export ---
-  const globalHeaders = data.fields.map(f => f.label);
-  const globalValues = data.fields.map(f => String(f.value));
+  // --- 3. Rows From Earlier Exports ---
+  if (mode === 'upsert') {
+    const overwritten = keyRows.slice(0, rows.length);
+    overwritten.forEach((row, i) => plan.valueUpdates.push({ range: `${a1SheetName}!A${row}`, values: [rows[i]] }));
+    plan.structural.push(...deleteRowsRequests(sheetId, keyRows.slice(rows.length)));
+    plan.append = rows.slice(overwritten.length);
+  } else {
+    plan.structural.push(...deleteRowsRequests(sheetId, keyRows));
+    plan.append = rows;
+  }
+  plan.append = plan.append.map(row => row.map(value => value ?? ""));
+  return plan;
+};
 
-  let finalHeaders: string[] = [...globalHeaders];
-  let rowsToAppend: string[][] = [];
+/**
+ * Writes every sheet from `buildExportSheets` to the spreadsheet, creating
+ * missing worksheets and extending the header row with new columns. Rows
+ * carry the document key in a hidden column; rows already exported under
+ * the same key are skipped, replaced or updated according to `mode`.
+ */
+export const exportToGoogleSheet = async (
+  client: SheetsClient,
+  spreadsheetId: string,
+  sheets: ExportSheet[],
+  options: SheetsExportOptions
+): Promise<SheetsExportSummary> => {
+  if (!spreadsheetId) {
+    throw new Error("Missing Spreadsheet ID");
+  }
 
-  if (data.tables.length > 0) {
-    const primaryTable = data.tables[0];
-    finalHeaders = [...finalHeaders, ...primaryTable.headers];
+  // --- 0. Find or Create Sheets ---
+  const existing = await client.getSheets(spreadsheetId);
+  const sheetIds = new Map<string, number>(existing.map(s => [s.title, s.sheetId]));
+  const missingTitles = [...new Set(sheets.map(s => s.name))].filter(name => !sheetIds.has(name));
 
-    primaryTable.rows.forEach(tableRow => {
-      const rowVals = tableRow.values.map(v => String(v));
-      while (rowVals.length < primaryTable.headers.length) rowVals.push("");
-      rowsToAppend.push([...globalValues, ...rowVals]);
+  if (missingTitles.length > 0) {
+    const created = await client.batchUpdate(
+      spreadsheetId,
+      missingTitles.map(title => ({ addSheet: { properties: { title } } }))
+    );
+    created.replies.forEach((reply, i) => {
+      const properties = reply?.addSheet?.properties;
+      if (!properties) throw new Error(`Worksheet "${missingTitles[i]}" was not created.`);
+      sheetIds.set(properties.title, properties.sheetId);
     });
-  } else {
-    rowsToAppend.push(globalValues);
   }
 
-  // --- 2. Fetch Existing Headers ---
-  const headerRange = `${a1SheetName}!A1:Z1`;
-  const encodedHeaderRange = encodeURIComponent(headerRange);
-  
-  const getResponse = await fetch(`${BASE_URL}/${spreadsheetId}/values/${encodedHeaderRange}`, {
-    method: 'GET',
-    headers: {
-      'Authorization': `Bearer ${accessToken}`,
-      'Content-Type': 'application/json',
-    }
+  // --- 1. Read Header Rows, Then Key Columns ---
+  // Whole first row, however wide the sheet has grown
+  const headerRows = await client.batchGetValues(spreadsheetId, sheets.map(s => `${formatSheetName(s.name)}!1:1`));
+  const headers = headerRows.map(values => values[0] ?? []);
+
+  const keyColumns = headers.map(h => h.indexOf(DOCUMENT_KEY_HEADER));
+  const keyed = sheets.map((_, i) => i).filter(i => keyColumns[i] !== -1);
+  const keyValues = await client.batchGetValues(spreadsheetId, keyed.map(i => {
+    const column = columnLetter(keyColumns[i]);
+    return `${formatSheetName(sheets[i].name)}!${column}2:${column}`;
+  }));
+  const keyRows = sheets.map(() => [] as number[]);
+  keyed.forEach((sheetIndex, i) => {
+    keyValues[i].forEach((row, r) => {
+      if (isDocumentKey(row[0], options.documentKey)) keyRows[sheetIndex].push(r + 2);
+    });
   });
 
-  let existingHeaders: string[] = [];
+  const plans = sheets.map((sheet, i) => planSheet(sheet, sheetIds.get(sheet.name), headers[i], keyRows[i], options));
 
-  if (getResponse.ok) {
-    const getResult = await getResponse.json();
-    existingHeaders = getResult.values?.[0] || [];
-  } else {
-    // If 400 or 404, it might just be an empty sheet or range not found yet. 
-    // We proceed assuming no headers exist yet.
-    console.warn("Could not fetch existing headers (sheet might be empty).");
+  // --- 2. Write ---
+  // Values first: rows overwritten in place sit above any rows deleted
+  // afterwards, so their row numbers stay valid.
+  await client.batchUpdateValues(spreadsheetId, plans.flatMap(p => p.valueUpdates));
+  await client.batchUpdate(spreadsheetId, plans.flatMap(p => p.structural));
+  for (const plan of plans) {
+    await client.appendValues(spreadsheetId, `${formatSheetName(plan.sheet.name)}!A1`, plan.append);
   }
 
-  // --- 3. Compute Header Union ---
-  const masterHeaders = [...existingHeaders];
-  let headersChanged = false;
+  return {
+    written: plans.filter(p => !p.skipped).map(p => p.sheet.name),
+    skipped: plans.filter(p => p.skipped).map(p => p.sheet.name),
+    rowCount: plans.filter(p => !p.skipped).reduce((sum, p) => sum + p.sheet.rows.length, 0),
+  };
+};
 
-  finalHeaders.forEach(h => {
-    if (!masterHeaders.includes(h)) {
-      masterHeaders.push(h);
-      headersChanged = true;
-    }
-  });
+// --- Reading Back ---
 
-  // Update sheet headers if needed
-  if (headersChanged) {
-    const updateRange = `${a1SheetName}!A1`;
-    const encodedUpdateRange = encodeURIComponent(updateRange);
+// Sheets serial dates count days from 1899-12-30
+const SERIAL_EPOCH = Date.UTC(1899, 11, 30);
 
-    await fetch(`${BASE_URL}/${spreadsheetId}/values/${encodedUpdateRange}?valueInputOption=USER_ENTERED`, {
-      method: 'PUT',
-      headers: {
-        'Authorization': `Bearer ${accessToken}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        range: updateRange,
-        majorDimension: 'ROWS',
-        values: [masterHeaders]
-      })
-    });
+// Canonical text for a cell read back, so values nobody touched compare equal
+// to what was exported. Text and untyped cells are read as displayed, so a
+// value typed into the sheet that Sheets took for a number or date comes back
+// as it was typed rather than as a serial number.
+const fromSheetValue = (value: CellValue, displayed: string, type: FieldType | undefined, locale: string): string => {
+  if (!type || type === 'text') return displayed;
+  if (value === null || value === "") return "";
+  if (typeof value === "number") {
+    if (type === 'date') return new Date(SERIAL_EPOCH + Math.round(value * 86400000)).toISOString().slice(0, 10);
+    // JS numbers always use "." as the decimal separator, whatever the document locale
+    if (type === 'percentage') return normalizeValue(`${value * 100}%`, type, 'en-US');
+    return normalizeValue(String(value), type, 'en-US');
   }
+  return normalizeValue(String(value), type, locale);
+};
 
-  // --- 4. Map Values to Master Headers Order ---
-  const formattedRows = rowsToAppend.map(localRow => {
-    return masterHeaders.map(header => {
-      const localIndex = finalHeaders.indexOf(header);
-      return localIndex !== -1 ? localRow[localIndex] : "";
+// Values whose field or row was deleted locally since the export are dropped
+const setValue = (data: ExtractedData, location: ValueLocation, value: string) => {
+  if (location.kind === 'field') {
+    const field = data.fields[location.fieldIndex];
+    if (field) field.value = value;
+  } else {
+    const row = data.tables[location.tableIndex]?.rows[location.rowIndex];
+    if (row) row.values[location.columnIndex] = value;
+  }
+};
+
+/**
+ * Reads the rows exported under `documentKey` back into a copy of `data`.
+ * `sheets` are the sheets as they were exported, so each cell's source says
+ * where its value goes and rows added to `data` since aren't looked for.
+ * Columns are found by header, and rows by order among the document's rows.
+ * Worksheets holding a single table also pick up rows added or deleted in
+ * the sheet.
+ */
+export const pullFromGoogleSheet = async (
+  client: SheetsClient,
+  spreadsheetId: string,
+  data: ExtractedData,
+  sheets: ExportSheet[],
+  documentKey: string,
+  locale: string
+): Promise<ExtractedData> => {
+  const titles = new Set((await client.getSheets(spreadsheetId)).map(s => s.title));
+  const present = sheets.filter(s => titles.has(s.name));
+  if (present.length === 0) {
+    throw new Error("The exported worksheets no longer exist in this spreadsheet.");
+  }
+
+  const ranges = present.map(s => formatSheetName(s.name));
+  const [contents, displayed] = await Promise.all([
+    client.batchGetUnformattedValues(spreadsheetId, ranges),
+    client.batchGetValues(spreadsheetId, ranges),
+  ]);
+  const remote: ExtractedData = structuredClone(data);
+  const removedRows: { tableIndex: number; rowIndex: number }[] = [];
+  const seenFields = new Set<number>();
+
+  present.forEach((sheet, sheetIndex) => {
+    const [headerRow = [], ...body] = contents[sheetIndex];
+    const headers = headerRow.map(h => String(h ?? ""));
+    const keyColumn = headers.indexOf(DOCUMENT_KEY_HEADER);
+    if (keyColumn === -1) return;
+
+    // Sheet row numbers (0-based, below the header) of the document's rows
+    const rows = body.map((_, r) => r).filter(r => isDocumentKey(body[r][keyColumn], documentKey));
+    const columns = sheet.headers.map(h => headers.indexOf(h));
+    const read = (row: number, c: number) => fromSheetValue(
+      body[row][columns[c]] ?? "",
+      displayed[sheetIndex][row + 1]?.[columns[c]] ?? "",
+      sheet.columnTypes[c],
+      locale
+    );
+
+    sheet.rows.forEach((_, r) => {
+      const row = rows[r];
+      if (row === undefined) {
+        if (sheet.tableIndex !== undefined) removedRows.push({ tableIndex: sheet.tableIndex, rowIndex: r });
+        return;
+      }
+      sheet.sources?.[r]?.forEach((location, c) => {
+        if (!location || columns[c] === -1) return;
+        // Fields repeat on every row of the long layout; the first row counts
+        if (location.kind === 'field') {
+          if (seenFields.has(location.fieldIndex)) return;
+          seenFields.add(location.fieldIndex);
+        }
+        setValue(remote, location, read(row, c));
+      });
     });
-  });
 
-  // --- 5. Append Rows ---
-  const appendRange = `${a1SheetName}!A2`;
-  const encodedAppendRange = encodeURIComponent(appendRange);
-
-  const appendResponse = await fetch(`${BASE_URL}/${spreadsheetId}/values/${encodedAppendRange}:append?valueInputOption=USER_ENTERED`, {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${accessToken}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      range: appendRange,
-      majorDimension: 'ROWS',
-      values: formattedRows
-    })
+    const table = remote.tables[sheet.tableIndex ?? -1];
+    if (!table) return;
+    // Sheet column of each table column, from the cell sources or by header
+    const columnOf = table.headers.map((header, j) => {
+      const fromSources = sheet.sources?.[0]?.findIndex(l => l?.kind === 'cell' && l.columnIndex === j) ?? -1;
+      return fromSources !== -1 ? fromSources : sheet.headers.indexOf(header);
+    });
+    rows.slice(sheet.rows.length).forEach(row => {
+      table.rows.push({ values: columnOf.map(c => (c === -1 || columns[c] === -1 ? "" : read(row, c))) });
+    });
   });
 
-  if (!appendResponse.ok) {
-    const err = await appendResponse.json();
-    throw new Error(err.error?.message || "Failed to append row");
-  }
-};
\ No newline at end of file
+  removedRows
+    .sort((a, b) => b.rowIndex - a.rowIndex)
+    .forEach(({ tableIndex, rowIndex }) => remote.tables[tableIndex]?.rows.splice(rowIndex, 1));
+  return remote;
+};
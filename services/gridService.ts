@@ -0,0 +1,187 @@
+import { Table, TableRow } from "../types";
+
+// Cell-range edits for the grid editor, plus the tab-separated text that
+// Excel and Google Sheets put on the clipboard.
+
+export interface CellPosition {
+  row: number;
+  column: number;
+}
+
+// Inclusive on all sides
+export interface CellRange {
+  top: number;
+  left: number;
+  bottom: number;
+  right: number;
+}
+
+export const rangeOf = (a: CellPosition, b: CellPosition): CellRange => ({
+  top: Math.min(a.row, b.row),
+  left: Math.min(a.column, b.column),
+  bottom: Math.max(a.row, b.row),
+  right: Math.max(a.column, b.column),
+});
+
+export const inRange = (range: CellRange, row: number, column: number) =>
+  row >= range.top && row <= range.bottom && column >= range.left && column <= range.right;
+
+// --- Clipboard ---
+
+/**
+ * Parses tab-separated clipboard text. Cells holding tabs, line breaks or
+ * quotes arrive quoted, with inner quotes doubled.
+ */
+export const parseTsv = (text: string): string[][] => {
+  const source = text.replace(/\r\n?/g, "\n");
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  let cellStart = true;
+
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i];
+    if (quoted) {
+      if (ch === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+      continue;
+    }
+    if (ch === '"' && cellStart) {
+      quoted = true;
+      cellStart = false;
+    } else if (ch === "\t" || ch === "\n") {
+      row.push(cell);
+      cell = "";
+      cellStart = true;
+      if (ch === "\n") {
+        rows.push(row);
+        row = [];
+      }
+    } else {
+      cell += ch;
+      cellStart = false;
+    }
+  }
+  // The trailing line break Excel adds doesn't start another row
+  if (!cellStart || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+};
+
+const quoteTsvCell = (value: string) => (/[\t\n"]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+export const toTsv = (table: Table, range: CellRange) => {
+  const lines: string[] = [];
+  for (let r = range.top; r <= range.bottom; r++) {
+    const values = table.rows[r]?.values ?? [];
+    const cells: string[] = [];
+    for (let c = range.left; c <= range.right; c++) cells.push(quoteTsvCell(values[c] ?? ""));
+    lines.push(cells.join("\t"));
+  }
+  return lines.join("\n");
+};
+
+// --- Range Edits ---
+
+/**
+ * Sets every cell of `range` to `valueAt`, adding rows below the table as
+ * needed. Columns past the last header are ignored. Changed cells lose
+ * their confidence, as for any reviewed value.
+ */
+export const updateCells = (
+  table: Table,
+  range: CellRange,
+  valueAt: (row: number, column: number, current: string) => string
+): Table => {
+  const width = table.headers.length;
+  const right = Math.min(range.right, width - 1);
+  const rows = [...table.rows];
+
+  for (let r = range.top; r <= range.bottom; r++) {
+    const row: TableRow = rows[r] ?? { values: new Array(width).fill("") };
+    let values = row.values;
+    let confidences = row.confidences;
+    let changed = !rows[r];
+    for (let c = range.left; c <= right; c++) {
+      const current = row.values[c] ?? "";
+      const next = valueAt(r, c, current);
+      if (next === current) continue;
+      if (values === row.values) {
+        values = Array.from({ length: Math.max(row.values.length, right + 1) }, (_, i) => row.values[i] ?? "");
+        confidences = confidences && [...confidences];
+      }
+      values[c] = next;
+      if (confidences) confidences[c] = null;
+      changed = true;
+    }
+    if (changed) rows[r] = { ...row, values, ...(confidences && { confidences }) };
+  }
+  return { ...table, rows };
+};
+
+/**
+ * Pastes a block of values with its top-left corner at `at`. A single value
+ * pasted onto a larger selection fills the whole selection instead.
+ */
+export const pasteCells = (table: Table, at: CellPosition, block: string[][], selection?: CellRange) => {
+  if (block.length === 0) return { table, range: rangeOf(at, at) };
+  if (selection && block.length === 1 && block[0].length === 1) {
+    return { table: updateCells(table, selection, () => block[0][0]), range: selection };
+  }
+  const range: CellRange = {
+    top: at.row,
+    left: at.column,
+    bottom: at.row + block.length - 1,
+    right: Math.min(at.column + Math.max(...block.map(r => r.length)) - 1, table.headers.length - 1),
+  };
+  return {
+    table: updateCells(table, range, (r, c, current) => block[r - range.top][c - range.left] ?? current),
+    range,
+  };
+};
+
+/** Copies the top row of `range` into every row below it. */
+export const fillDown = (table: Table, range: CellRange): Table => {
+  const source = table.rows[range.top]?.values ?? [];
+  return updateCells(table, range, (r, c, current) => (r === range.top ? current : source[c] ?? ""));
+};
+
+// --- Find and Replace ---
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const searchPattern = (query: string, matchCase: boolean) => new RegExp(escapeRegExp(query), matchCase ? "g" : "gi");
+
+/** Cells containing `query`, row by row. */
+export const findCells = (table: Table, query: string, matchCase: boolean): CellPosition[] => {
+  if (!query) return [];
+  const needle = matchCase ? query : query.toLowerCase();
+  const matches: CellPosition[] = [];
+  table.rows.forEach((row, r) => {
+    row.values.forEach((value, c) => {
+      if (c < table.headers.length && (matchCase ? value : value.toLowerCase()).includes(needle)) matches.push({ row: r, column: c });
+    });
+  });
+  return matches;
+};
+
+/** Replaces every occurrence of `query` in the given cells. */
+export const replaceInCells = (table: Table, cells: CellPosition[], query: string, replacement: string, matchCase: boolean): Table => {
+  if (!query || cells.length === 0) return table;
+  const pattern = searchPattern(query, matchCase);
+  const targets = new Set(cells.map(cell => `${cell.row}:${cell.column}`));
+  return updateCells(
+    table,
+    { top: 0, left: 0, bottom: table.rows.length - 1, right: table.headers.length - 1 },
+    (r, c, current) => (targets.has(`${r}:${c}`) ? current.replace(pattern, () => replacement) : current)
+  );
+};
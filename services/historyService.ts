@@ -0,0 +1,44 @@
+import { ExtractedData } from "../types";
+
+// Undo/redo for the data of one result. Snapshots are whole `ExtractedData`
+// values, which is cheap because edits replace only the objects they touch.
+
+const HISTORY_LIMIT = 100;
+// Edits with the same key this close together are one undo step, so typing
+// into a value undoes as a whole rather than a character at a time
+const COALESCE_MS = 1000;
+
+export interface EditHistory {
+  past: ExtractedData[];
+  future: ExtractedData[];
+  lastKey?: string;
+  lastAt: number;
+}
+
+export const EMPTY_HISTORY: EditHistory = { past: [], future: [], lastAt: 0 };
+
+/** Records `previous` as the state before an edit. Edits without a key never coalesce. */
+export const recordEdit = (history: EditHistory, previous: ExtractedData, key?: string, now = Date.now()): EditHistory => {
+  if (key && key === history.lastKey && now - history.lastAt < COALESCE_MS) {
+    return { ...history, future: [], lastAt: now };
+  }
+  return { past: [...history.past, previous].slice(-HISTORY_LIMIT), future: [], lastKey: key, lastAt: now };
+};
+
+/** Steps back from `current`; null when there is nothing to undo. */
+export const undoEdit = (history: EditHistory, current: ExtractedData) => {
+  if (history.past.length === 0) return null;
+  return {
+    data: history.past[history.past.length - 1],
+    history: { past: history.past.slice(0, -1), future: [current, ...history.future], lastAt: 0 },
+  };
+};
+
+/** Steps forward from `current`; null when there is nothing to redo. */
+export const redoEdit = (history: EditHistory, current: ExtractedData) => {
+  if (history.future.length === 0) return null;
+  return {
+    data: history.future[0],
+    history: { past: [...history.past, current], future: history.future.slice(1), lastAt: 0 },
+  };
+};
@@ -0,0 +1,40 @@
+import { BoundingBox } from "../types";
+
+const JPEG_QUALITY = 0.9;
+
+export const loadImage = (src: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error("Failed to load image."));
+    image.src = src;
+  });
+
+/** Cuts `box` (fractions of the image size) out of an image and returns it as a JPEG data URL. */
+export const cropImage = async (src: string, box: BoundingBox): Promise<string> => {
+  const image = await loadImage(src);
+  const sx = Math.round(box.x * image.naturalWidth);
+  const sy = Math.round(box.y * image.naturalHeight);
+  const width = Math.max(1, Math.round(box.width * image.naturalWidth));
+  const height = Math.max(1, Math.round(box.height * image.naturalHeight));
+
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext("2d");
+  if (!context) throw new Error("Canvas 2D context is not available.");
+
+  context.fillStyle = "#ffffff";
+  context.fillRect(0, 0, width, height);
+  context.drawImage(image, sx, sy, width, height, 0, 0, width, height);
+  return canvas.toDataURL("image/jpeg", JPEG_QUALITY);
+};
+
+/** SHA-256 of a string, as hex. */
+export const sha256Hex = async (text: string): Promise<string> => {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, "0")).join("");
+};
+
+/** SHA-256 over the page images, as hex. Identical uploads give the same hash. */
+export const hashPages = (pages: string[]): Promise<string> => sha256Hex(pages.join("\n"));
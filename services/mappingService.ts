@@ -0,0 +1,81 @@
+import { ExportSheet, MappingProfile } from "../types";
+
+const MAPPING_PROFILES_KEY = "mappingProfiles";
+
+// --- Storage ---
+
+export const loadMappingProfiles = (): MappingProfile[] => {
+  try {
+    const saved = localStorage.getItem(MAPPING_PROFILES_KEY);
+    if (saved) return JSON.parse(saved);
+  } catch (error) {
+    console.error("Failed to parse mappingProfiles from localStorage", error);
+  }
+  return [];
+};
+
+export const saveMappingProfiles = (profiles: MappingProfile[]) => {
+  localStorage.setItem(MAPPING_PROFILES_KEY, JSON.stringify(profiles));
+};
+
+// --- Matching ---
+
+const normalizeName = (name: string) => name.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, " ").trim();
+
+/**
+ * Picks the profile for a worksheet: an exact spreadsheet and worksheet
+ * match wins over profiles that leave either one open.
+ */
+export const findMappingProfile = (profiles: MappingProfile[], spreadsheetId: string, worksheet: string) => {
+  const score = (p: MappingProfile) => {
+    if (p.spreadsheetId && p.spreadsheetId !== spreadsheetId) return -1;
+    if (p.worksheet && p.worksheet !== worksheet) return -1;
+    return (p.spreadsheetId ? 2 : 0) + (p.worksheet ? 1 : 0);
+  };
+  const candidates = profiles.filter(p => score(p) >= 0).sort((a, b) => score(b) - score(a));
+  return candidates[0] ?? null;
+};
+
+/** Starts a profile that maps every column of `sheet` onto itself. */
+export const createProfileFromSheet = (sheet: ExportSheet, spreadsheetId: string): MappingProfile => ({
+  id: `mapping-${Date.now()}`,
+  name: sheet.name,
+  spreadsheetId,
+  worksheet: sheet.name,
+  columns: sheet.headers.map(header => ({ target: header, sources: [header] })),
+  unmapped: "catchAll",
+  catchAllColumn: "Other",
+});
+
+/**
+ * Rewrites a sheet onto the profile's target columns, in profile order.
+ * Values in columns no target claims are dropped or joined into the
+ * catch-all column as "Label: value" pairs.
+ */
+export const applyMappingProfile = (sheet: ExportSheet, profile: MappingProfile): ExportSheet => {
+  const used = new Set<number>();
+  const sourceIndexes = profile.columns.map(column => {
+    const wanted = [column.target, ...column.sources].map(normalizeName);
+    const index = sheet.headers.findIndex((h, i) => !used.has(i) && wanted.includes(normalizeName(h)));
+    if (index !== -1) used.add(index);
+    return index;
+  });
+  const leftover = sheet.headers.map((_, i) => i).filter(i => !used.has(i));
+  const catchAll = profile.unmapped === "catchAll" && profile.catchAllColumn.trim();
+
+  return {
+    ...sheet,
+    headers: [...profile.columns.map(c => c.target), ...(catchAll ? [catchAll] : [])],
+    columnTypes: [...sourceIndexes.map(i => (i === -1 ? undefined : sheet.columnTypes[i])), ...(catchAll ? ["text" as const] : [])],
+    rows: sheet.rows.map(row => [
+      ...sourceIndexes.map(i => (i === -1 ? "" : row[i] ?? "")),
+      ...(catchAll
+        ? [leftover.filter(i => row[i]).map(i => `${sheet.headers[i]}: ${row[i]}`).join("; ")]
+        : []),
+    ]),
+    sources: sheet.sources?.map(row => [
+      ...sourceIndexes.map(i => (i === -1 ? null : row[i] ?? null)),
+      ...(catchAll ? [null] : []),
+    ]),
+  };
+};
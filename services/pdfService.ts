@@ -0,0 +1,113 @@
+import { ExtractedData, Field, Table } from "../types";
+
+// Rendering resolution. 2x keeps small print legible for the vision model
+// without producing multi-megabyte page images.
+const RENDER_SCALE = 2;
+const JPEG_QUALITY = 0.85;
+
+export const isPdfFile = (file: File) =>
+  file.type === "application/pdf" || file.name.toLowerCase().endsWith(".pdf");
+
+/**
+ * Renders every page of a PDF to a JPEG data URL, in page order.
+ * pdf.js is loaded lazily so the main bundle stays small for image-only users.
+ */
+export const renderPdfToImages = async (
+  file: File,
+  onPageRendered?: (pageNumber: number, pageCount: number) => void
+): Promise<string[]> => {
+  const pdfjs = await import("pdfjs-dist");
+  pdfjs.GlobalWorkerOptions.workerSrc = new URL(
+    "pdfjs-dist/build/pdf.worker.min.mjs",
+    import.meta.url
+  ).toString();
+
+  const buffer = await file.arrayBuffer();
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(buffer) }).promise;
+
+  try {
+    const pages: string[] = [];
+
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const viewport = page.getViewport({ scale: RENDER_SCALE });
+
+      const canvas = document.createElement("canvas");
+      canvas.width = Math.ceil(viewport.width);
+      canvas.height = Math.ceil(viewport.height);
+      const context = canvas.getContext("2d");
+      if (!context) throw new Error("Canvas 2D context is not available.");
+
+      // PDFs have a transparent background; JPEG would turn it black.
+      context.fillStyle = "#ffffff";
+      context.fillRect(0, 0, canvas.width, canvas.height);
+
+      await page.render({ canvasContext: context, viewport }).promise;
+      pages.push(canvas.toDataURL("image/jpeg", JPEG_QUALITY));
+      page.cleanup();
+
+      onPageRendered?.(pageNumber, pdf.numPages);
+    }
+
+    return pages;
+  } finally {
+    await pdf.destroy();
+  }
+};
+
+// --- Page Merging ---
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase().replace(/\s+/g, " ");
+
+const sameHeaders = (a: string[], b: string[]) =>
+  a.length === b.length && a.every((h, i) => normalizeHeader(h) === normalizeHeader(b[i]));
+
+// Page breaks often repeat the header line as the first row of the continuation.
+const isRepeatedHeaderRow = (values: string[], headers: string[]) =>
+  values.length === headers.length && values.every((v, i) => normalizeHeader(String(v)) === normalizeHeader(headers[i]));
+
+// Records which page each bounding box belongs to
+const withPageIndex = (data: ExtractedData, page: number): ExtractedData => ({
+  fields: data.fields.map(f => (f.box ? { ...f, box: { ...f.box, page } } : f)),
+  tables: data.tables.map(t => ({
+    ...t,
+    rows: t.rows.map(r => (r.boxes ? { ...r, boxes: r.boxes.map(b => b && { ...b, page }) } : r)),
+  })),
+});
+
+/**
+ * Merges per-page extraction results into a single document.
+ *
+ * - Bounding boxes are tagged with the page they were found on.
+ * - Fields are de-duplicated by label; the first non-empty value wins.
+ * - A table whose headers match a table from an earlier page is treated as a
+ *   continuation and its rows are appended to that table.
+ */
+export const mergePageResults = (pages: ExtractedData[]): ExtractedData => {
+  const fields: Field[] = [];
+  const tables: Table[] = [];
+
+  pages.map(withPageIndex).forEach(page => {
+    page.fields.forEach(field => {
+      const existing = fields.find(f => normalizeHeader(f.label) === normalizeHeader(field.label));
+      if (!existing) {
+        fields.push({ ...field });
+      } else if (String(existing.value).trim() === "" && String(field.value).trim() !== "") {
+        Object.assign(existing, { value: field.value, confidence: field.confidence, box: field.box });
+      }
+    });
+
+    page.tables.forEach(table => {
+      const rows = table.rows.filter(r => !isRepeatedHeaderRow(r.values, table.headers));
+      const continued = [...tables].reverse().find(t => sameHeaders(t.headers, table.headers));
+
+      if (continued) {
+        continued.rows = [...continued.rows, ...rows];
+      } else {
+        tables.push({ ...table, rows });
+      }
+    });
+  });
+
+  return { fields, tables };
+};
@@ -0,0 +1,307 @@
+import { Point, PreprocessingSettings, Quad } from "../types";
+import { detectDocument, FrameData, luminance, otsuThreshold, quadArea } from "./edgeDetection";
+
+// Cleans up page images before extraction: upright, cropped to the page,
+// straight, legible and no larger than the model needs. Pixel work is done
+// on plain `FrameData` so it doesn't depend on a canvas.
+
+export const DEFAULT_PREPROCESSING: PreprocessingSettings = {
+  enabled: true,
+  perspective: true,
+  deskew: true,
+  contrast: true,
+  maxDimension: 2000,
+  format: 'image/jpeg',
+  quality: 0.9,
+};
+
+const ANALYSIS_WIDTH = 240; // Detection and skew estimates run on a copy this wide
+const FULL_PAGE_AREA = 0.85; // Outlines covering more of the image are treated as an already cropped scan
+const MAX_SKEW_DEGREES = 5;
+const SKEW_STEP_DEGREES = 0.25;
+const MIN_SKEW_DEGREES = 0.3; // Smaller angles aren't worth resampling for
+const CONTRAST_CLIP = 0.01; // Share of darkest and lightest pixels allowed to clip
+const MIN_TONAL_RANGE = 200; // Images already spanning this many levels are left alone
+
+// --- EXIF ---
+
+/**
+ * Orientation tag (1–8) of a JPEG, or 1 when there is none. Decoding
+ * applies it; this only tells whether it did anything.
+ */
+export const readExifOrientation = (bytes: Uint8Array): number => {
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) return 1;
+  let offset = 2;
+  while (offset + 4 < bytes.length) {
+    if (bytes[offset] !== 0xff) return 1;
+    const marker = bytes[offset + 1];
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    if (marker === 0xda) return 1; // Image data starts; no EXIF before it
+    if (marker === 0xe1 && String.fromCharCode(...bytes.subarray(offset + 4, offset + 8)) === "Exif") {
+      const tiff = offset + 10;
+      const little = bytes[tiff] === 0x49;
+      const read16 = (o: number) => (little ? bytes[o] | (bytes[o + 1] << 8) : (bytes[o] << 8) | bytes[o + 1]);
+      const read32 = (o: number) => (little ? read16(o) + read16(o + 2) * 0x10000 : read16(o) * 0x10000 + read16(o + 2));
+      const ifd = tiff + read32(tiff + 4);
+      const entries = read16(ifd);
+      for (let i = 0; i < entries; i++) {
+        const entry = ifd + 2 + i * 12;
+        if (read16(entry) === 0x0112) return read16(entry + 8);
+      }
+      return 1;
+    }
+    offset += 2 + length;
+  }
+  return 1;
+};
+
+// --- Perspective ---
+
+// Solves the square system `a·x = b` by Gaussian elimination with partial pivoting
+const solve = (a: number[][], b: number[]) => {
+  const n = b.length;
+  const m = a.map((row, i) => [...row, b[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) if (Math.abs(m[r][col]) > Math.abs(m[pivot][col])) pivot = r;
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+    for (let r = 0; r < n; r++) {
+      if (r === col || m[col][col] === 0) continue;
+      const factor = m[r][col] / m[col][col];
+      for (let c = col; c <= n; c++) m[r][c] -= factor * m[col][c];
+    }
+  }
+  return m.map((row, i) => row[n] / row[i]);
+};
+
+/** Homography taking each point of `from` to the matching point of `to`. */
+const homography = (from: Point[], to: Point[]) => {
+  const a: number[][] = [];
+  const b: number[] = [];
+  from.forEach((p, i) => {
+    const q = to[i];
+    a.push([p.x, p.y, 1, 0, 0, 0, -q.x * p.x, -q.x * p.y]);
+    b.push(q.x);
+    a.push([0, 0, 0, p.x, p.y, 1, -q.y * p.x, -q.y * p.y]);
+    b.push(q.y);
+  });
+  const [h0, h1, h2, h3, h4, h5, h6, h7] = solve(a, b);
+  return (x: number, y: number): Point => {
+    const w = h6 * x + h7 * y + 1;
+    return { x: (h0 * x + h1 * y + h2) / w, y: (h3 * x + h4 * y + h5) / w };
+  };
+};
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+/**
+ * Maps the quadrilateral `quad` (pixels of `src`) onto an upright rectangle
+ * sized by its longer opposite edges, sampling bilinearly.
+ */
+export const warpPerspective = (src: FrameData, quad: Quad): FrameData => {
+  const [tl, tr, br, bl] = quad;
+  const width = Math.max(1, Math.round(Math.max(distance(tl, tr), distance(bl, br))));
+  const height = Math.max(1, Math.round(Math.max(distance(tl, bl), distance(tr, br))));
+  const toSource = homography(
+    [{ x: 0, y: 0 }, { x: width - 1, y: 0 }, { x: width - 1, y: height - 1 }, { x: 0, y: height - 1 }],
+    quad
+  );
+
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const { x: sx, y: sy } = toSource(x, y);
+      const x0 = Math.max(0, Math.min(src.width - 2, Math.floor(sx)));
+      const y0 = Math.max(0, Math.min(src.height - 2, Math.floor(sy)));
+      const fx = Math.max(0, Math.min(1, sx - x0));
+      const fy = Math.max(0, Math.min(1, sy - y0));
+      const i00 = (y0 * src.width + x0) * 4;
+      const i10 = i00 + 4;
+      const i01 = i00 + src.width * 4;
+      const i11 = i01 + 4;
+      const out = (y * width + x) * 4;
+      for (let c = 0; c < 4; c++) {
+        const top = src.data[i00 + c] * (1 - fx) + src.data[i10 + c] * fx;
+        const bottom = src.data[i01 + c] * (1 - fx) + src.data[i11 + c] * fx;
+        data[out + c] = top * (1 - fy) + bottom * fy;
+      }
+    }
+  }
+  return { data, width, height };
+};
+
+// --- Deskew ---
+
+/**
+ * Angle in degrees by which the text lines of `frame` are rotated clockwise.
+ * Lines are straight when the dark pixels' row profile is most peaked, so
+ * each candidate angle is scored by the sum of squared row counts.
+ */
+export const estimateSkew = (frame: FrameData): number => {
+  const { width } = frame;
+  const gray = luminance(frame);
+  const threshold = otsuThreshold(gray);
+  const dark: number[] = [];
+  gray.forEach((v, i) => { if (v <= threshold) dark.push(i); });
+  // Mostly dark images (photos, not pages) have no text lines to go by
+  if (dark.length === 0 || dark.length > gray.length / 2) return 0;
+
+  let best = 0;
+  let bestScore = -1;
+  for (let degrees = -MAX_SKEW_DEGREES; degrees <= MAX_SKEW_DEGREES; degrees += SKEW_STEP_DEGREES) {
+    const radians = (degrees * Math.PI) / 180;
+    const sin = Math.sin(radians);
+    const cos = Math.cos(radians);
+    const rows = new Map<number, number>();
+    dark.forEach(i => {
+      const x = i % width;
+      const y = (i - x) / width;
+      const row = Math.round(y * cos - x * sin);
+      rows.set(row, (rows.get(row) ?? 0) + 1);
+    });
+    let score = 0;
+    rows.forEach(count => { score += count * count; });
+    if (score > bestScore) {
+      bestScore = score;
+      best = degrees;
+    }
+  }
+  return best;
+};
+
+// --- Contrast ---
+
+/** Stretches the tonal range so the darkest and lightest 1% clip. Works in place; false when nothing changed. */
+export const stretchContrast = (frame: FrameData): boolean => {
+  const gray = luminance(frame);
+  const histogram = new Array(256).fill(0);
+  gray.forEach(v => histogram[v]++);
+  const clip = gray.length * CONTRAST_CLIP;
+
+  let low = 0;
+  for (let count = 0; low < 255 && count + histogram[low] <= clip; low++) count += histogram[low];
+  let high = 255;
+  for (let count = 0; high > 0 && count + histogram[high] <= clip; high--) count += histogram[high];
+  if (high - low >= MIN_TONAL_RANGE || high <= low) return false;
+
+  const scale = 255 / (high - low);
+  const { data } = frame;
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = (data[i] - low) * scale;
+    data[i + 1] = (data[i + 1] - low) * scale;
+    data[i + 2] = (data[i + 2] - low) * scale;
+  }
+  return true;
+};
+
+// --- Canvas ---
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext("2d", { willReadFrequently: true });
+  if (!context) throw new Error("Canvas 2D context is not available.");
+  return { canvas, context };
+};
+
+// Draws `source` scaled to `width` × `height` on a white background, since
+// transparent areas would turn black as JPEG
+const drawScaled = (source: CanvasImageSource, width: number, height: number) => {
+  const target = createCanvas(Math.max(1, Math.round(width)), Math.max(1, Math.round(height)));
+  target.context.fillStyle = "#ffffff";
+  target.context.fillRect(0, 0, target.canvas.width, target.canvas.height);
+  target.context.drawImage(source, 0, 0, target.canvas.width, target.canvas.height);
+  return target;
+};
+
+const readFrame = ({ canvas, context }: ReturnType<typeof createCanvas>): ImageData =>
+  context.getImageData(0, 0, canvas.width, canvas.height);
+
+const frameToCanvas = (frame: FrameData) => {
+  const target = createCanvas(frame.width, frame.height);
+  const image = target.context.createImageData(frame.width, frame.height);
+  image.data.set(frame.data);
+  target.context.putImageData(image, 0, 0);
+  return target;
+};
+
+const analysisFrame = (canvas: HTMLCanvasElement) => {
+  const scale = Math.min(1, ANALYSIS_WIDTH / canvas.width);
+  return { frame: readFrame(drawScaled(canvas, canvas.width * scale, canvas.height * scale)), scale };
+};
+
+const rotate = (canvas: HTMLCanvasElement, degrees: number) => {
+  const target = createCanvas(canvas.width, canvas.height);
+  target.context.fillStyle = "#ffffff";
+  target.context.fillRect(0, 0, canvas.width, canvas.height);
+  target.context.translate(canvas.width / 2, canvas.height / 2);
+  target.context.rotate((degrees * Math.PI) / 180);
+  target.context.drawImage(canvas, -canvas.width / 2, -canvas.height / 2);
+  return target;
+};
+
+// --- Pipeline ---
+
+export interface PreprocessedImage {
+  image: string; // Data URL in the configured format
+  steps: string[]; // What was changed, for display
+}
+
+/**
+ * Runs the enabled preprocessing steps on one page image. Falls back to the
+ * input if the browser can't decode it.
+ */
+export const preprocessImage = async (dataUrl: string, settings: PreprocessingSettings): Promise<PreprocessedImage> => {
+  const steps: string[] = [];
+  const blob = await (await fetch(dataUrl)).blob();
+  // Decoding with the EXIF orientation applied leaves upright pixels and no tag to misread
+  const bitmap = await createImageBitmap(blob, { imageOrientation: "from-image" }).catch(() => null);
+  if (!bitmap) return { image: dataUrl, steps };
+  if (readExifOrientation(new Uint8Array(await blob.slice(0, 128 * 1024).arrayBuffer())) > 1) steps.push("Rotated upright");
+
+  // Later steps work at up to twice the output size, so cropping keeps detail
+  const limit = settings.maxDimension > 0 ? settings.maxDimension * 2 : Infinity;
+  const workScale = Math.min(1, limit / Math.max(bitmap.width, bitmap.height));
+  let current = drawScaled(bitmap, bitmap.width * workScale, bitmap.height * workScale);
+  bitmap.close();
+
+  // --- 1. Perspective ---
+  if (settings.perspective) {
+    const { frame, scale } = analysisFrame(current.canvas);
+    const quad = detectDocument(frame);
+    if (quad && quadArea(quad) < FULL_PAGE_AREA) {
+      const corners = quad.map(p => ({ x: p.x * frame.width / scale, y: p.y * frame.height / scale })) as Quad;
+      current = frameToCanvas(warpPerspective(readFrame(current), corners));
+      steps.push("Cropped to the page");
+    }
+  }
+
+  // --- 2. Deskew ---
+  if (settings.deskew) {
+    const skew = estimateSkew(analysisFrame(current.canvas).frame);
+    if (Math.abs(skew) >= MIN_SKEW_DEGREES) {
+      current = rotate(current.canvas, -skew);
+      steps.push(`Straightened by ${Math.abs(skew)}°`);
+    }
+  }
+
+  // --- 3. Contrast ---
+  if (settings.contrast) {
+    const frame = readFrame(current);
+    if (stretchContrast(frame)) {
+      current.context.putImageData(frame, 0, 0);
+      steps.push("Contrast adjusted");
+    }
+  }
+
+  // --- 4. Size ---
+  const { width, height } = current.canvas;
+  const outScale = settings.maxDimension > 0 ? Math.min(1, settings.maxDimension / Math.max(width, height)) : 1;
+  if (outScale < 1) current = drawScaled(current.canvas, width * outScale, height * outScale);
+  if (outScale < 1 || workScale < 1) steps.push(`Resized to ${current.canvas.width}×${current.canvas.height}`);
+
+  // Browsers without an encoder for the format fall back to PNG, and the
+  // data URL says so
+  return { image: current.canvas.toDataURL(settings.format, settings.quality), steps };
+};
@@ -0,0 +1,44 @@
+import { ExtractionProvider, ExtractionRequest, ResponseCache } from "../../types";
+import { sha256Hex } from "../imageService";
+import { parseImageDataUrl } from "./providerUtils";
+
+// Wraps a provider so identical requests are answered from a cache. A
+// request is identical when the image bytes, the provider and model, and
+// the prompt and schema all match; editing a template changes its prompt,
+// so stale responses are never reused for it.
+
+interface CacheOptions {
+  bypassCache?: boolean; // Skip the lookup but still store the fresh response
+  onLookup?: (hit: boolean) => void;
+}
+
+/** Cache key of a request sent to `provider`. */
+export const requestCacheKey = async (provider: ExtractionProvider, request: ExtractionRequest): Promise<string> => {
+  const [image, instructions] = await Promise.all([
+    sha256Hex(parseImageDataUrl(request.image).data),
+    sha256Hex(`${request.prompt}\n${JSON.stringify(request.schema)}`),
+  ]);
+  return [provider.id, provider.model, image, instructions].join(":");
+};
+
+export const withResponseCache = (
+  provider: ExtractionProvider,
+  cache: ResponseCache,
+  { bypassCache = false, onLookup }: CacheOptions = {}
+): ExtractionProvider => ({
+  ...provider,
+  extract: async (request) => {
+    const key = await requestCacheKey(provider, request);
+    // A broken cache shouldn't stop extraction, only make it cost more
+    const cached = bypassCache ? undefined : await cache.get(key).catch(error => {
+      console.error("Failed to read the response cache", error);
+      return undefined;
+    });
+    onLookup?.(cached !== undefined);
+    if (cached !== undefined) return cached;
+
+    const response = await provider.extract(request);
+    await cache.put(key, response).catch(error => console.error("Failed to write the response cache", error));
+    return response;
+  },
+});
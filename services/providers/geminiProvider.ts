@@ -0,0 +1,70 @@
+import { GoogleGenAI, Schema, Type } from "@google/genai";
+import { ExtractionProvider, ProviderConfig, ResponseSchema } from "../../types";
+import { parseImageDataUrl, ProviderError, withTimeout } from "./providerUtils";
+
+// `import.meta.env` only exists under Vite; the evaluation CLI runs in plain Node.
+const envApiKey: string | undefined = import.meta.env?.VITE_GOOGLE_API_KEY;
+
+const TYPE_MAP: Record<ResponseSchema["type"], Type> = {
+  object: Type.OBJECT,
+  array: Type.ARRAY,
+  string: Type.STRING,
+  number: Type.NUMBER,
+  integer: Type.INTEGER,
+  boolean: Type.BOOLEAN,
+};
+
+const toGeminiSchema = (schema: ResponseSchema): Schema => ({
+  type: TYPE_MAP[schema.type],
+  description: schema.description,
+  enum: schema.enum,
+  nullable: schema.nullable,
+  required: schema.required,
+  items: schema.items ? toGeminiSchema(schema.items) : undefined,
+  properties: schema.properties
+    ? Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)]))
+    : undefined,
+});
+
+export const createGeminiProvider = (config: ProviderConfig): ExtractionProvider => {
+  const apiKey = config.apiKey || envApiKey;
+  // The client is created lazily so a missing key only fails the extraction, not the app
+  let ai: GoogleGenAI | null = null;
+
+  return {
+    id: "gemini",
+    model: config.model,
+    extract: async ({ image, prompt, schema, signal }) => {
+      if (!apiKey) {
+        throw new ProviderError("No Gemini API key configured. Set VITE_GOOGLE_API_KEY or add a key in Settings.");
+      }
+      ai ??= new GoogleGenAI({ apiKey });
+
+      const { mimeType, data } = parseImageDataUrl(image);
+
+      const response = await withTimeout(config.timeoutMs, signal, (abortSignal) =>
+        ai!.models.generateContent({
+          model: config.model,
+          contents: {
+            parts: [
+              {
+                inlineData: { mimeType, data }
+              },
+              { text: prompt }
+            ]
+          },
+          config: {
+            abortSignal,
+            temperature: config.temperature,
+            responseMimeType: "application/json",
+            responseSchema: toGeminiSchema(schema),
+          }
+        })
+      );
+
+      const text = response.text;
+      if (!text) throw new ProviderError("No data returned from Vision API");
+      return JSON.parse(text);
+    },
+  };
+};
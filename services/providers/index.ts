@@ -0,0 +1,31 @@
+import { ExtractionProvider, ExtractionSettings, ProviderConfig, ProviderId } from "../../types";
+import { createGeminiProvider } from "./geminiProvider";
+import { createOpenAiCompatibleProvider } from "./openAiCompatibleProvider";
+import { createMockProvider } from "./mockProvider";
+
+export const PROVIDER_LABELS: Record<ProviderId, string> = {
+  gemini: "Google Gemini",
+  openai: "OpenAI-compatible (local or hosted)",
+  mock: "Mock (offline demo)",
+};
+
+export const DEFAULT_PROVIDER_CONFIGS: Record<ProviderId, ProviderConfig> = {
+  gemini: { model: "gemini-2.5-flash", temperature: 0, timeoutMs: 60000, apiKey: "", baseUrl: "" },
+  openai: { model: "llava", temperature: 0, timeoutMs: 120000, apiKey: "", baseUrl: "http://localhost:11434/v1" },
+  mock: { model: "mock-invoice", temperature: 0, timeoutMs: 10000, apiKey: "", baseUrl: "" },
+};
+
+export const createProvider = (id: ProviderId, config: ProviderConfig): ExtractionProvider => {
+  switch (id) {
+    case "gemini":
+      return createGeminiProvider(config);
+    case "openai":
+      return createOpenAiCompatibleProvider(config);
+    case "mock":
+      return createMockProvider(config);
+  }
+};
+
+/** Builds the provider currently selected in the extraction settings. */
+export const getActiveProvider = (settings: ExtractionSettings): ExtractionProvider =>
+  createProvider(settings.providerId, settings.providers[settings.providerId]);
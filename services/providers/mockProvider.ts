@@ -0,0 +1,135 @@
+import { ExtractionProvider, ProviderConfig, ResponseSchema } from "../../types";
+
+// Offline provider for demos and tests. The same image and prompt always
+// produce the same response, and responses always satisfy the request schema.
+
+// FNV-1a, sampled so multi-megabyte data URLs hash quickly
+const hashString = (text: string) => {
+  let hash = 0x811c9dc5;
+  const step = Math.max(1, Math.floor(text.length / 4096));
+  for (let i = 0; i < text.length; i += step) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Mulberry32 pseudo-random generator
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+type Random = () => number;
+
+const PRODUCTS = ["Copy paper A4", "Toner cartridge", "Stapler", "Desk lamp", "USB-C cable", "Notebook", "Whiteboard markers"];
+const VENDORS = ["Acme Supplies Ltd", "Northwind Traders", "Contoso Office", "Globex Wholesale"];
+
+const pick = <T>(items: T[], random: Random) => items[Math.floor(random() * items.length)];
+
+const COLUMN_X = [0.08, 0.52, 0.64, 0.8];
+
+const confidence = (random: Random) => Math.round((0.55 + random() * 0.45) * 100) / 100;
+
+const box = (x: number, y: number, width: number) => ({ x, y, width, height: 0.03 });
+
+const sampleDocument = (random: Random) => {
+  const lineCount = 2 + Math.floor(random() * 4);
+  const rows = Array.from({ length: lineCount }, (_, i) => {
+    const quantity = 1 + Math.floor(random() * 10);
+    const unitPrice = Math.round((2 + random() * 48) * 100) / 100;
+    const y = 0.42 + i * 0.05;
+    return {
+      values: [pick(PRODUCTS, random), String(quantity), unitPrice.toFixed(2), (quantity * unitPrice).toFixed(2)],
+      confidences: COLUMN_X.map(() => confidence(random)),
+      boxes: COLUMN_X.map((x, column) => box(x, y, column === 0 ? 0.36 : 0.12)),
+    };
+  });
+  const subtotal = rows.reduce((sum, r) => sum + Number(r.values[3]), 0);
+  const tax = Math.round(subtotal * 0.2 * 100) / 100;
+  const day = 1 + Math.floor(random() * 28);
+  const totalsY = 0.46 + lineCount * 0.05;
+
+  const fields = [
+    { label: "Invoice Number", value: `INV-${1000 + Math.floor(random() * 9000)}`, type: "text", box: box(0.6, 0.08, 0.2) },
+    { label: "Date", value: `2024-03-${String(day).padStart(2, "0")}`, type: "date", box: box(0.6, 0.12, 0.2) },
+    { label: "Vendor Name", value: pick(VENDORS, random), type: "text", box: box(0.08, 0.08, 0.35) },
+    { label: "Subtotal", value: subtotal.toFixed(2), type: "money", box: box(0.8, totalsY, 0.12) },
+    { label: "Tax", value: tax.toFixed(2), type: "money", box: box(0.8, totalsY + 0.04, 0.12) },
+    { label: "Total", value: (subtotal + tax).toFixed(2), type: "money", box: box(0.8, totalsY + 0.08, 0.12) },
+  ];
+
+  return {
+    fields: fields.map(f => ({ ...f, confidence: confidence(random) })),
+    tables: [
+      {
+        name: "Line Items",
+        headers: ["Description", "Quantity", "Unit Price", "Amount"],
+        columnTypes: ["text", "number", "money", "money"],
+        rows,
+      },
+    ],
+  };
+};
+
+/**
+ * Fills in whatever `value` is missing so it matches `schema`: absent
+ * properties are generated, strings outside an enum are replaced.
+ */
+const conformToSchema = (value: any, schema: ResponseSchema, random: Random, key = "value"): unknown => {
+  switch (schema.type) {
+    case "object": {
+      const source = value && typeof value === "object" && !Array.isArray(value) ? value : {};
+      const result: Record<string, unknown> = { ...source };
+      Object.entries(schema.properties ?? {}).forEach(([prop, propSchema]) => {
+        result[prop] = conformToSchema(source[prop], propSchema, random, prop);
+      });
+      return result;
+    }
+    case "array": {
+      const items = Array.isArray(value) ? value : Array.from({ length: 1 + Math.floor(random() * 3) });
+      return schema.items ? items.map(item => conformToSchema(item, schema.items!, random, key)) : items;
+    }
+    case "string":
+      if (schema.enum?.length) return schema.enum.includes(value) ? value : pick(schema.enum, random);
+      return typeof value === "string" ? value : `${key} ${1 + Math.floor(random() * 100)}`;
+    case "number":
+      return typeof value === "number" ? value : Math.round(random() * 1000) / 1000;
+    case "integer":
+      return typeof value === "number" ? Math.round(value) : Math.floor(random() * 100);
+    case "boolean":
+      return typeof value === "boolean" ? value : random() > 0.5;
+  }
+};
+
+const MOCK_LATENCY_MS = 600;
+
+export const createMockProvider = (config: ProviderConfig): ExtractionProvider => ({
+  id: "mock",
+  model: config.model,
+  extract: async ({ image, prompt, schema, signal }) => {
+    await new Promise<void>((resolve, reject) => {
+      const abortError = () => signal.reason ?? new DOMException("Aborted", "AbortError");
+      if (signal?.aborted) {
+        reject(abortError());
+        return;
+      }
+      // Removed once the delay is over, so a long-lived signal doesn't collect listeners
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(abortError());
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve();
+      }, MOCK_LATENCY_MS);
+      signal?.addEventListener("abort", onAbort, { once: true });
+    });
+
+    const random = createRandom(hashString(image) ^ hashString(prompt));
+    const looksLikeDocument = Boolean(schema.properties?.fields && schema.properties?.tables);
+    return conformToSchema(looksLikeDocument ? sampleDocument(random) : {}, schema, random);
+  },
+});
@@ -0,0 +1,67 @@
+import { ExtractionProvider, ProviderConfig } from "../../types";
+import { ProviderError, parseJsonResponse, withTimeout } from "./providerUtils";
+
+/**
+ * Talks to any server implementing the OpenAI Chat Completions API with image
+ * input: OpenAI itself, or local model servers such as Ollama, LM Studio,
+ * llama.cpp and vLLM.
+ */
+export const createOpenAiCompatibleProvider = (config: ProviderConfig): ExtractionProvider => ({
+  id: "openai",
+  model: config.model,
+  extract: async ({ image, prompt, schema, signal }) => {
+    if (!config.baseUrl) {
+      throw new ProviderError("No base URL configured for the OpenAI-compatible provider.");
+    }
+    const url = `${config.baseUrl.replace(/\/+$/, "")}/chat/completions`;
+
+    const response = await withTimeout(config.timeoutMs, signal, (abortSignal) =>
+      fetch(url, {
+        method: "POST",
+        signal: abortSignal,
+        headers: {
+          "Content-Type": "application/json",
+          ...(config.apiKey && { Authorization: `Bearer ${config.apiKey}` }),
+        },
+        body: JSON.stringify({
+          model: config.model,
+          temperature: config.temperature,
+          messages: [
+            {
+              role: "user",
+              content: [
+                {
+                  type: "text",
+                  text: `${prompt}\n\nRespond only with a JSON object matching this JSON Schema:\n${JSON.stringify(schema)}`,
+                },
+                { type: "image_url", image_url: { url: image } },
+              ],
+            },
+          ],
+          // Servers without structured output support ignore this and fall
+          // back to the JSON instructions in the prompt.
+          response_format: {
+            type: "json_schema",
+            json_schema: { name: "extraction", schema },
+          },
+        }),
+      })
+    );
+
+    if (!response.ok) {
+      let message = `Request failed with status ${response.status}`;
+      try {
+        const err = await response.json();
+        message = err.error?.message || message;
+      } catch {
+        // Body was not JSON; keep the status message
+      }
+      throw new ProviderError(message, response.status);
+    }
+
+    const body = await response.json();
+    const content = body.choices?.[0]?.message?.content;
+    if (!content) throw new ProviderError("No data returned from model server");
+    return parseJsonResponse(content);
+  },
+});
@@ -0,0 +1,64 @@
+// Helpers shared by the extraction providers.
+
+/** Error raised by a provider, carrying the HTTP status when there is one. */
+export class ProviderError extends Error {
+  status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = "ProviderError";
+    this.status = status;
+  }
+}
+
+/**
+ * Runs `fn` with a signal that aborts when either the caller's signal aborts
+ * or `timeoutMs` elapses. A timeout surfaces as a 408 so it can be retried.
+ */
+export const withTimeout = async <T>(
+  timeoutMs: number,
+  signal: AbortSignal | undefined,
+  fn: (signal: AbortSignal) => Promise<T>
+): Promise<T> => {
+  const timeoutSignal = AbortSignal.timeout(timeoutMs);
+  const combined = signal ? AbortSignal.any([signal, timeoutSignal]) : timeoutSignal;
+
+  try {
+    return await fn(combined);
+  } catch (error) {
+    if (timeoutSignal.aborted && !signal?.aborted) {
+      throw new ProviderError(`Extraction timed out after ${Math.round(timeoutMs / 1000)}s`, 408);
+    }
+    throw error;
+  }
+};
+
+/**
+ * MIME type and base64 payload of an image data URL. A bare base64 string
+ * is taken as JPEG.
+ */
+export const parseImageDataUrl = (image: string) => {
+  const match = /^data:([^;,]+)?(;base64)?,(.*)$/s.exec(image);
+  if (!match) return { mimeType: "image/jpeg", data: image };
+  const [, mimeType = "image/jpeg", base64, payload] = match;
+  return { mimeType, data: base64 ? payload : btoa(decodeURIComponent(payload)) };
+};
+
+/**
+ * Parses a JSON object out of model text output. Local models often wrap
+ * JSON in markdown fences or add a sentence around it.
+ */
+export const parseJsonResponse = (text: string): unknown => {
+  const trimmed = text.trim();
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    const fenced = /```(?:json)?\s*([\s\S]*?)```/.exec(trimmed);
+    if (fenced) return JSON.parse(fenced[1]);
+
+    const start = trimmed.indexOf("{");
+    const end = trimmed.lastIndexOf("}");
+    if (start !== -1 && end > start) return JSON.parse(trimmed.slice(start, end + 1));
+    throw new ProviderError("Model response was not valid JSON");
+  }
+};
@@ -0,0 +1,153 @@
+import { ArithmeticRules, ColumnRole, DataIssue, ExtractedData, IssueTarget, Table, TotalRole } from "../types";
+import { parseAmount } from "./valueService";
+
+// Arithmetic cross-checks catch digits misread by the model: each line's
+// quantity × unit price should equal its amount, the lines should add up to
+// the subtotal (or total), and subtotal + tax should equal the total.
+
+export const DEFAULT_ARITHMETIC_RULES: ArithmeticRules = {
+  enabled: true,
+  tolerance: 0.01,
+  columns: {
+    quantity: ["Quantity", "Qty", "Units"],
+    unitPrice: ["Unit Price", "Price", "Rate", "Unit Cost"],
+    amount: ["Amount", "Line Total", "Total", "Net"],
+  },
+  fields: {
+    subtotal: ["Subtotal", "Sub Total", "Net Amount", "Net Total"],
+    tax: ["Tax", "VAT", "Tax Amount", "Sales Tax"],
+    total: ["Total", "Total Amount", "Grand Total", "Amount Due", "Total Due"],
+  },
+};
+
+export const COLUMN_ROLE_LABELS: Record<ColumnRole, string> = {
+  quantity: "Quantity",
+  unitPrice: "Unit price",
+  amount: "Line amount",
+};
+
+export const TOTAL_ROLE_LABELS: Record<TotalRole, string> = {
+  subtotal: "Subtotal",
+  tax: "Tax",
+  total: "Total",
+};
+
+const normalizeName = (name: string) => name.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+
+const findByName = (candidates: string[], names: string[]) => {
+  const wanted = names.map(normalizeName);
+  // Earlier names in the role list win, so "Amount" is preferred over "Total"
+  for (const name of wanted) {
+    const index = candidates.findIndex(c => normalizeName(c) === name);
+    if (index !== -1) return index;
+  }
+  return -1;
+};
+
+const format = (value: number) => value.toFixed(2);
+
+const differs = (a: number, b: number, tolerance: number) => Math.abs(a - b) > tolerance + 1e-9;
+
+// --- Line items ---
+
+const checkRows = (table: Table, tableIndex: number, rules: ArithmeticRules, locale: string): DataIssue[] => {
+  const quantityIndex = findByName(table.headers, rules.columns.quantity);
+  const priceIndex = findByName(table.headers, rules.columns.unitPrice);
+  const amountIndex = findByName(table.headers, rules.columns.amount);
+  if (quantityIndex === -1 || priceIndex === -1 || amountIndex === -1) return [];
+
+  const issues: DataIssue[] = [];
+  table.rows.forEach((row, rowIndex) => {
+    const quantity = parseAmount(row.values[quantityIndex] ?? "", locale);
+    const price = parseAmount(row.values[priceIndex] ?? "", locale);
+    const amount = parseAmount(row.values[amountIndex] ?? "", locale);
+    if (quantity === null || price === null || amount === null) return;
+
+    const expected = quantity * price;
+    if (!differs(expected, amount, rules.tolerance)) return;
+
+    const message = `Quantity × unit price is ${format(expected)}, but the amount is ${format(amount)}.`;
+    [quantityIndex, priceIndex, amountIndex].forEach(columnIndex => {
+      issues.push({ severity: "warning", message, target: { kind: "cell", tableIndex, rowIndex, columnIndex } });
+    });
+  });
+  return issues;
+};
+
+// Sum of the amount column over all line item tables, or null when there are
+// no lines or an amount can't be read (type validation reports that case).
+const sumLines = (data: ExtractedData, rules: ArithmeticRules, locale: string) => {
+  let sum = 0;
+  let lines = 0;
+  for (const table of data.tables) {
+    const amountIndex = findByName(table.headers, rules.columns.amount);
+    if (amountIndex === -1) continue;
+    for (const row of table.rows) {
+      const raw = String(row.values[amountIndex] ?? "").trim();
+      if (!raw) continue;
+      const amount = parseAmount(raw, locale);
+      if (amount === null) return null;
+      sum += amount;
+      lines++;
+    }
+  }
+  return lines > 0 ? sum : null;
+};
+
+// --- Totals ---
+
+const checkTotals = (data: ExtractedData, rules: ArithmeticRules, locale: string): DataIssue[] => {
+  const labels = data.fields.map(f => f.label);
+  const lookup = (role: TotalRole) => {
+    const fieldIndex = findByName(labels, rules.fields[role]);
+    const value = fieldIndex === -1 ? null : parseAmount(data.fields[fieldIndex].value, locale);
+    return value === null ? null : { value, target: { kind: "field", fieldIndex } as IssueTarget };
+  };
+  const subtotal = lookup("subtotal");
+  const tax = lookup("tax");
+  const total = lookup("total");
+  const issues: DataIssue[] = [];
+
+  if (subtotal && tax && total && differs(subtotal.value + tax.value, total.value, rules.tolerance)) {
+    issues.push({
+      severity: "warning",
+      message: `Subtotal + tax is ${format(subtotal.value + tax.value)}, but the total is ${format(total.value)}.`,
+      target: total.target,
+    });
+  }
+
+  const lines = sumLines(data, rules, locale);
+  if (lines !== null) {
+    if (subtotal) {
+      if (differs(lines, subtotal.value, rules.tolerance)) {
+        issues.push({
+          severity: "warning",
+          message: `Line items add up to ${format(lines)}, but the subtotal is ${format(subtotal.value)}.`,
+          target: subtotal.target,
+        });
+      }
+    } else if (total) {
+      const expected = lines + (tax?.value ?? 0);
+      if (differs(expected, total.value, rules.tolerance)) {
+        issues.push({
+          severity: "warning",
+          message: tax
+            ? `Line items plus tax add up to ${format(expected)}, but the total is ${format(total.value)}.`
+            : `Line items add up to ${format(expected)}, but the total is ${format(total.value)}.`,
+          target: total.target,
+        });
+      }
+    }
+  }
+
+  return issues;
+};
+
+/** Runs every arithmetic cross-check enabled in `rules` and returns the inconsistencies found. */
+export const checkArithmetic = (data: ExtractedData, rules: ArithmeticRules, locale: string): DataIssue[] => {
+  if (!rules.enabled) return [];
+  return [
+    ...data.tables.flatMap((table, tableIndex) => checkRows(table, tableIndex, rules, locale)),
+    ...checkTotals(data, rules, locale),
+  ];
+};
@@ -0,0 +1,137 @@
+import { DocumentType, ExportSettings, ExtractionSettings, ProviderId, SheetConfig, SheetDestination } from "../types";
+import { DEFAULT_PROVIDER_CONFIGS } from "./providers";
+import { AUTO_TEMPLATE_ID } from "./classificationService";
+import { DEFAULT_ARITHMETIC_RULES } from "./rulesService";
+import { DEFAULT_PREPROCESSING } from "./preprocessingService";
+
+const EXTRACTION_SETTINGS_KEY = "extractionSettings";
+const EXPORT_SETTINGS_KEY = "exportSettings";
+const SHEET_CONFIG_KEY = "sheetConfig";
+
+export const DEFAULT_EXTRACTION_SETTINGS: ExtractionSettings = {
+  concurrency: 3,
+  maxRetries: 3,
+  providerId: "gemini",
+  providers: DEFAULT_PROVIDER_CONFIGS,
+  activeTemplateId: AUTO_TEMPLATE_ID,
+  templateByType: {
+    invoice: "supplier-invoice",
+    receipt: null,
+    inventory: "delivery-note",
+    id: "id-card",
+    unknown: null,
+  },
+  locale: typeof navigator !== "undefined" ? navigator.language : "en-US",
+  arithmeticRules: DEFAULT_ARITHMETIC_RULES,
+  confidenceThreshold: 0.7,
+  preprocessing: DEFAULT_PREPROCESSING,
+  cacheResponses: true,
+};
+
+/**
+ * Reads extraction settings from localStorage, filling in defaults for
+ * anything saved by an older version of the app.
+ */
+export const loadExtractionSettings = (): ExtractionSettings => {
+  try {
+    const saved = localStorage.getItem(EXTRACTION_SETTINGS_KEY);
+    if (saved) {
+      const parsed = JSON.parse(saved);
+      const providers = { ...DEFAULT_PROVIDER_CONFIGS };
+      (Object.keys(providers) as ProviderId[]).forEach(id => {
+        providers[id] = { ...providers[id], ...parsed.providers?.[id] };
+      });
+      return {
+        ...DEFAULT_EXTRACTION_SETTINGS,
+        ...parsed,
+        providerId: parsed.providerId in providers ? parsed.providerId : DEFAULT_EXTRACTION_SETTINGS.providerId,
+        providers,
+        templateByType: { ...DEFAULT_EXTRACTION_SETTINGS.templateByType, ...parsed.templateByType },
+        arithmeticRules: {
+          ...DEFAULT_ARITHMETIC_RULES,
+          ...parsed.arithmeticRules,
+          columns: { ...DEFAULT_ARITHMETIC_RULES.columns, ...parsed.arithmeticRules?.columns },
+          fields: { ...DEFAULT_ARITHMETIC_RULES.fields, ...parsed.arithmeticRules?.fields },
+        },
+        preprocessing: { ...DEFAULT_PREPROCESSING, ...parsed.preprocessing },
+      };
+    }
+  } catch (error) {
+    console.error("Failed to parse extractionSettings from localStorage", error);
+  }
+  return DEFAULT_EXTRACTION_SETTINGS;
+};
+
+export const saveExtractionSettings = (settings: ExtractionSettings) => {
+  localStorage.setItem(EXTRACTION_SETTINGS_KEY, JSON.stringify(settings));
+};
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  layout: "perTable",
+  keySource: "imageHash",
+  keyField: "Invoice Number",
+  duplicateMode: "upsert",
+};
+
+export const loadExportSettings = (): ExportSettings => {
+  try {
+    const saved = localStorage.getItem(EXPORT_SETTINGS_KEY);
+    if (saved) return { ...DEFAULT_EXPORT_SETTINGS, ...JSON.parse(saved) };
+  } catch (error) {
+    console.error("Failed to parse exportSettings from localStorage", error);
+  }
+  return DEFAULT_EXPORT_SETTINGS;
+};
+
+export const saveExportSettings = (settings: ExportSettings) => {
+  localStorage.setItem(EXPORT_SETTINGS_KEY, JSON.stringify(settings));
+};
+
+export const DEFAULT_SHEET_CONFIG: SheetConfig = {
+  clientId: "",
+  destinations: [],
+  defaultDestinationId: null,
+};
+
+// Configs saved before destinations held one spreadsheet ID and a worksheet
+// name per document type; each becomes a destination in that spreadsheet.
+const migrateSheetConfig = (saved: any): SheetConfig => {
+  if (Array.isArray(saved.destinations)) return { ...DEFAULT_SHEET_CONFIG, ...saved };
+
+  const config: SheetConfig = { ...DEFAULT_SHEET_CONFIG, clientId: saved.clientId ?? "" };
+  if (!saved.spreadsheetId) return config;
+
+  const base: SheetDestination = { id: "destination-default", name: "Default", spreadsheetId: saved.spreadsheetId, worksheet: "" };
+  const destinations = [base];
+  const destinationByType: Partial<Record<DocumentType, string>> = {};
+  Object.entries(saved.worksheetByType ?? {}).forEach(([type, worksheet]) => {
+    if (typeof worksheet !== "string" || !worksheet.trim()) return;
+    const destination = { ...base, id: `destination-${type}`, name: worksheet.trim(), worksheet: worksheet.trim() };
+    destinations.push(destination);
+    destinationByType[type as DocumentType] = destination.id;
+  });
+  return { ...config, destinations, defaultDestinationId: base.id, destinationByType };
+};
+
+export const loadSheetConfig = (): SheetConfig => {
+  try {
+    const saved = localStorage.getItem(SHEET_CONFIG_KEY);
+    if (saved) {
+      const parsed = JSON.parse(saved);
+      if (typeof parsed.clientId === "string") return migrateSheetConfig(parsed);
+    }
+  } catch (error) {
+    console.error("Failed to parse sheetConfig from localStorage", error);
+  }
+  return DEFAULT_SHEET_CONFIG;
+};
+
+export const saveSheetConfig = (config: SheetConfig) => {
+  localStorage.setItem(SHEET_CONFIG_KEY, JSON.stringify(config));
+};
+
+/** Destination for a document type: its own when set, otherwise the default. */
+export const resolveDestination = (config: SheetConfig, type?: DocumentType): SheetDestination | null => {
+  const id = (type && config.destinationByType?.[type]) || config.defaultDestinationId;
+  return config.destinations.find(d => d.id === id) ?? config.destinations[0] ?? null;
+};
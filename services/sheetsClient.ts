@@ -0,0 +1,221 @@
+import { withRetry } from "./extractionQueue";
+
+// A thin typed client for the Google Sheets v4 REST API, plus the Drive
+// listing used to pick a spreadsheet. Failures surface as
+// SheetsApiError subclasses by status code; rate limits and server errors
+// are retried, and a 401 gets one retry with a freshly requested token.
+// `fetch` and the base URLs can be swapped to run against a local mock server.
+
+export const SHEETS_BASE_URL = "https://sheets.googleapis.com/v4/spreadsheets";
+export const DRIVE_BASE_URL = "https://www.googleapis.com/drive/v3";
+
+// --- Errors ---
+
+export class SheetsApiError extends Error {
+  status: number;
+  reason?: string; // Google's error status, e.g. "PERMISSION_DENIED"
+
+  constructor(message: string, status: number, reason?: string) {
+    super(message);
+    this.name = "SheetsApiError";
+    this.status = status;
+    this.reason = reason;
+  }
+}
+
+export class SheetsAuthError extends SheetsApiError {
+  constructor(message: string, reason?: string) {
+    super(message, 401, reason);
+    this.name = "SheetsAuthError";
+  }
+}
+
+export class SheetsPermissionError extends SheetsApiError {
+  constructor(message: string, reason?: string) {
+    super(message, 403, reason);
+    this.name = "SheetsPermissionError";
+  }
+}
+
+export class SheetsNotFoundError extends SheetsApiError {
+  constructor(message: string, reason?: string) {
+    super(message, 404, reason);
+    this.name = "SheetsNotFoundError";
+  }
+}
+
+export class SheetsRateLimitError extends SheetsApiError {
+  constructor(message: string, reason?: string) {
+    super(message, 429, reason);
+    this.name = "SheetsRateLimitError";
+  }
+}
+
+const toApiError = (status: number, message: string, reason?: string): SheetsApiError => {
+  switch (status) {
+    case 401: return new SheetsAuthError(message, reason);
+    case 403: return new SheetsPermissionError(message, reason);
+    case 404: return new SheetsNotFoundError(message, reason);
+    case 429: return new SheetsRateLimitError(message, reason);
+    default: return new SheetsApiError(message, status, reason);
+  }
+};
+
+// --- API shapes ---
+
+export interface SheetProperties {
+  sheetId: number;
+  title: string;
+  index: number;
+  gridProperties?: { rowCount: number; columnCount: number };
+}
+
+export type CellValue = string | number | boolean | null; // null leaves the cell as it is
+
+export interface ValueRange {
+  range: string;
+  values: CellValue[][];
+}
+
+// A spreadsheet file as listed by Drive
+export interface SpreadsheetFile {
+  id: string;
+  name: string;
+  modifiedTime?: string; // RFC 3339
+}
+
+export interface BatchUpdateResponse {
+  replies: any[]; // One per request, in request order; shapes vary by request type
+}
+
+export interface SheetsClient {
+  /** Spreadsheets the user can open, most recently modified first, optionally filtered by name. */
+  listSpreadsheets: (search?: string) => Promise<SpreadsheetFile[]>;
+  createSpreadsheet: (title: string) => Promise<SpreadsheetFile>;
+  getSheets: (spreadsheetId: string) => Promise<SheetProperties[]>;
+  /** Reads several ranges in one call; rows come back as displayed strings. */
+  batchGetValues: (spreadsheetId: string, ranges: string[]) => Promise<string[][][]>;
+  /** Like batchGetValues, but numbers come back as numbers and dates as serial day numbers. */
+  batchGetUnformattedValues: (spreadsheetId: string, ranges: string[]) => Promise<CellValue[][][]>;
+  /** Writes several ranges in one call with USER_ENTERED parsing. */
+  batchUpdateValues: (spreadsheetId: string, data: ValueRange[]) => Promise<void>;
+  appendValues: (spreadsheetId: string, range: string, values: CellValue[][]) => Promise<void>;
+  /** Runs structural requests (add sheet, delete rows, ...) in one call. */
+  batchUpdate: (spreadsheetId: string, requests: object[]) => Promise<BatchUpdateResponse>;
+}
+
+export interface SheetsClientOptions {
+  getAccessToken: (forceRefresh?: boolean) => Promise<string>;
+  fetch?: typeof fetch;
+  baseUrl?: string;
+  driveBaseUrl?: string;
+  maxRetries?: number;
+  baseDelayMs?: number;
+}
+
+export const createSheetsClient = ({
+  getAccessToken,
+  fetch: fetchFn = (input, init) => fetch(input, init),
+  baseUrl = SHEETS_BASE_URL,
+  driveBaseUrl = DRIVE_BASE_URL,
+  maxRetries = 3,
+  baseDelayMs,
+}: SheetsClientOptions): SheetsClient => {
+  const root = baseUrl.replace(/\/+$/, "");
+  const driveRoot = driveBaseUrl.replace(/\/+$/, "");
+  const neverAborted = new AbortController().signal;
+
+  const send = async (method: string, url: string, body: unknown, forceRefresh: boolean) => {
+    const accessToken = await getAccessToken(forceRefresh);
+    const response = await fetchFn(url, {
+      method,
+      headers: {
+        "Authorization": `Bearer ${accessToken}`,
+        ...(body !== undefined && { "Content-Type": "application/json" }),
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      let message = `Sheets request failed with status ${response.status}`;
+      let reason: string | undefined;
+      try {
+        const err = await response.json();
+        message = err.error?.message || message;
+        reason = err.error?.status;
+      } catch {
+        // Body was not JSON; keep the status message
+      }
+      throw toApiError(response.status, message, reason);
+    }
+    return response.status === 204 ? {} : response.json();
+  };
+
+  const requestUrl = (method: string, url: string, body?: unknown) =>
+    withRetry(async () => {
+      try {
+        return await send(method, url, body, false);
+      } catch (error) {
+        // The token may have been revoked or expired early
+        if (error instanceof SheetsAuthError) return send(method, url, body, true);
+        throw error;
+      }
+    }, { maxRetries, signal: neverAborted, baseDelayMs });
+
+  const request = (method: string, path: string, body?: unknown) => requestUrl(method, `${root}/${path}`, body);
+
+  const id = (spreadsheetId: string) => encodeURIComponent(spreadsheetId);
+
+  const batchGet = async (spreadsheetId: string, ranges: string[], options: string) => {
+    if (ranges.length === 0) return [];
+    const query = ranges.map(r => `ranges=${encodeURIComponent(r)}`).join("&");
+    const result = await request("GET", `${id(spreadsheetId)}/values:batchGet?${query}${options}`);
+    return ranges.map((_, i) => result.valueRanges?.[i]?.values ?? []);
+  };
+
+  return {
+    listSpreadsheets: async (search = "") => {
+      const filters = ["mimeType='application/vnd.google-apps.spreadsheet'", "trashed=false"];
+      if (search.trim()) filters.push(`name contains '${search.trim().replace(/\\/g, "\\\\").replace(/'/g, "\\'")}'`);
+      const query = new URLSearchParams({
+        q: filters.join(" and "),
+        orderBy: "modifiedTime desc",
+        pageSize: "50",
+        fields: "files(id,name,modifiedTime)",
+      });
+      const result = await requestUrl("GET", `${driveRoot}/files?${query}`);
+      return result.files ?? [];
+    },
+    createSpreadsheet: async (title) => {
+      const result = await requestUrl("POST", root, { properties: { title } });
+      return { id: result.spreadsheetId, name: result.properties?.title ?? title };
+    },
+    getSheets: async (spreadsheetId) => {
+      const result = await request("GET", `${id(spreadsheetId)}?fields=sheets.properties`);
+      return (result.sheets ?? []).map((s: { properties: SheetProperties }) => s.properties);
+    },
+    batchGetValues: (spreadsheetId, ranges) => batchGet(spreadsheetId, ranges, ""),
+    batchGetUnformattedValues: (spreadsheetId, ranges) =>
+      batchGet(spreadsheetId, ranges, "&valueRenderOption=UNFORMATTED_VALUE&dateTimeRenderOption=SERIAL_NUMBER"),
+    batchUpdateValues: async (spreadsheetId, data) => {
+      if (data.length === 0) return;
+      await request("POST", `${id(spreadsheetId)}/values:batchUpdate`, {
+        valueInputOption: "USER_ENTERED",
+        data: data.map(d => ({ ...d, majorDimension: "ROWS" })),
+      });
+    },
+    appendValues: async (spreadsheetId, range, values) => {
+      if (values.length === 0) return;
+      await request(
+        "POST",
+        `${id(spreadsheetId)}/values/${encodeURIComponent(range)}:append?valueInputOption=USER_ENTERED&insertDataOption=INSERT_ROWS`,
+        { range, majorDimension: "ROWS", values }
+      );
+    },
+    batchUpdate: async (spreadsheetId, requests) => {
+      if (requests.length === 0) return { replies: [] };
+      const result = await request("POST", `${id(spreadsheetId)}:batchUpdate`, { requests });
+      return { replies: result.replies ?? [] };
+    },
+  };
+};
@@ -0,0 +1,298 @@
+import { AppStatus, HistoryEntry, ProcessedResult, ResponseCache } from "../types";
+
+// Results are split across two object stores: `results` holds the light
+// record (data, name, status, thumbnail) so the history list loads quickly,
+// and `images` holds the full-size source images, written only when they change.
+// A third store, `responses`, caches raw provider responses by request key.
+const DB_NAME = "lenslogic";
+const DB_VERSION = 2;
+const RESULTS_STORE = "results";
+const IMAGES_STORE = "images";
+const RESPONSES_STORE = "responses";
+const WORKSPACE_KEY = "workspace";
+
+const THUMBNAIL_SIZE = 160;
+
+interface StoredResult extends Omit<ProcessedResult, "image" | "pages" | "originalPages"> {
+  updatedAt: number;
+  thumbnail: string;
+  pageCount: number;
+}
+
+interface StoredImages {
+  id: string;
+  image: string;
+  pages?: string[];
+  originalPages?: string[];
+}
+
+interface StoredResponse {
+  key: string;
+  response: unknown;
+  size: number; // Length of the JSON, for the cache stats
+  hits: number;
+  createdAt: number;
+}
+
+export interface Workspace {
+  openIds: string[];
+  activeId: string | null;
+}
+
+export interface CacheStats {
+  entries: number;
+  bytes: number;
+  hits: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        const results = db.objectStoreNames.contains(RESULTS_STORE)
+          ? request.transaction!.objectStore(RESULTS_STORE)
+          : db.createObjectStore(RESULTS_STORE, { keyPath: "id" });
+        if (!results.indexNames.contains("updatedAt")) results.createIndex("updatedAt", "updatedAt");
+        if (!results.indexNames.contains("contentHash")) results.createIndex("contentHash", "contentHash");
+        if (!db.objectStoreNames.contains(IMAGES_STORE)) {
+          db.createObjectStore(IMAGES_STORE, { keyPath: "id" });
+        }
+        if (!db.objectStoreNames.contains(RESPONSES_STORE)) {
+          db.createObjectStore(RESPONSES_STORE, { keyPath: "key" });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const promisifyRequest = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const completeTransaction = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+const createThumbnail = (dataUrl: string) =>
+  new Promise<string>((resolve) => {
+    const img = new Image();
+    img.onload = () => {
+      const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(img.width, img.height));
+      const canvas = document.createElement("canvas");
+      canvas.width = Math.max(1, Math.round(img.width * scale));
+      canvas.height = Math.max(1, Math.round(img.height * scale));
+      canvas.getContext("2d")?.drawImage(img, 0, 0, canvas.width, canvas.height);
+      resolve(canvas.toDataURL("image/jpeg", 0.7));
+    };
+    // A missing thumbnail shouldn't block saving the result
+    img.onerror = () => resolve("");
+    img.src = dataUrl;
+  });
+
+// Image strings written per result id during this session, so unchanged
+// images are not rewritten on every edit.
+const writtenImages = new Map<string, string>();
+const thumbnails = new Map<string, string>();
+
+// --- Results ---
+
+export const saveResults = async (results: ProcessedResult[]): Promise<void> => {
+  if (results.length === 0) return;
+
+  // Thumbnails are generated before the transaction opens; IndexedDB
+  // transactions auto-commit as soon as they are left idle across an await.
+  const changedImages = results.filter(r => writtenImages.get(r.id) !== r.image);
+  for (const result of changedImages) {
+    thumbnails.set(result.id, await createThumbnail(result.image));
+  }
+
+  const db = await openDatabase();
+  const tx = db.transaction([RESULTS_STORE, IMAGES_STORE], "readwrite");
+  const resultStore = tx.objectStore(RESULTS_STORE);
+  const imageStore = tx.objectStore(IMAGES_STORE);
+  const now = Date.now();
+
+  results.forEach(result => {
+    const { image, pages, originalPages, ...rest } = result;
+    const record: StoredResult = {
+      ...rest,
+      updatedAt: now,
+      thumbnail: thumbnails.get(result.id) ?? "",
+      pageCount: pages?.length ?? 1,
+    };
+    resultStore.put(record);
+  });
+
+  changedImages.forEach(result => {
+    const images: StoredImages = { id: result.id, image: result.image, pages: result.pages, originalPages: result.originalPages };
+    imageStore.put(images);
+  });
+
+  await completeTransaction(tx);
+  changedImages.forEach(result => writtenImages.set(result.id, result.image));
+};
+
+// Work that was in flight when the page closed cannot resume by itself;
+// surface it as cancelled so the tab offers a retry.
+const restoreStatus = (record: StoredResult): Pick<ProcessedResult, "status" | "statusMessage" | "progress"> => {
+  switch (record.status) {
+    case AppStatus.QUEUED:
+    case AppStatus.ANALYZING:
+      return { status: AppStatus.CANCELLED, statusMessage: "Interrupted by page reload", progress: undefined };
+    case AppStatus.EXPORTING:
+      return { status: AppStatus.SUCCESS, statusMessage: undefined, progress: record.progress };
+    default:
+      return { status: record.status, statusMessage: record.statusMessage, progress: record.progress };
+  }
+};
+
+export const loadResults = async (ids: string[]): Promise<ProcessedResult[]> => {
+  if (ids.length === 0) return [];
+
+  const db = await openDatabase();
+  const tx = db.transaction([RESULTS_STORE, IMAGES_STORE], "readonly");
+  const resultStore = tx.objectStore(RESULTS_STORE);
+  const imageStore = tx.objectStore(IMAGES_STORE);
+
+  const loaded = await Promise.all(
+    ids.map(async (id) => {
+      const [record, images] = await Promise.all([
+        promisifyRequest<StoredResult | undefined>(resultStore.get(id)),
+        promisifyRequest<StoredImages | undefined>(imageStore.get(id)),
+      ]);
+      if (!record || !images) return null;
+
+      const { updatedAt, thumbnail, pageCount, ...rest } = record;
+      writtenImages.set(id, images.image);
+      thumbnails.set(id, thumbnail);
+
+      const result: ProcessedResult = {
+        ...rest,
+        ...restoreStatus(record),
+        image: images.image,
+        pages: images.pages,
+        originalPages: images.originalPages,
+      };
+      return result;
+    })
+  );
+
+  return loaded.filter((r): r is ProcessedResult => r !== null);
+};
+
+export const listHistory = async (): Promise<HistoryEntry[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(RESULTS_STORE, "readonly");
+  const records = await promisifyRequest<StoredResult[]>(tx.objectStore(RESULTS_STORE).getAll());
+
+  return records
+    .map(({ id, name, data, status, createdAt, updatedAt, thumbnail, pageCount }) => ({
+      id,
+      name,
+      data,
+      status,
+      createdAt,
+      updatedAt,
+      thumbnail,
+      pageCount,
+    }))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const deleteResults = async (ids: string[]): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction([RESULTS_STORE, IMAGES_STORE], "readwrite");
+  ids.forEach(id => {
+    tx.objectStore(RESULTS_STORE).delete(id);
+    tx.objectStore(IMAGES_STORE).delete(id);
+    writtenImages.delete(id);
+    thumbnails.delete(id);
+  });
+  await completeTransaction(tx);
+};
+
+/** Saved results whose pages hash to `contentHash`, oldest first. */
+export const findResultsByHash = async (contentHash: string): Promise<Pick<HistoryEntry, "id" | "name" | "createdAt">[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(RESULTS_STORE, "readonly");
+  const records = await promisifyRequest<StoredResult[]>(tx.objectStore(RESULTS_STORE).index("contentHash").getAll(contentHash));
+  return records
+    .map(({ id, name, createdAt }) => ({ id, name, createdAt }))
+    .sort((a, b) => a.createdAt - b.createdAt);
+};
+
+// --- Response Cache ---
+
+export const responseCache: ResponseCache = {
+  get: async (key) => {
+    const db = await openDatabase();
+    const tx = db.transaction(RESPONSES_STORE, "readwrite");
+    const store = tx.objectStore(RESPONSES_STORE);
+    const entry = await promisifyRequest<StoredResponse | undefined>(store.get(key));
+    if (!entry) return undefined;
+    store.put({ ...entry, hits: entry.hits + 1 });
+    await completeTransaction(tx);
+    return entry.response;
+  },
+  put: async (key, response) => {
+    const db = await openDatabase();
+    const tx = db.transaction(RESPONSES_STORE, "readwrite");
+    const entry: StoredResponse = { key, response, size: JSON.stringify(response)?.length ?? 0, hits: 0, createdAt: Date.now() };
+    tx.objectStore(RESPONSES_STORE).put(entry);
+    await completeTransaction(tx);
+  },
+};
+
+export const getCacheStats = async (): Promise<CacheStats> => {
+  const db = await openDatabase();
+  const tx = db.transaction(RESPONSES_STORE, "readonly");
+  const entries = await promisifyRequest<StoredResponse[]>(tx.objectStore(RESPONSES_STORE).getAll());
+  return {
+    entries: entries.length,
+    bytes: entries.reduce((sum, e) => sum + e.size, 0),
+    hits: entries.reduce((sum, e) => sum + e.hits, 0),
+  };
+};
+
+export const clearResponseCache = async (): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(RESPONSES_STORE, "readwrite");
+  tx.objectStore(RESPONSES_STORE).clear();
+  await completeTransaction(tx);
+};
+
+// --- Workspace (open tabs) ---
+
+export const loadWorkspace = (): Workspace => {
+  try {
+    const saved = localStorage.getItem(WORKSPACE_KEY);
+    if (saved) {
+      const parsed = JSON.parse(saved);
+      if (Array.isArray(parsed.openIds)) {
+        return { openIds: parsed.openIds, activeId: parsed.activeId ?? null };
+      }
+    }
+  } catch (error) {
+    console.error("Failed to parse workspace from localStorage", error);
+  }
+  return { openIds: [], activeId: null };
+};
+
+export const saveWorkspace = (workspace: Workspace) => {
+  localStorage.setItem(WORKSPACE_KEY, JSON.stringify(workspace));
+};
@@ -0,0 +1,152 @@
+import { ExtractedData, FieldType, Table, TableRow } from "../types";
+
+// Structural edits to tables. Each returns new objects for what it changes
+// and shares the rest, so earlier versions stay intact for undo.
+
+// Applies `edit` to every array parallel to a row's values
+const mapRowArrays = (row: TableRow, edit: <T>(values: T[], fill: T) => T[]): TableRow => ({
+  ...row,
+  values: edit(row.values, ""),
+  ...(row.confidences && { confidences: edit(row.confidences, null) }),
+  ...(row.boxes && { boxes: edit(row.boxes, null) }),
+});
+
+const withTable = (data: ExtractedData, tableIndex: number, edit: (table: Table) => Table): ExtractedData => ({
+  ...data,
+  tables: data.tables.map((t, i) => (i === tableIndex ? edit(t) : t)),
+});
+
+const columnTypesOf = (table: Table): FieldType[] => table.headers.map((_, i) => table.columnTypes?.[i] ?? 'text');
+
+// --- Columns ---
+
+/** Inserts an empty column before `index`; an index past the end appends. */
+export const insertColumn = (table: Table, index: number, header = "", type: FieldType = 'text'): Table => {
+  const at = Math.min(index, table.headers.length);
+  const insert = <T>(values: T[], fill: T) => {
+    // Short rows are padded so the new cell lines up with its header
+    const padded = values.length < at ? [...values, ...new Array<T>(at - values.length).fill(fill)] : values;
+    return [...padded.slice(0, at), fill, ...padded.slice(at)];
+  };
+  const columnTypes = columnTypesOf(table);
+  return {
+    ...table,
+    headers: [...table.headers.slice(0, at), header, ...table.headers.slice(at)],
+    columnTypes: [...columnTypes.slice(0, at), type, ...columnTypes.slice(at)],
+    rows: table.rows.map(row => mapRowArrays(row, insert)),
+  };
+};
+
+export const deleteColumn = (table: Table, index: number): Table => {
+  const remove = <T>(values: T[]) => values.filter((_, i) => i !== index);
+  return {
+    ...table,
+    headers: remove(table.headers),
+    ...(table.columnTypes && { columnTypes: remove(table.columnTypes) }),
+    rows: table.rows.map(row => mapRowArrays(row, remove)),
+  };
+};
+
+// --- Rows ---
+
+/** Moves a row so it ends up at index `to`. */
+export const moveRow = (table: Table, from: number, to: number): Table => {
+  if (from === to) return table;
+  const rows = [...table.rows];
+  const [row] = rows.splice(from, 1);
+  rows.splice(to, 0, row);
+  return { ...table, rows };
+};
+
+// --- Tables ---
+
+export const addTable = (data: ExtractedData, name = ""): ExtractedData => ({
+  ...data,
+  tables: [...data.tables, { name, headers: ["Column 1"], columnTypes: ['text'], rows: [{ values: [""] }] }],
+});
+
+export const deleteTable = (data: ExtractedData, tableIndex: number): ExtractedData => ({
+  ...data,
+  tables: data.tables.filter((_, i) => i !== tableIndex),
+});
+
+export const renameTable = (data: ExtractedData, tableIndex: number, name: string): ExtractedData =>
+  withTable(data, tableIndex, table => ({ ...table, name }));
+
+export const insertTableColumn = (data: ExtractedData, tableIndex: number, index: number): ExtractedData =>
+  withTable(data, tableIndex, table => insertColumn(table, index, `Column ${table.headers.length + 1}`));
+
+export const deleteTableColumn = (data: ExtractedData, tableIndex: number, index: number): ExtractedData =>
+  withTable(data, tableIndex, table => deleteColumn(table, index));
+
+export const moveTableRow = (data: ExtractedData, tableIndex: number, from: number, to: number): ExtractedData =>
+  withTable(data, tableIndex, table => moveRow(table, from, to));
+
+/**
+ * Turns a document field into a table column holding its value on every
+ * row, such as an order date that applies to each line item.
+ */
+export const fieldToColumn = (data: ExtractedData, fieldIndex: number, tableIndex: number): ExtractedData => {
+  const field = data.fields[fieldIndex];
+  const table = data.tables[tableIndex];
+  if (!field || !table) return data;
+
+  const column = table.headers.length;
+  const withColumn = insertColumn(table, column, field.label, field.type ?? 'text');
+  const value = String(field.value);
+  return {
+    fields: data.fields.filter((_, i) => i !== fieldIndex),
+    tables: data.tables.map((t, i) => i !== tableIndex ? t : {
+      ...withColumn,
+      rows: withColumn.rows.map(row => ({
+        ...row,
+        values: row.values.map((v, c) => (c === column ? value : v)),
+        ...(row.boxes && { boxes: row.boxes.map((b, c) => (c === column ? field.box ?? null : b)) }),
+      })),
+    }),
+  };
+};
+
+// --- Merge and Split ---
+
+const headerKey = (header: string) => header.trim().toLowerCase();
+
+/**
+ * Whether `b` can be merged into `a`: both have the same headers, ignoring
+ * case, surrounding spaces and column order.
+ */
+export const canMergeTables = (a: Table, b: Table) => {
+  if (a.headers.length !== b.headers.length) return false;
+  const keys = new Set(a.headers.map(headerKey));
+  return keys.size === a.headers.length && b.headers.every(h => keys.has(headerKey(h)));
+};
+
+/** Appends the rows of table `from` to table `into`, in its column order, and removes `from`. */
+export const mergeTables = (data: ExtractedData, into: number, from: number): ExtractedData => {
+  const target = data.tables[into];
+  const source = data.tables[from];
+  if (!target || !source || into === from || !canMergeTables(target, source)) return data;
+
+  // Column of `source` for each column of `target`
+  const order = target.headers.map(h => source.headers.findIndex(s => headerKey(s) === headerKey(h)));
+  const reorder = <T>(values: T[], fill: T) => order.map(c => values[c] ?? fill);
+  const merged: Table = { ...target, rows: [...target.rows, ...source.rows.map(row => mapRowArrays(row, reorder))] };
+
+  return {
+    ...data,
+    tables: data.tables.flatMap((t, i) => (i === from ? [] : i === into ? [merged] : [t])),
+  };
+};
+
+/** Moves rows from `rowIndex` on into a new table with the same columns, placed right after. */
+export const splitTable = (data: ExtractedData, tableIndex: number, rowIndex: number): ExtractedData => {
+  const table = data.tables[tableIndex];
+  if (!table || rowIndex <= 0 || rowIndex >= table.rows.length) return data;
+
+  const head: Table = { ...table, rows: table.rows.slice(0, rowIndex) };
+  const tail: Table = { ...table, name: table.name ? `${table.name} (2)` : "", rows: table.rows.slice(rowIndex) };
+  return {
+    ...data,
+    tables: data.tables.flatMap((t, i) => (i === tableIndex ? [head, tail] : [t])),
+  };
+};
@@ -0,0 +1,362 @@
+import {
+  DataIssue,
+  DocumentTemplate,
+  ExtractedData,
+  Field,
+  FieldType,
+  ResponseSchema,
+  Table,
+  TemplateColumn,
+  TemplateField,
+  TemplateTable,
+} from "../types";
+import { EXTRACTION_PROMPT, EXTRACTION_SCHEMA } from "./extractionPrompts";
+import { FIELD_TYPES } from "./valueService";
+
+const TEMPLATES_KEY = "documentTemplates";
+
+export const BUILT_IN_TEMPLATES: DocumentTemplate[] = [
+  {
+    id: "supplier-invoice",
+    name: "Supplier invoice",
+    description: "Invoices received from suppliers, with line items.",
+    version: 1,
+    allowExtra: false,
+    fields: [
+      { label: "Invoice Number", type: "text", required: true, synonyms: ["Invoice No", "Invoice #", "Inv No", "Invoice ID"] },
+      { label: "Invoice Date", type: "date", required: true, synonyms: ["Date", "Issue Date", "Date of Issue"] },
+      { label: "Due Date", type: "date", required: false, synonyms: ["Payment Due", "Due"] },
+      { label: "Supplier Name", type: "text", required: true, synonyms: ["Vendor", "Vendor Name", "Seller", "From"] },
+      { label: "Supplier VAT ID", type: "text", required: false, synonyms: ["VAT Number", "Tax ID", "VAT ID"] },
+      { label: "Subtotal", type: "money", required: false, synonyms: ["Net Amount", "Net Total", "Sub Total"] },
+      { label: "Tax", type: "money", required: false, synonyms: ["VAT", "Tax Amount", "Sales Tax"] },
+      { label: "Total", type: "money", required: true, synonyms: ["Total Amount", "Grand Total", "Amount Due", "Total Due"] },
+      { label: "Currency", type: "text", required: false, synonyms: [] },
+    ],
+    tables: [
+      {
+        name: "Line Items",
+        columns: [
+          { name: "Description", type: "text", required: true, synonyms: ["Item", "Product", "Article", "Service"] },
+          { name: "Quantity", type: "number", required: false, synonyms: ["Qty", "Units", "Qty."] },
+          { name: "Unit Price", type: "money", required: false, synonyms: ["Price", "Rate", "Unit Cost"] },
+          { name: "Amount", type: "money", required: true, synonyms: ["Total", "Line Total", "Net"] },
+        ],
+      },
+    ],
+  },
+  {
+    id: "delivery-note",
+    name: "Delivery note",
+    description: "Packing slips and delivery notes listing shipped goods.",
+    version: 1,
+    allowExtra: false,
+    fields: [
+      { label: "Delivery Note Number", type: "text", required: true, synonyms: ["Delivery No", "Packing Slip No", "DN Number"] },
+      { label: "Delivery Date", type: "date", required: true, synonyms: ["Date", "Ship Date", "Shipping Date"] },
+      { label: "Order Number", type: "text", required: false, synonyms: ["PO Number", "Order No", "Purchase Order"] },
+      { label: "Supplier Name", type: "text", required: true, synonyms: ["Vendor", "Shipper", "From"] },
+      { label: "Recipient", type: "text", required: false, synonyms: ["Ship To", "Deliver To", "Consignee"] },
+    ],
+    tables: [
+      {
+        name: "Items",
+        columns: [
+          { name: "Item Code", type: "text", required: false, synonyms: ["SKU", "Article No", "Product Code", "Code"] },
+          { name: "Description", type: "text", required: true, synonyms: ["Item", "Product", "Article"] },
+          { name: "Quantity", type: "number", required: true, synonyms: ["Qty", "Delivered", "Qty Delivered"] },
+          { name: "Unit", type: "text", required: false, synonyms: ["UoM", "Unit of Measure"] },
+        ],
+      },
+    ],
+  },
+  {
+    id: "id-card",
+    name: "ID card",
+    description: "National ID cards, driving licences and passports.",
+    version: 1,
+    allowExtra: false,
+    fields: [
+      { label: "Document Number", type: "text", required: true, synonyms: ["ID Number", "Card Number", "Passport No", "Licence Number"] },
+      { label: "Surname", type: "text", required: true, synonyms: ["Last Name", "Family Name"] },
+      { label: "Given Names", type: "text", required: true, synonyms: ["First Name", "Forename", "Given Name"] },
+      { label: "Date of Birth", type: "date", required: true, synonyms: ["DOB", "Birth Date"] },
+      { label: "Nationality", type: "text", required: false, synonyms: ["Citizenship"] },
+      { label: "Expiry Date", type: "date", required: false, synonyms: ["Date of Expiry", "Valid Until", "Expires"] },
+    ],
+    tables: [],
+  },
+];
+
+// --- Storage ---
+
+export const loadTemplates = (): DocumentTemplate[] => {
+  try {
+    const saved = localStorage.getItem(TEMPLATES_KEY);
+    if (saved) return parseTemplates(JSON.parse(saved));
+  } catch (error) {
+    console.error("Failed to parse documentTemplates from localStorage", error);
+  }
+  return BUILT_IN_TEMPLATES;
+};
+
+export const saveTemplates = (templates: DocumentTemplate[]) => {
+  localStorage.setItem(TEMPLATES_KEY, JSON.stringify(templates));
+};
+
+// --- Import / Export ---
+
+const asString = (value: unknown, fallback = "") => (typeof value === "string" ? value : fallback);
+const asStrings = (value: unknown) => (Array.isArray(value) ? value.filter((v): v is string => typeof v === "string") : []);
+const asFieldType = (value: unknown): FieldType => (FIELD_TYPES.includes(value as FieldType) ? (value as FieldType) : "text");
+
+const parseTemplate = (raw: any, index: number): DocumentTemplate => {
+  if (!raw || typeof raw !== "object") throw new Error(`Template ${index + 1} is not an object.`);
+  const name = asString(raw.name).trim();
+  if (!name) throw new Error(`Template ${index + 1} has no name.`);
+
+  const fields: TemplateField[] = (Array.isArray(raw.fields) ? raw.fields : []).map((f: any) => ({
+    label: asString(f?.label).trim(),
+    type: asFieldType(f?.type),
+    required: Boolean(f?.required),
+    synonyms: asStrings(f?.synonyms),
+    description: asString(f?.description) || undefined,
+  }));
+  if (fields.some(f => !f.label)) throw new Error(`Template "${name}" has a field without a label.`);
+
+  const tables: TemplateTable[] = (Array.isArray(raw.tables) ? raw.tables : []).map((t: any) => ({
+    name: asString(t?.name).trim(),
+    columns: (Array.isArray(t?.columns) ? t.columns : []).map((c: any): TemplateColumn => ({
+      name: asString(c?.name).trim(),
+      type: asFieldType(c?.type),
+      required: Boolean(c?.required),
+      synonyms: asStrings(c?.synonyms),
+    })),
+  }));
+  if (tables.some(t => !t.name || t.columns.some(c => !c.name))) {
+    throw new Error(`Template "${name}" has a table or column without a name.`);
+  }
+
+  return {
+    id: asString(raw.id) || `template-${Date.now()}-${index}`,
+    name,
+    description: asString(raw.description),
+    version: Number.isInteger(raw.version) && raw.version > 0 ? raw.version : 1,
+    allowExtra: Boolean(raw.allowExtra),
+    fields,
+    tables,
+  };
+};
+
+const parseTemplates = (raw: unknown): DocumentTemplate[] => {
+  const list = Array.isArray(raw) ? raw : [raw];
+  return list.map(parseTemplate);
+};
+
+/** Parses a JSON export (a single template or an array). Throws on invalid input. */
+export const parseTemplatesJson = (json: string): DocumentTemplate[] => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new Error("The file is not valid JSON.");
+  }
+  return parseTemplates(raw);
+};
+
+export const templatesToJson = (templates: DocumentTemplate[]) => JSON.stringify(templates, null, 2);
+
+/**
+ * Adds imported templates to the existing list. Templates with an id that
+ * already exists replace it and keep counting versions from the newer one.
+ */
+export const mergeImportedTemplates = (existing: DocumentTemplate[], imported: DocumentTemplate[]) => {
+  const result = [...existing];
+  imported.forEach(template => {
+    const index = result.findIndex(t => t.id === template.id);
+    if (index === -1) {
+      result.push(template);
+    } else {
+      result[index] = { ...template, version: Math.max(result[index].version, template.version) + 1 };
+    }
+  });
+  return result;
+};
+
+// --- Prompt & Schema ---
+
+const describeField = (f: TemplateField) =>
+  `   - "${f.label}" (${f.type}${f.required ? ", required" : ""})` +
+  (f.synonyms.length ? ` – may appear as ${f.synonyms.map(s => `"${s}"`).join(", ")}` : "") +
+  (f.description ? ` – ${f.description}` : "");
+
+const describeTable = (t: TemplateTable) =>
+  `   - "${t.name}" with headers, in this order: ${t.columns.map(c => `"${c.name}" (${c.type})`).join(", ")}`;
+
+export const buildTemplatePrompt = (template: DocumentTemplate) => {
+  const lines = [
+    `This document is a "${template.name}". ${template.description}`.trim(),
+    "",
+    "1. Extract 'fields' using exactly these labels:",
+    ...template.fields.map(describeField),
+    "   Use an empty string for a field that is not present and give each field the type listed.",
+  ];
+
+  if (template.tables.length > 0) {
+    lines.push("2. Extract 'tables' using exactly these table names and headers:", ...template.tables.map(describeTable));
+    lines.push("   Ensure every row has a value for every header (use empty string if missing).");
+  } else {
+    lines.push("2. This document type has no tables; return an empty 'tables' array.");
+  }
+
+  if (!template.allowExtra) {
+    lines.push("", "Do not return fields or tables other than those listed.");
+  } else {
+    lines.push("", "Other fields or tables may be added after the listed ones, with their labels as printed.");
+  }
+
+  return `${EXTRACTION_PROMPT}\n\n${lines.join("\n")}`;
+};
+
+export const buildTemplateSchema = (template: DocumentTemplate): ResponseSchema => {
+  if (template.allowExtra) return EXTRACTION_SCHEMA;
+
+  const schema: ResponseSchema = structuredClone(EXTRACTION_SCHEMA);
+  const fieldItem = schema.properties!.fields.items!;
+  fieldItem.properties!.label = { type: "string", enum: template.fields.map(f => f.label) };
+  if (template.tables.length > 0) {
+    const tableItem = schema.properties!.tables.items!;
+    tableItem.properties!.name = { type: "string", enum: template.tables.map(t => t.name) };
+  }
+  return schema;
+};
+
+// --- Enforcement ---
+
+const normalizeLabel = (label: string) => label.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+
+const matchesName = (candidate: string, name: string, synonyms: string[]) => {
+  const normalized = normalizeLabel(candidate);
+  return [name, ...synonyms].some(n => normalizeLabel(n) === normalized);
+};
+
+// Picks the extracted table that best fits a template table: by name first,
+// then by how many headers map onto the template columns.
+const findMatchingTable = (tables: Table[], templateTable: TemplateTable, used: Set<number>) => {
+  let best = -1;
+  let bestScore = 0;
+  tables.forEach((table, index) => {
+    if (used.has(index)) return;
+    const nameScore = matchesName(table.name, templateTable.name, []) ? templateTable.columns.length : 0;
+    const headerScore = table.headers.filter(h => templateTable.columns.some(c => matchesName(h, c.name, c.synonyms))).length;
+    const score = nameScore + headerScore;
+    if (score > bestScore) {
+      best = index;
+      bestScore = score;
+    }
+  });
+  return best;
+};
+
+const conformTable = (table: Table, templateTable: TemplateTable, allowExtra: boolean): Table => {
+  const columnSources = templateTable.columns.map(c => table.headers.findIndex(h => matchesName(h, c.name, c.synonyms)));
+  const extraColumns = allowExtra ? table.headers.map((_, i) => i).filter(i => !columnSources.includes(i)) : [];
+
+  return {
+    name: templateTable.name,
+    headers: [...templateTable.columns.map(c => c.name), ...extraColumns.map(i => table.headers[i])],
+    columnTypes: [...templateTable.columns.map(c => c.type), ...extraColumns.map(i => table.columnTypes?.[i] ?? "text")],
+    rows: table.rows.map(row => {
+      // Picks one parallel array (values, confidences, boxes) in the new column order
+      const reorder = <T>(items: T[], empty: T) => [
+        ...columnSources.map(source => (source === -1 ? empty : items[source] ?? empty)),
+        ...extraColumns.map(i => items[i] ?? empty),
+      ];
+      return {
+        values: reorder(row.values, ""),
+        confidences: row.confidences && reorder(row.confidences, null),
+        boxes: row.boxes && reorder(row.boxes, null),
+      };
+    }),
+  };
+};
+
+/**
+ * Rewrites extracted data to the template's canonical shape: synonyms are
+ * mapped to canonical labels, fields and columns follow template order and
+ * take the template's types, missing ones are added empty, and anything
+ * undefined is dropped unless the template allows extras.
+ */
+export const applyTemplate = (data: ExtractedData, template: DocumentTemplate): ExtractedData => {
+  const usedFields = new Set<number>();
+  const fields: Field[] = template.fields.map(tf => {
+    const index = data.fields.findIndex((f, i) => !usedFields.has(i) && matchesName(f.label, tf.label, tf.synonyms));
+    if (index === -1) return { label: tf.label, value: "", type: tf.type };
+    usedFields.add(index);
+    return { ...data.fields[index], label: tf.label, type: tf.type };
+  });
+  if (template.allowExtra) {
+    fields.push(...data.fields.filter((_, i) => !usedFields.has(i)));
+  }
+
+  const usedTables = new Set<number>();
+  const tables: Table[] = [];
+  template.tables.forEach(tt => {
+    const index = findMatchingTable(data.tables, tt, usedTables);
+    if (index === -1) return;
+    usedTables.add(index);
+    tables.push(conformTable(data.tables[index], tt, template.allowExtra));
+  });
+  if (template.allowExtra) {
+    tables.push(...data.tables.filter((_, i) => !usedTables.has(i)));
+  }
+
+  return { fields, tables };
+};
+
+/**
+ * Checks data against a template: required fields, columns and values are
+ * present. Value types are checked separately by `validateValues`.
+ */
+export const validateAgainstTemplate = (data: ExtractedData, template: DocumentTemplate): DataIssue[] => {
+  const issues: DataIssue[] = [];
+
+  template.fields.forEach(tf => {
+    const fieldIndex = data.fields.findIndex(f => matchesName(f.label, tf.label, tf.synonyms));
+    if (fieldIndex === -1) {
+      if (tf.required) {
+        issues.push({ severity: "error", message: `Required field "${tf.label}" is missing.`, target: { kind: "document" } });
+      }
+      return;
+    }
+    const value = String(data.fields[fieldIndex].value);
+    if (tf.required && !value.trim()) {
+      issues.push({ severity: "error", message: `"${tf.label}" is required.`, target: { kind: "field", fieldIndex } });
+    }
+  });
+
+  template.tables.forEach(tt => {
+    const tableIndex = data.tables.findIndex(t => matchesName(t.name, tt.name, []));
+    if (tableIndex === -1) return;
+    const table = data.tables[tableIndex];
+
+    tt.columns.forEach(column => {
+      const columnIndex = table.headers.findIndex(h => matchesName(h, column.name, column.synonyms));
+      if (columnIndex === -1) {
+        if (column.required) {
+          issues.push({ severity: "error", message: `Table "${tt.name}" is missing column "${column.name}".`, target: { kind: "document" } });
+        }
+        return;
+      }
+      table.rows.forEach((row, rowIndex) => {
+        const value = row.values[columnIndex] ?? "";
+        const target = { kind: "cell" as const, tableIndex, rowIndex, columnIndex };
+        if (column.required && !value.trim()) {
+          issues.push({ severity: "error", message: `"${column.name}" is required.`, target });
+        }
+      });
+    });
+  });
+
+  return issues;
+};
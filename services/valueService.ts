@@ -0,0 +1,328 @@
+import { DataIssue, ExtractedData, FieldType } from "../types";
+
+// Parsing and normalization of typed values. Raw values stay exactly as the
+// model or user wrote them; canonical forms are computed on demand for
+// validation and export:
+//
+//   number      1234.5
+//   money       1234.50 EUR   (amount only when no currency is known)
+//   percentage  15%
+//   date        2024-03-01
+//   email       name@example.com
+//   phone       +4930123456
+
+export const FIELD_TYPES: FieldType[] = ["text", "number", "money", "percentage", "date", "email", "phone"];
+
+export const FIELD_TYPE_LABELS: Record<FieldType, string> = {
+  text: "Text",
+  number: "Number",
+  money: "Money",
+  percentage: "Percent",
+  date: "Date",
+  email: "Email",
+  phone: "Phone",
+};
+
+export type ParsedValue = { ok: true; normalized: string } | { ok: false; error: string };
+
+// --- Numbers ---
+
+const decimalSeparatorCache = new Map<string, string>();
+
+const getDecimalSeparator = (locale: string) => {
+  let separator = decimalSeparatorCache.get(locale);
+  if (!separator) {
+    try {
+      separator = new Intl.NumberFormat(locale).formatToParts(1.1).find(p => p.type === "decimal")?.value ?? ".";
+    } catch {
+      separator = ".";
+    }
+    decimalSeparatorCache.set(locale, separator);
+  }
+  return separator;
+};
+
+/**
+ * Parses a number written with any common grouping convention
+ * ("1,234.56", "1.234,56", "1 234,56", "1'234.56"). A lone separator is
+ * read as the locale's decimal separator unless it groups exactly three digits
+ * in a way only a thousands separator would.
+ */
+export const parseLocaleNumber = (raw: string, locale: string): number | null => {
+  let text = raw.trim().replace(/[\s\u00a0\u202f']/g, "");
+  if (!text) return null;
+
+  let negative = false;
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    text = text.slice(1, -1);
+  }
+  if (text.startsWith("-") || text.startsWith("\u2212")) {
+    negative = !negative;
+    text = text.slice(1);
+  } else if (text.endsWith("-")) {
+    negative = !negative;
+    text = text.slice(0, -1);
+  } else if (text.startsWith("+")) {
+    text = text.slice(1);
+  }
+
+  if (!/^[\d.,]+$/.test(text) || !/\d/.test(text)) return null;
+
+  const lastDot = text.lastIndexOf(".");
+  const lastComma = text.lastIndexOf(",");
+  let decimal: string | null = null;
+
+  if (lastDot !== -1 && lastComma !== -1) {
+    decimal = lastDot > lastComma ? "." : ",";
+  } else if (lastDot !== -1 || lastComma !== -1) {
+    const separator = lastDot !== -1 ? "." : ",";
+    const occurrences = text.split(separator).length - 1;
+    const digitsAfter = text.length - text.lastIndexOf(separator) - 1;
+    if (occurrences > 1) {
+      decimal = null;
+    } else if (digitsAfter !== 3) {
+      decimal = separator;
+    } else {
+      decimal = getDecimalSeparator(locale) === separator ? separator : null;
+    }
+  }
+
+  const thousands = decimal === "." ? "," : decimal === "," ? "." : null;
+  if (thousands && text.includes(thousands)) {
+    // Grouping must be regular: 1,234,567 but not 12,34
+    const [integerPart] = text.split(decimal!);
+    if (!/^\d{1,3}([.,]\d{3})*$/.test(integerPart)) return null;
+  }
+
+  const digitsOnly = text
+    .split("")
+    .filter(ch => /\d/.test(ch) || ch === decimal)
+    .join("");
+  const canonical = decimal ? digitsOnly.replace(decimal, ".") : digitsOnly;
+  const value = Number(canonical);
+  if (!Number.isFinite(value)) return null;
+  return negative ? -value : value;
+};
+
+const formatNumber = (value: number) => String(Math.round(value * 1e10) / 1e10);
+
+// --- Money ---
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  "$": "USD",
+  "US$": "USD",
+  "€": "EUR",
+  "£": "GBP",
+  "¥": "JPY",
+  "₹": "INR",
+  "₩": "KRW",
+  "₽": "RUB",
+  "₺": "TRY",
+  "₪": "ILS",
+  "₫": "VND",
+  "฿": "THB",
+  "₦": "NGN",
+  "R$": "BRL",
+  "zł": "PLN",
+  "kr": "SEK",
+  "Fr.": "CHF",
+  "DH": "MAD",
+  "MAD": "MAD",
+};
+
+// Separates a currency code or symbol from the amount text
+const splitCurrency = (raw: string) => {
+  let text = raw.trim();
+  let currency: string | null = null;
+
+  const isoMatch = /\b([A-Z]{3})\b/.exec(text);
+  if (isoMatch) {
+    currency = isoMatch[1];
+    text = text.replace(isoMatch[0], "");
+  } else {
+    // Longest symbols first so "R$" wins over "$"
+    const symbol = Object.keys(CURRENCY_SYMBOLS)
+      .sort((a, b) => b.length - a.length)
+      .find(s => text.includes(s));
+    if (symbol) {
+      currency = CURRENCY_SYMBOLS[symbol];
+      text = text.replace(symbol, "");
+    }
+  }
+
+  return { text, currency };
+};
+
+/** Numeric amount of a number or money value, ignoring any currency. */
+export const parseAmount = (raw: string | number, locale: string): number | null => {
+  if (typeof raw === "number") return Number.isFinite(raw) ? raw : null;
+  return parseLocaleNumber(splitCurrency(raw).text, locale);
+};
+
+const parseMoney = (raw: string, locale: string): ParsedValue => {
+  const { text, currency } = splitCurrency(raw);
+  const amount = parseLocaleNumber(text, locale);
+  if (amount === null) return { ok: false, error: "Not a valid amount (e.g. 1,234.50 EUR)." };
+  const formatted = amount.toFixed(2);
+  return { ok: true, normalized: currency ? `${formatted} ${currency}` : formatted };
+};
+
+// --- Dates ---
+
+const monthNameCache = new Map<string, Map<string, number>>();
+
+// Month names in English and the given locale, long and short, lowercased
+const getMonthNames = (locale: string) => {
+  let names = monthNameCache.get(locale);
+  if (!names) {
+    names = new Map();
+    for (const loc of ["en-US", locale]) {
+      for (const style of ["long", "short"] as const) {
+        try {
+          const format = new Intl.DateTimeFormat(loc, { month: style, timeZone: "UTC" });
+          for (let month = 0; month < 12; month++) {
+            const name = format.format(new Date(Date.UTC(2000, month, 1))).toLowerCase().replace(/\.$/, "");
+            names.set(name, month + 1);
+          }
+        } catch {
+          // Unknown locale; English names are still available
+        }
+      }
+    }
+    monthNameCache.set(locale, names);
+  }
+  return names;
+};
+
+const monthFirst = (locale: string) => {
+  try {
+    const parts = new Intl.DateTimeFormat(locale).formatToParts(new Date(Date.UTC(2000, 10, 22)));
+    return parts.findIndex(p => p.type === "month") < parts.findIndex(p => p.type === "day");
+  } catch {
+    return false;
+  }
+};
+
+const expandYear = (year: number) => (year < 100 ? (year < 70 ? 2000 + year : 1900 + year) : year);
+
+const buildDate = (year: number, month: number, day: number): string | null => {
+  const y = expandYear(year);
+  const date = new Date(Date.UTC(y, month - 1, day));
+  if (date.getUTCFullYear() !== y || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return `${String(y).padStart(4, "0")}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+};
+
+const parseDate = (raw: string, locale: string): ParsedValue => {
+  const text = raw.trim().toLowerCase().replace(/(\d)(st|nd|rd|th)\b/g, "$1").replace(/,/g, " ").replace(/\s+/g, " ");
+  const invalid: ParsedValue = { ok: false, error: "Not a valid date (e.g. 2024-03-01)." };
+  let result: string | null = null;
+
+  let match = /^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})$/.exec(text);
+  if (match) {
+    result = buildDate(+match[1], +match[2], +match[3]);
+  } else if ((match = /^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2}|\d{4})$/.exec(text))) {
+    const [a, b, year] = [+match[1], +match[2], +match[3]];
+    // Unambiguous when one part is above 12; otherwise follow the locale
+    if (a > 12) result = buildDate(year, b, a);
+    else if (b > 12) result = buildDate(year, a, b);
+    else result = monthFirst(locale) ? buildDate(year, a, b) : buildDate(year, b, a);
+  } else {
+    const months = getMonthNames(locale);
+    const tokens = text.replace(/[.\-/]/g, " ").split(" ").filter(Boolean);
+    const monthIndex = tokens.findIndex(t => months.has(t.replace(/\.$/, "")));
+    if (monthIndex !== -1 && tokens.length === 3) {
+      const month = months.get(tokens[monthIndex].replace(/\.$/, ""))!;
+      const numbers = tokens.filter((_, i) => i !== monthIndex).map(Number);
+      if (numbers.every(n => Number.isInteger(n))) {
+        // "1 March 2024", "March 1 2024" or "2024 March 1"
+        const [first, second] = numbers;
+        result = first > 31 ? buildDate(first, month, second) : buildDate(second, month, first);
+      }
+    }
+  }
+
+  return result ? { ok: true, normalized: result } : invalid;
+};
+
+// --- Dispatch ---
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]{2,}$/;
+
+export const parseValue = (raw: string | number, type: FieldType, locale: string): ParsedValue => {
+  const text = String(raw).trim();
+  if (!text) return { ok: true, normalized: "" };
+
+  switch (type) {
+    case "text":
+      return { ok: true, normalized: text };
+    case "number": {
+      const value = parseLocaleNumber(text, locale);
+      return value === null ? { ok: false, error: "Not a valid number." } : { ok: true, normalized: formatNumber(value) };
+    }
+    case "money":
+      return parseMoney(text, locale);
+    case "percentage": {
+      const value = parseLocaleNumber(text.replace(/%$/, ""), locale);
+      return value === null ? { ok: false, error: "Not a valid percentage (e.g. 15%)." } : { ok: true, normalized: `${formatNumber(value)}%` };
+    }
+    case "date":
+      return parseDate(text, locale);
+    case "email": {
+      const email = text.replace(/^mailto:/i, "").toLowerCase();
+      return EMAIL_PATTERN.test(email) ? { ok: true, normalized: email } : { ok: false, error: "Not a valid email address." };
+    }
+    case "phone": {
+      const hasPlus = text.startsWith("+") || text.startsWith("00");
+      const digits = text.replace(/^00/, "").replace(/\D/g, "");
+      if (!/^[\d\s()+\-./]+$/.test(text) || digits.length < 6 || digits.length > 15) {
+        return { ok: false, error: "Not a valid phone number." };
+      }
+      return { ok: true, normalized: hasPlus ? `+${digits}` : digits };
+    }
+  }
+};
+
+/** Canonical form of a value, or the raw text when it doesn't parse. */
+export const normalizeValue = (raw: string | number, type: FieldType | undefined, locale: string): string => {
+  if (!type) return String(raw);
+  const parsed = parseValue(raw, type, locale);
+  return parsed.ok ? parsed.normalized : String(raw);
+};
+
+/** Returns a copy of the data with every typed field and cell in canonical form. */
+export const normalizeData = (data: ExtractedData, locale: string): ExtractedData => ({
+  fields: data.fields.map(f => ({ ...f, value: normalizeValue(f.value, f.type, locale) })),
+  tables: data.tables.map(t => ({
+    ...t,
+    rows: t.rows.map(r => ({
+      ...r,
+      values: r.values.map((v, i) => normalizeValue(v, t.columnTypes?.[i], locale)),
+    })),
+  })),
+});
+
+export const validateValues = (data: ExtractedData, locale: string): DataIssue[] => {
+  const issues: DataIssue[] = [];
+
+  data.fields.forEach((field, fieldIndex) => {
+    if (!field.type) return;
+    const parsed = parseValue(field.value, field.type, locale);
+    if (parsed.ok === false) issues.push({ severity: "error", message: parsed.error, target: { kind: "field", fieldIndex } });
+  });
+
+  data.tables.forEach((table, tableIndex) => {
+    table.rows.forEach((row, rowIndex) => {
+      row.values.forEach((value, columnIndex) => {
+        const type = table.columnTypes?.[columnIndex];
+        if (!type) return;
+        const parsed = parseValue(value, type, locale);
+        if (parsed.ok === false) {
+          issues.push({ severity: "error", message: parsed.error, target: { kind: "cell", tableIndex, rowIndex, columnIndex } });
+        }
+      });
+    });
+  });
+
+  return issues;
+};
@@ -1,16 +1,40 @@
 export interface Field {
   label: string;
   value: string | number;
+  type?: FieldType; // Untyped values are treated as free text
+  confidence?: number; // 0–1 as reported by the model; cleared once a reviewer edits the value
+  box?: BoundingBox;
 }
 
+// Where a value was read, as fractions (0–1) of the page image size
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  page?: number; // Zero-based page index for multi-page documents
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// Document outline as fractions of the image size: top-left, top-right,
+// bottom-right, bottom-left
+export type Quad = [Point, Point, Point, Point];
+
 export interface TableRow {
   values: string[];
+  confidences?: (number | null)[]; // Parallel to `values`
+  boxes?: (BoundingBox | null)[]; // Parallel to `values`
 }
 
 export interface Table {
   name: string;
   headers: string[];
   rows: TableRow[];
+  columnTypes?: FieldType[]; // Parallel to `headers`
 }
 
 export interface ExtractedData {
@@ -18,26 +42,305 @@ export interface ExtractedData {
   tables: Table[];
 }
 
+export type FieldType = 'text' | 'number' | 'money' | 'percentage' | 'date' | 'email' | 'phone';
+
+export type DocumentType = 'invoice' | 'receipt' | 'inventory' | 'id' | 'unknown';
+
+export interface DocumentClassification {
+  type: DocumentType;
+  confidence: number; // 0..1 as reported by the model
+}
+
+export interface TemplateField {
+  label: string;
+  type: FieldType;
+  required: boolean;
+  synonyms: string[]; // Alternative labels the model may use, mapped back to `label`
+  description?: string;
+}
+
+export interface TemplateColumn {
+  name: string;
+  type: FieldType;
+  required: boolean;
+  synonyms: string[];
+}
+
+export interface TemplateTable {
+  name: string;
+  columns: TemplateColumn[];
+}
+
+// A named extraction schema for one kind of document
+export interface DocumentTemplate {
+  id: string;
+  name: string;
+  description: string;
+  version: number; // Bumped on every save
+  allowExtra: boolean; // Keep fields/columns/tables the template doesn't define
+  fields: TemplateField[];
+  tables: TemplateTable[];
+}
+
+// A single value in extracted data
+export type ValueLocation =
+  | { kind: 'field'; fieldIndex: number }
+  | { kind: 'cell'; tableIndex: number; rowIndex: number; columnIndex: number };
+
+export type IssueTarget = { kind: 'document' } | ValueLocation;
+
+// One difference between two versions of a document's data. Indexes refer
+// to the earlier version, except `rowIndex` of an added row.
+export type DataChange =
+  | { kind: 'field'; fieldIndex: number; label: string; before: string; after: string }
+  | { kind: 'fieldAdded'; label: string; after: string }
+  | { kind: 'fieldRemoved'; fieldIndex: number; label: string; before: string }
+  | { kind: 'cell'; tableIndex: number; rowIndex: number; columnIndex: number; table: string; header: string; before: string; after: string }
+  | { kind: 'rowAdded'; tableIndex: number; rowIndex: number; table: string; values: string[] } // Values follow the earlier headers
+  | { kind: 'rowRemoved'; tableIndex: number; rowIndex: number; table: string; values: string[] };
+
+// A model and prompt to re-run a document with, to compare against its current data
+export interface ExtractionVariant {
+  providerId: ProviderId;
+  model: string;
+  templateId: string | null; // null for the generic prompt
+  instructions: string; // Appended to the prompt; may be empty
+}
+
+// What a re-extracted region of the preview replaces
+export type RegionTarget =
+  | { kind: 'field'; fieldIndex: number }
+  | { kind: 'table'; tableIndex: number; mode: 'replace' | 'append' };
+
+// A problem found in extracted data, shown inline in the editor
+export interface DataIssue {
+  severity: 'error' | 'warning';
+  message: string;
+  target: IssueTarget;
+}
+
+// Arithmetic cross-checks. Columns and fields are found by name, matched
+// case-insensitively against the names listed for each role.
+export type ColumnRole = 'quantity' | 'unitPrice' | 'amount';
+export type TotalRole = 'subtotal' | 'tax' | 'total';
+
+export interface ArithmeticRules {
+  enabled: boolean;
+  tolerance: number; // Largest difference still accepted, in currency units
+  columns: Record<ColumnRole, string[]>;
+  fields: Record<TotalRole, string[]>;
+}
+
+export type ImageFormat = 'image/jpeg' | 'image/webp' | 'image/png';
+
+// Applied to every page before extraction. Steps that find nothing to fix
+// leave the image as it is.
+export interface PreprocessingSettings {
+  enabled: boolean;
+  perspective: boolean; // Crop to the detected page and square it up
+  deskew: boolean; // Straighten slightly rotated text lines
+  contrast: boolean; // Stretch faded or dim photos to the full tonal range
+  maxDimension: number; // Longest side in pixels; 0 keeps the size
+  format: ImageFormat;
+  quality: number; // 0–1, for JPEG and WebP
+}
+
 export interface ProcessedResult {
   id: string;
   name: string; // Add name for the tab
   image: string;
+  pages?: string[]; // One image per page for multi-page sources (PDF)
+  originalPages?: string[]; // Pages as uploaded, when preprocessing changed them
+  preprocessSteps?: string[]; // What preprocessing changed, across all pages
   data: ExtractedData;
+  originalData?: ExtractedData; // As last extracted, before any edits
   status: AppStatus;
   errorMessage: string | null;
+  progress?: ExtractionProgress;
+  statusMessage?: string; // Transient detail such as a pending retry
+  createdAt: number;
+  templateId?: string | null; // Requested template: an id, AUTO_TEMPLATE_ID, or null for generic
+  appliedTemplateId?: string | null; // Template actually used after routing by document type
+  classification?: DocumentClassification;
+  documentTypeOverridden?: boolean; // Set by the user; skips classification on re-runs
+  lastExport?: ExportRecord;
+  contentHash?: string; // Hash of the pages as uploaded, used to spot duplicates
+  duplicateOf?: { id: string; name: string; createdAt: number }; // Earlier result for the same pages
+  fromCache?: boolean; // Some response of the last extraction came from the cache
+}
+
+// Lightweight view of a saved result for the history list
+export interface HistoryEntry {
+  id: string;
+  name: string;
+  data: ExtractedData;
+  status: AppStatus;
+  createdAt: number;
+  updatedAt: number;
+  thumbnail: string;
+  pageCount: number;
+}
+
+export interface ExtractionProgress {
+  completed: number;
+  total: number;
+}
+
+// A file picked by the user, already converted to one image per page
+export interface UploadedDocument {
+  name: string;
+  pages: string[];
 }
 
 export enum AppStatus {
   IDLE = 'IDLE',
+  QUEUED = 'QUEUED',
   ANALYZING = 'ANALYZING',
   SUCCESS = 'SUCCESS',
   ERROR = 'ERROR',
   EXPORTING = 'EXPORTING',
+  CANCELLED = 'CANCELLED',
 }
 
-export interface SheetConfig {
+// A named place to export to, e.g. one per team member or document type
+export interface SheetDestination {
+  id: string;
+  name: string;
   spreadsheetId: string;
+  spreadsheetName?: string; // As listed in Drive, for display
+  worksheet: string; // Empty falls back to the tab name
+}
+
+export interface SheetConfig {
   clientId: string; // Changed from accessToken to clientId for better UX
+  destinations: SheetDestination[];
+  defaultDestinationId: string | null;
+  destinationByType?: Partial<Record<DocumentType, string>>; // Destination id; empty uses the default
+}
+
+// How extracted data is laid out in exported sheets and files:
+// - perTable: a fields sheet plus one sheet per table, joined by document ID
+// - long: every table stacked in one sheet, with a column naming the table
+// - fieldsOnly: one summary row of fields per document
+export type ExportLayout = 'perTable' | 'long' | 'fieldsOnly';
+
+// What identifies a document across exports: a hash of its page images, or
+// the value of a field such as the invoice number
+export type DocumentKeySource = 'imageHash' | 'field';
+
+// What a Sheets export does when rows for the document key already exist:
+// - skip: leave the worksheet untouched
+// - replace: delete the old rows and append the new ones at the end
+// - upsert: overwrite the old rows in place, appending or deleting the difference
+export type DuplicateMode = 'skip' | 'replace' | 'upsert';
+
+export interface ExportSettings {
+  layout: ExportLayout;
+  keySource: DocumentKeySource;
+  keyField: string; // Field label used when keySource is 'field'
+  duplicateMode: DuplicateMode;
+}
+
+// The most recent Sheets export of a result
+export interface ExportRecord {
+  exportedAt: number;
+  spreadsheetId: string;
+  worksheet: string; // Chosen worksheet; table worksheets are named after it
+  layout: ExportLayout;
+  documentKey: string;
+  mode: DuplicateMode;
+  worksheets: string[]; // Worksheets written to
+  skipped: string[]; // Worksheets left alone because the key was already there
+  rowCount: number;
+  // Missing on exports saved before pulls read them back
+  profileIds?: Record<string, string | null>; // Mapping profile applied to each worksheet, by name
+  sheets?: ExportSheet[]; // Rows as exported, mapped, for comparing a pull against
+}
+
+export type DownloadFormat = 'csv' | 'xlsx' | 'json' | 'zip';
+
+// One worksheet or file produced by an export
+export interface ExportSheet {
+  name: string;
+  headers: string[];
+  rows: string[][];
+  columnTypes: (FieldType | undefined)[]; // Parallel to `headers`
+  sources?: (ValueLocation | null)[][]; // Parallel to `rows`: where each cell came from
+  tableIndex?: number; // Set when the rows are exactly the rows of this table
+}
+
+// Fixed sheet columns for exports to one spreadsheet/worksheet. Each target
+// column is filled from the first extracted label or header matching one of
+// its sources; leftovers are dropped or collected in a catch-all column.
+export interface ColumnMapping {
+  target: string;
+  sources: string[]; // Labels, headers and synonyms, matched case-insensitively
+}
+
+export interface MappingProfile {
+  id: string;
+  name: string;
+  spreadsheetId: string; // Empty matches any spreadsheet
+  worksheet: string; // Empty matches any worksheet
+  columns: ColumnMapping[];
+  unmapped: 'drop' | 'catchAll';
+  catchAllColumn: string; // Receives "Label: value" pairs when unmapped is 'catchAll'
+}
+
+export type ProviderId = 'gemini' | 'openai' | 'mock';
+
+export interface ProviderConfig {
+  model: string;
+  temperature: number;
+  timeoutMs: number;
+  apiKey: string; // Empty uses the build-time key where the provider has one
+  baseUrl: string; // Only used by HTTP providers
+}
+
+export interface ExtractionSettings {
+  concurrency: number; // Max documents extracted at the same time
+  maxRetries: number; // Retries per page on rate limits / server errors
+  providerId: ProviderId;
+  providers: Record<ProviderId, ProviderConfig>;
+  activeTemplateId: string | null; // Applied to new uploads; null for generic
+  templateByType: Record<DocumentType, string | null>; // Used when the template is AUTO_TEMPLATE_ID
+  locale: string; // BCP 47 tag used to read numbers and dates, e.g. 'de-DE'
+  arithmeticRules: ArithmeticRules;
+  confidenceThreshold: number; // Values below this confidence are flagged for review
+  preprocessing: PreprocessingSettings;
+  cacheResponses: boolean; // Reuse provider responses for identical requests
+}
+
+// Provider-neutral subset of JSON Schema used to constrain model output.
+// Each provider translates it to its own structured-output format.
+export interface ResponseSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  properties?: Record<string, ResponseSchema>;
+  required?: string[];
+  items?: ResponseSchema;
+  enum?: string[];
+  nullable?: boolean;
+}
+
+export interface ExtractionRequest {
+  image: string; // Data URL
+  prompt: string;
+  schema: ResponseSchema;
+  signal?: AbortSignal;
+}
+
+// A backend that turns an image + instructions into JSON matching a schema
+export interface ExtractionProvider {
+  id: ProviderId;
+  model: string;
+  extract: (request: ExtractionRequest) => Promise<unknown>;
+}
+
+// Provider responses by request key, so an identical request isn't paid for twice
+export interface ResponseCache {
+  get: (key: string) => Promise<unknown | undefined>;
+  put: (key: string, response: unknown) => Promise<void>;
 }
 
 export interface VisionResponse {
@@ -46,6 +349,17 @@ export interface VisionResponse {
 
 // Google Identity Services Types
 declare global {
+  interface GoogleTokenResponse {
+    access_token?: string;
+    expires_in?: number | string; // Seconds
+    error?: string;
+    error_description?: string;
+  }
+
+  interface GoogleTokenClient {
+    requestAccessToken: (overrides?: { prompt?: string }) => void;
+  }
+
   interface Window {
     google: {
       accounts: {
@@ -53,10 +367,12 @@ declare global {
           initTokenClient: (config: {
             client_id: string;
             scope: string;
-            callback: (response: any) => void;
-          }) => any;
+            callback: (response: GoogleTokenResponse) => void;
+            error_callback?: (error: { type: string; message?: string }) => void;
+          }) => GoogleTokenClient;
+          revoke: (accessToken: string, done: () => void) => void;
         };
       };
     };
   }
-}
\ No newline at end of file
+}